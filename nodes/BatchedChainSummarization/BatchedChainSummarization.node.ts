@@ -8,23 +8,77 @@ import type {
 } from 'n8n-workflow';
 import { NodeConnectionType } from 'n8n-workflow';
 
-import { processItem } from './processItem';
-import { DEFAULT_PROMPT_TEMPLATE, REFINE_PROMPT_TEMPLATE } from './prompt';
-import { DEFAULT_BATCH_SIZE, DEFAULT_DELAY_BETWEEN_BATCHES } from './constants';
+import { runWithConcurrency } from './concurrency';
+import { groupItemsByField } from './itemGroups';
+import { createRateLimiter } from './parameters';
+import { processItem, processItems, type ExecutionResources } from './processItem';
+import {
+	DEFAULT_PROMPT_TEMPLATE,
+	REFINE_PROMPT_TEMPLATE,
+	RELEVANCE_SCORE_PROMPT_TEMPLATE,
+} from './prompt';
+import {
+	DEFAULT_BATCH_SIZE,
+	DEFAULT_CACHE_FILE_PATH,
+	DEFAULT_CHECKPOINT_DIRECTORY,
+	DEFAULT_CHUNK_ERROR_POLICY,
+	DEFAULT_DELAY_BETWEEN_BATCHES,
+	DEFAULT_FALLBACK_AFTER_FAILURES,
+	DEFAULT_GROUP_CONCURRENCY,
+	DEFAULT_HIERARCHY_KEYS,
+	DEFAULT_PRESELECTION_TOP_K,
+	DEFAULT_PREVIOUS_SUMMARY_FIELD,
+	DEFAULT_PREVIOUS_SUMMARY_KEY,
+	DEFAULT_REFINE_SEGMENTS,
+	DEFAULT_RETRY_BASE_DELAY,
+	DEFAULT_RETRY_MAX_ATTEMPTS,
+	DEFAULT_RETRY_MAX_DELAY,
+	DEFAULT_SCHEDULING_MODE,
+	DEFAULT_SIZE_ENFORCEMENT,
+	DEFAULT_TOKEN_MAX,
+	MAX_FALLBACK_MODELS,
+	MAX_RETRY_ATTEMPTS,
+	MIN_FALLBACK_AFTER_FAILURES,
+} from './constants';
 
 function getInputs(parameters: IDataObject) {
 	const chunkingMode = parameters?.chunkingMode;
 	const operationMode = parameters?.operationMode;
+	// The extractive method ranks sentences locally, a model is only its optional fallback
+	const methodAndPrompts = (parameters?.options as IDataObject | undefined)
+		?.summarizationMethodAndPrompts as IDataObject | undefined;
+	const summarizationMethod = (methodAndPrompts?.values as IDataObject | undefined)
+		?.summarizationMethod;
 	const inputs: INodeInputConfiguration[] = [
 		{ displayName: '', type: NodeConnectionType.Main },
 		{
 			displayName: 'Model',
 			maxConnections: 1,
 			type: NodeConnectionType.AiLanguageModel,
-			required: true,
+			required: summarizationMethod !== 'extractive',
 		},
 	];
 
+	if (parameters?.useCombineModel === true) {
+		inputs.push({
+			displayName: 'Combine Model',
+			maxConnections: 1,
+			type: NodeConnectionType.AiLanguageModel,
+			required: true,
+		});
+	}
+
+	// Fallback models come after the other model inputs, in priority order
+	const fallbackModelCount = Number(parameters?.fallbackModelCount ?? 0);
+	for (let index = 1; index <= fallbackModelCount; index++) {
+		inputs.push({
+			displayName: `Fallback Model ${index}`,
+			maxConnections: 1,
+			type: NodeConnectionType.AiLanguageModel,
+			required: true,
+		});
+	}
+
 	if (operationMode === 'documentLoader') {
 		inputs.push({
 			displayName: 'Document',
@@ -93,6 +147,86 @@ export class BatchedChainSummarization implements INodeType {
 					},
 				],
 			},
+			{
+				displayName: 'Use Separate Combine Model',
+				name: 'useCombineModel',
+				type: 'boolean',
+				noDataExpression: true,
+				default: false,
+				description:
+					'Whether to connect a second model for the final combine, collapse and size retry steps, so a cheaper model can summarize the chunks',
+			},
+			{
+				displayName: 'Fallback Models',
+				name: 'fallbackModelCount',
+				type: 'number',
+				noDataExpression: true,
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+					maxValue: MAX_FALLBACK_MODELS,
+				},
+				description:
+					'Number of model inputs that take over in order when the connected model keeps failing, e.g. during an outage or when its quota is exhausted',
+			},
+			{
+				displayName: 'Item Handling',
+				name: 'itemHandling',
+				noDataExpression: true,
+				type: 'options',
+				description:
+					'Whether to summarize every input item on its own, all items together, or the items sharing a field value together',
+				default: 'eachItem',
+				options: [
+					{
+						name: 'Aggregate Items',
+						value: 'aggregate',
+						description:
+							'Summarize the documents of all items as one corpus and output a single summary linked to every source item',
+					},
+					{
+						name: 'Group By Field',
+						value: 'groupBy',
+						description:
+							'Summarize the items sharing the value of a field as one corpus and output one summary per group',
+					},
+					{
+						name: 'Summarize Each Item',
+						value: 'eachItem',
+						description: 'Output one summary per input item',
+					},
+				],
+			},
+			{
+				displayName: 'Group By Field',
+				name: 'groupByField',
+				type: 'string',
+				required: true,
+				default: '',
+				placeholder: 'e.g. customer.ID',
+				description:
+					'Path of the item field whose value groups the items, use dots for nested fields. Items without the field form one group.',
+				displayOptions: {
+					show: {
+						itemHandling: ['groupBy'],
+					},
+				},
+			},
+			{
+				displayName: 'Group Concurrency',
+				name: 'groupConcurrency',
+				type: 'number',
+				default: DEFAULT_GROUP_CONCURRENCY,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'How many groups to summarize at the same time',
+				displayOptions: {
+					show: {
+						itemHandling: ['groupBy'],
+					},
+				},
+			},
 			{
 				displayName: 'Chunking Strategy',
 				name: 'chunkingMode',
@@ -155,7 +289,8 @@ export class BatchedChainSummarization implements INodeType {
 				name: 'delayBetweenBatches',
 				type: 'number',
 				default: DEFAULT_DELAY_BETWEEN_BATCHES,
-				description: 'Delay in milliseconds between batches. This is useful for rate limiting.',
+				description:
+					'Delay in milliseconds between batches. This is useful for rate limiting. Ignored when a Rate Limit option is set.',
 			},
 			{
 				displayName: 'Output Size Limit',
@@ -183,6 +318,42 @@ export class BatchedChainSummarization implements INodeType {
 					},
 				],
 			},
+			{
+				displayName: 'Size Enforcement Strategy',
+				name: 'sizeEnforcement',
+				type: 'options',
+				default: DEFAULT_SIZE_ENFORCEMENT,
+				description:
+					'How the output size limit is enforced on the final summary. The strategy that produced the final text is returned as sizeValidation.appliedStrategy.',
+				options: [
+					{
+						name: 'Agent With Counting Tools',
+						value: 'agent',
+						description:
+							'Let an agent check its draft with token or character counting tools before answering. Needs a model that supports tool calling, falls back to Retry otherwise.',
+					},
+					{
+						name: 'Hard Truncate',
+						value: 'truncate',
+						description: 'Cut the final summary at the limit when it is too long',
+					},
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Do not mention the limit to the model, only report the size',
+					},
+					{
+						name: 'Prompt Only',
+						value: 'prompt',
+						description: 'Add the limit to the prompts but accept longer answers',
+					},
+					{
+						name: 'Retry',
+						value: 'retry',
+						description: 'Add the limit to the prompts and retry with stricter prompts when exceeded',
+					},
+				],
+			},
 			{
 				displayName: 'Options',
 				name: 'options',
@@ -203,6 +374,589 @@ export class BatchedChainSummarization implements INodeType {
 							},
 						},
 					},
+					{
+						displayName: 'Combine Token Max',
+						name: 'tokenMax',
+						type: 'number',
+						default: DEFAULT_TOKEN_MAX,
+						description:
+							'Maximum number of tokens the joined individual summaries may have before they are collapsed into intermediate summaries. Only used by Map Reduce.',
+					},
+					{
+						displayName: 'Tokenizer',
+						name: 'tokenizer',
+						type: 'options',
+						default: 'auto',
+						description:
+							'How tokens are counted for the output size limit, the combine token max and rate limit estimates',
+						options: [
+							{
+								name: 'Auto (From Model)',
+								value: 'auto',
+								description:
+									"Use the model's own token counter when it has one, otherwise the encoding matching the model name",
+							},
+							{
+								name: 'Cl100k_base',
+								value: 'cl100k_base',
+								description: 'GPT-4 and GPT-3.5 models',
+							},
+							{
+								name: 'O200k_base',
+								value: 'o200k_base',
+								description: 'GPT-4o, GPT-4.1 and o-series models',
+							},
+							{
+								name: 'P50k_base',
+								value: 'p50k_base',
+								description: 'Codex and text-davinci models',
+							},
+							{
+								name: 'R50k_base',
+								value: 'r50k_base',
+								description: 'GPT-3 models',
+							},
+						],
+					},
+					{
+						displayName: 'Output JSON Schema',
+						name: 'outputSchema',
+						type: 'json',
+						default: '',
+						description:
+							'JSON Schema of the final summary. When set, the final combine, stuff or refine step answers with JSON that is validated against the schema (and sent back for correction when it does not match) and returned as structured fields.',
+						typeOptions: {
+							rows: 10,
+						},
+					},
+					{
+						displayName: 'Refine Segments',
+						name: 'refineSegments',
+						type: 'number',
+						default: DEFAULT_REFINE_SEGMENTS,
+						typeOptions: {
+							minValue: 1,
+						},
+						description:
+							'Number of contiguous segments refined at the same time before their summaries are merged in order. Only used by Parallel Refine.',
+					},
+					{
+						displayName: 'Hierarchy Metadata Keys',
+						name: 'hierarchyKeys',
+						type: 'string',
+						default: DEFAULT_HIERARCHY_KEYS.join(', '),
+						description:
+							'Comma-separated document metadata keys that nest the chunks for the Hierarchical method, outermost level first. Nested values use dots, e.g. loc.pageNumber. Keys missing from every chunk are skipped.',
+					},
+					{
+						displayName: 'Extractive Summary',
+						name: 'extractive',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Configure Extractive Summary',
+						description:
+							'How the Extractive method ranks sentences, and whether it steps in when the model fails',
+						options: [
+							{
+								name: 'values',
+								displayName: 'Values',
+								values: [
+									{
+										displayName: 'Sentence Ranking',
+										name: 'ranking',
+										type: 'options',
+										default: 'textrank',
+										options: [
+											{
+												name: 'TextRank',
+												value: 'textrank',
+												description:
+													'Rank sentences by how similar they are to the other sentences. Very long inputs are ranked with TF-IDF.',
+											},
+											{
+												name: 'TF-IDF',
+												value: 'tfidf',
+												description:
+													'Rank sentences by how close their distinctive words are to the rest of the text. Faster for long inputs.',
+											},
+										],
+									},
+									{
+										displayName: 'Use as Fallback',
+										name: 'fallback',
+										type: 'boolean',
+										default: false,
+										description:
+											'Whether to answer with an extractive summary when the selected method fails after its retries and fallback models, instead of failing the item',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Chunk Preselection',
+						name: 'preselection',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Configure Chunk Preselection',
+						description:
+							'How the Map Rerank method scores the chunks and how many of the most relevant ones it summarizes',
+						options: [
+							{
+								name: 'values',
+								displayName: 'Values',
+								values: [
+									{
+										displayName: 'Scoring',
+										name: 'scoring',
+										type: 'options',
+										default: 'llm',
+										options: [
+											{
+												name: 'LLM Score',
+												value: 'llm',
+												description:
+													'Ask the model to rate each chunk from 0 to 10. Best results, one short call per chunk.',
+											},
+											{
+												name: 'TextRank',
+												value: 'textrank',
+												description:
+													'Rank the chunks locally by how similar they are to the other chunks, without model calls',
+											},
+											{
+												name: 'TF-IDF',
+												value: 'tfidf',
+												description:
+													'Rank the chunks locally by how close their distinctive words are to the whole document, without model calls',
+											},
+										],
+									},
+									{
+										displayName: 'Score Prompt',
+										name: 'scorePrompt',
+										type: 'string',
+										default: RELEVANCE_SCORE_PROMPT_TEMPLATE,
+										hint: 'The prompt to rate a chunk, the first number of the answer is its score',
+										displayOptions: {
+											show: {
+												scoring: ['llm'],
+											},
+										},
+										typeOptions: {
+											rows: 9,
+										},
+									},
+									{
+										displayName: 'Top K',
+										name: 'topK',
+										type: 'number',
+										default: DEFAULT_PRESELECTION_TOP_K,
+										typeOptions: {
+											minValue: 0,
+										},
+										description:
+											'Maximum number of chunks to summarize, 0 keeps every chunk that fits into the token budget',
+									},
+									{
+										displayName: 'Token Budget',
+										name: 'tokenBudget',
+										type: 'number',
+										default: 0,
+										typeOptions: {
+											minValue: 0,
+										},
+										description:
+											'Maximum tokens of the kept chunks, 0 for no budget. The most relevant chunk is always kept.',
+									},
+									{
+										displayName: 'Summarize With',
+										name: 'summarizeWith',
+										type: 'options',
+										default: 'map_reduce',
+										options: [
+											{
+												name: 'Map Reduce',
+												value: 'map_reduce',
+												description: 'Summarize each kept chunk, then combine the summaries',
+											},
+											{
+												name: 'Stuff',
+												value: 'stuff',
+												description: 'Pass all kept chunks at once to the final prompt',
+											},
+										],
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Return Intermediate Steps',
+						name: 'returnIntermediateSteps',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to include every chunk summary and refine step (chunk index, source metadata, prompt and resulting text) in the output',
+					},
+					{
+						displayName: 'On Chunk Error',
+						name: 'chunkErrorPolicy',
+						type: 'options',
+						default: DEFAULT_CHUNK_ERROR_POLICY,
+						description:
+							'What to do when a single chunk fails, e.g. on a content filter refusal or a malformed response. Cancellation always stops the item.',
+						options: [
+							{
+								name: 'Fail the Item',
+								value: 'fail',
+								description: 'Stop summarizing and fail the item (or return its error)',
+							},
+							{
+								name: 'Skip the Chunk',
+								value: 'skip',
+								description:
+									'Leave the chunk out and summarize the rest. The output reports partial, coverage and failedChunks.',
+							},
+						],
+					},
+					{
+						displayName: 'Switch Model After Failures',
+						name: 'fallbackAfterFailures',
+						type: 'number',
+						default: DEFAULT_FALLBACK_AFTER_FAILURES,
+						typeOptions: {
+							minValue: MIN_FALLBACK_AFTER_FAILURES,
+						},
+						description:
+							'Failed model calls in a row, each after its retries, before the next fallback model takes over for the rest of the run. The failed call is repeated until then. Only provider errors count, not bad requests. Only used with fallback models.',
+					},
+					{
+						displayName: 'Scheduling Mode',
+						name: 'schedulingMode',
+						type: 'options',
+						default: DEFAULT_SCHEDULING_MODE,
+						description: 'How chunk summaries are scheduled within the Batch Size limit',
+						options: [
+							{
+								name: 'Batches',
+								value: 'batch',
+								description:
+									'Send Batch Size chunks at once and wait for all of them (and the delay) before the next batch',
+							},
+							{
+								name: 'Worker Pool',
+								value: 'pool',
+								description:
+									'Keep Batch Size requests in flight and start the next chunk as soon as any request finishes. Delay Between Batches is not used.',
+							},
+						],
+					},
+					{
+						displayName: 'Cache',
+						name: 'cache',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Configure Cache',
+						description:
+							'Reuse chunk summaries when the same chunk is summarized again with the same prompt and model. Hits and misses are returned in the output.',
+						options: [
+							{
+								name: 'values',
+								displayName: 'Values',
+								values: [
+									{
+										displayName: 'Backend',
+										name: 'backend',
+										type: 'options',
+										default: 'memory',
+										options: [
+											{
+												name: 'In Memory',
+												value: 'memory',
+												description: 'Keep summaries until n8n restarts',
+											},
+											{
+												name: 'SQLite File',
+												value: 'sqlite',
+												description: 'Keep summaries in a local SQLite database file',
+											},
+										],
+									},
+									{
+										displayName: 'Database File',
+										name: 'filePath',
+										type: 'string',
+										default: DEFAULT_CACHE_FILE_PATH,
+										description:
+											'Path of the SQLite database file. Relative paths are resolved from the n8n working directory.',
+										displayOptions: {
+											show: {
+												backend: ['sqlite'],
+											},
+										},
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Refine Checkpoint',
+						name: 'refineCheckpoint',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Configure Checkpoint',
+						description:
+							'Save the refine progress after every step so re-running the same item resumes from the last step instead of starting over. Only used by Refine.',
+						options: [
+							{
+								name: 'values',
+								displayName: 'Values',
+								values: [
+									{
+										displayName: 'Storage',
+										name: 'storage',
+										type: 'options',
+										default: 'staticData',
+										options: [
+											{
+												name: 'JSON Files',
+												value: 'file',
+												description: 'Keep each checkpoint in a local JSON file, also for manual executions',
+											},
+											{
+												name: 'Workflow Static Data',
+												value: 'staticData',
+												description:
+													'Keep checkpoints with the workflow. n8n only saves static data of production executions.',
+											},
+										],
+									},
+									{
+										displayName: 'Checkpoint Directory',
+										name: 'directory',
+										type: 'string',
+										default: DEFAULT_CHECKPOINT_DIRECTORY,
+										description:
+											'Folder of the JSON checkpoint files, created when missing. Relative paths are resolved from the n8n working directory.',
+										displayOptions: {
+											show: {
+												storage: ['file'],
+											},
+										},
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Previous Summary',
+						name: 'previousSummary',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Configure Previous Summary',
+						description:
+							'Update the summary of a previous run with the new documents instead of summarizing everything again, e.g. for rolling daily digests',
+						options: [
+							{
+								name: 'values',
+								displayName: 'Values',
+								values: [
+									{
+										displayName: 'Source',
+										name: 'source',
+										type: 'options',
+										default: 'field',
+										options: [
+											{
+												name: 'Input Field',
+												value: 'field',
+												description: 'Read the previous summary from a field of the input item',
+											},
+											{
+												name: 'Workflow Static Data',
+												value: 'staticData',
+												description:
+													'Read the previous summary from the workflow and save the new one for the next run. n8n only saves static data of production executions.',
+											},
+										],
+									},
+									{
+										displayName: 'Summary Field',
+										name: 'field',
+										type: 'string',
+										default: DEFAULT_PREVIOUS_SUMMARY_FIELD,
+										description:
+											'Path of the item field holding the previous summary, use dots for nested fields. Items without it are summarized from scratch.',
+										displayOptions: {
+											show: {
+												source: ['field'],
+											},
+										},
+									},
+									{
+										displayName: 'Summary Key',
+										name: 'key',
+										type: 'string',
+										default: DEFAULT_PREVIOUS_SUMMARY_KEY,
+										description:
+											'Name the summary is saved under, an expression gives every digest its own summary',
+										displayOptions: {
+											show: {
+												source: ['staticData'],
+											},
+										},
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Rate Limit',
+						name: 'rateLimit',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Configure Rate Limit',
+						description:
+							'Pace model calls with request and token budgets instead of a fixed delay. Batch Size becomes the maximum number of parallel requests and is lowered automatically after rate limit errors. All items share the budget of the first item.',
+						options: [
+							{
+								name: 'values',
+								displayName: 'Values',
+								values: [
+									{
+										displayName: 'Requests Per Minute',
+										name: 'requestsPerMinute',
+										type: 'number',
+										default: 0,
+										description: 'Maximum number of model calls per minute. Use 0 for no limit.',
+										typeOptions: {
+											minValue: 0,
+										},
+									},
+									{
+										displayName: 'Tokens Per Minute',
+										name: 'tokensPerMinute',
+										type: 'number',
+										default: 0,
+										description:
+											'Maximum number of prompt and completion tokens per minute. Each request is estimated before it is sent. Use 0 for no limit.',
+										typeOptions: {
+											minValue: 0,
+										},
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Retry On Failure',
+						name: 'retryPolicy',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Configure Retries',
+						description:
+							'Retry model calls that fail with a rate limit (429), server error (5xx) or network error using exponential backoff',
+						options: [
+							{
+								name: 'values',
+								displayName: 'Values',
+								values: [
+									{
+										displayName: 'Max Attempts',
+										name: 'maxAttempts',
+										type: 'number',
+										default: DEFAULT_RETRY_MAX_ATTEMPTS,
+										description: 'Total attempts per model call, including the first one',
+										typeOptions: {
+											minValue: 1,
+											maxValue: MAX_RETRY_ATTEMPTS,
+										},
+									},
+									{
+										displayName: 'Base Delay',
+										name: 'baseDelay',
+										type: 'number',
+										default: DEFAULT_RETRY_BASE_DELAY,
+										description:
+											'Delay in milliseconds before the first retry. It doubles on every further retry.',
+									},
+									{
+										displayName: 'Max Delay',
+										name: 'maxDelay',
+										type: 'number',
+										default: DEFAULT_RETRY_MAX_DELAY,
+										description:
+											'Upper bound in milliseconds for the backoff delay. A longer Retry-After header from the provider is still respected.',
+									},
+									{
+										displayName: 'Jitter',
+										name: 'jitter',
+										type: 'boolean',
+										default: true,
+										description:
+											'Whether to randomize the delays so parallel requests do not retry at the same time',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Model Pricing',
+						name: 'modelPricing',
+						type: 'fixedCollection',
+						default: {},
+						placeholder: 'Add Price',
+						description:
+							'Prices used to turn the token usage of each item into an estimated cost. The longest model name prefix matches first, use * to match any model.',
+						typeOptions: {
+							multipleValues: true,
+						},
+						options: [
+							{
+								name: 'prices',
+								displayName: 'Prices',
+								values: [
+									{
+										displayName: 'Model Name',
+										name: 'model',
+										type: 'string',
+										default: '*',
+										description: 'Model name or name prefix, for example gpt-4o',
+									},
+									{
+										displayName: 'Prompt Price per 1M Tokens',
+										name: 'promptPricePerMillion',
+										type: 'number',
+										default: 0,
+										typeOptions: {
+											minValue: 0,
+											numberPrecision: 4,
+										},
+									},
+									{
+										displayName: 'Completion Price per 1M Tokens',
+										name: 'completionPricePerMillion',
+										type: 'number',
+										default: 0,
+										typeOptions: {
+											minValue: 0,
+											numberPrecision: 4,
+										},
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Focus Question',
+						name: 'focusQuestion',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. What did the customer complain about?',
+						description:
+							'Question the summary should answer, available as {question} in the prompts. The built-in prompts then focus on it and let chunks that do not help to answer it drop out before the combine step.',
+					},
 					{
 						displayName: 'Summarization Method and Prompts',
 						name: 'summarizationMethodAndPrompts',
@@ -228,12 +982,36 @@ export class BatchedChainSummarization implements INodeType {
 										description: 'The type of summarization to run',
 										default: 'map_reduce',
 										options: [
+											{
+												name: 'Extractive',
+												value: 'extractive',
+												description:
+													'Pick the most central sentences locally with TextRank or TF-IDF, up to the output size. Free and deterministic, no model needed.',
+											},
+											{
+												name: 'Hierarchical',
+												value: 'hierarchical',
+												description:
+													'Summarize each chunk, then each section, page and file from the inside out using the document metadata, and keep the section summaries as an outline',
+											},
 											{
 												name: 'Map Reduce (Recommended)',
 												value: 'map_reduce',
 												description:
 													'Summarize each document (or chunk) individually, then summarize those summaries',
 											},
+											{
+												name: 'Map Rerank',
+												value: 'map_rerank',
+												description:
+													'Score each document (or chunk) for relevance and only summarize the best ones, configured under Chunk Preselection. Ideal for inputs full of boilerplate.',
+											},
+											{
+												name: 'Parallel Refine',
+												value: 'parallel_refine',
+												description:
+													'Split the documents (or chunks) into segments that are refined at the same time, then refine the segment summaries into each other in order. Faster than Refine for large inputs.',
+											},
 											{
 												name: 'Refine',
 												value: 'refine',
@@ -258,6 +1036,8 @@ export class BatchedChainSummarization implements INodeType {
 												'/options.summarizationMethodAndPrompts.values.summarizationMethod': [
 													'stuff',
 													'refine',
+													'parallel_refine',
+													'extractive',
 												],
 											},
 										},
@@ -277,6 +1057,8 @@ export class BatchedChainSummarization implements INodeType {
 												'/options.summarizationMethodAndPrompts.values.summarizationMethod': [
 													'stuff',
 													'refine',
+													'parallel_refine',
+													'extractive',
 												],
 											},
 										},
@@ -293,7 +1075,11 @@ export class BatchedChainSummarization implements INodeType {
 											hide: {
 												'/options.summarizationMethodAndPrompts.values.summarizationMethod': [
 													'refine',
+													'parallel_refine',
 													'map_reduce',
+													'hierarchical',
+													'map_rerank',
+													'extractive',
 												],
 											},
 										},
@@ -310,6 +1096,9 @@ export class BatchedChainSummarization implements INodeType {
 												'/options.summarizationMethodAndPrompts.values.summarizationMethod': [
 													'stuff',
 													'map_reduce',
+													'hierarchical',
+													'map_rerank',
+													'extractive',
 												],
 											},
 										},
@@ -328,6 +1117,9 @@ export class BatchedChainSummarization implements INodeType {
 												'/options.summarizationMethodAndPrompts.values.summarizationMethod': [
 													'stuff',
 													'map_reduce',
+													'hierarchical',
+													'map_rerank',
+													'extractive',
 												],
 											},
 										},
@@ -355,8 +1147,82 @@ export class BatchedChainSummarization implements INodeType {
 			| 'simple'
 			| 'advanced';
 
+		const itemHandling = this.getNodeParameter('itemHandling', 0, 'eachItem') as
+			| 'eachItem'
+			| 'aggregate'
+			| 'groupBy';
+
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		// One rate limiter paces the model calls of all items and groups
+		const resources: ExecutionResources = { rateLimiter: createRateLimiter(this) };
+
+		if (itemHandling === 'aggregate') {
+			// The single summary is linked to every item it was built from
+			const pairedItem = items.map((_, itemIndex) => ({ item: itemIndex }));
+			try {
+				const result = await processItems(
+					this,
+					items,
+					operationMode,
+					chunkingMode,
+					undefined,
+					resources,
+				);
+				if (result) {
+					returnData.push({ json: result, pairedItem });
+				}
+			} catch (error) {
+				if (!this.continueOnFail()) {
+					throw error;
+				}
+				returnData.push({ json: { error: error.message }, pairedItem });
+			}
+			return [returnData];
+		}
+
+		if (itemHandling === 'groupBy') {
+			const field = this.getNodeParameter('groupByField', 0) as string;
+			const concurrency = this.getNodeParameter(
+				'groupConcurrency',
+				0,
+				DEFAULT_GROUP_CONCURRENCY,
+			) as number;
+
+			const groupResults = await runWithConcurrency(
+				groupItemsByField(items, field),
+				concurrency,
+				async ({ key, itemIndices }, _, signal): Promise<INodeExecutionData | undefined> => {
+					// Each summary is linked to the items of its group
+					const pairedItem = itemIndices.map((item) => ({ item }));
+					try {
+						// The signal also fires when another group fails, which stops this one
+						const result = await processItems(
+							this,
+							items,
+							operationMode,
+							chunkingMode,
+							itemIndices,
+							{ ...resources, signal },
+						);
+						return result ? { json: { groupKey: key, ...result }, pairedItem } : undefined;
+					} catch (error) {
+						if (!this.continueOnFail()) {
+							throw error;
+						}
+						return { json: { groupKey: key, error: error.message }, pairedItem };
+					}
+				},
+				this.getExecutionCancelSignal(),
+			);
+
+			for (const result of groupResults) {
+				if (result) {
+					returnData.push(result);
+				}
+			}
+			return [returnData];
+		}
 
 		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
 			try {
@@ -366,6 +1232,7 @@ export class BatchedChainSummarization implements INodeType {
 					items[itemIndex],
 					operationMode,
 					chunkingMode,
+					resources,
 				);
 				if (result) {
 					returnData.push({ json: result });
@@ -2,12 +2,82 @@ import type { Document } from '@langchain/core/documents';
 import type { BaseLanguageModel } from '@langchain/core/language_models/base';
 import type { ChainValues } from '@langchain/core/utils/types';
 import { PromptTemplate, type BasePromptTemplate } from '@langchain/core/prompts';
-import { sleep } from 'n8n-workflow';
-import { encodingForModel } from 'js-tiktoken';
 import { AgentExecutor, createToolCallingAgent } from 'langchain/agents';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 
 import { TokenCounterTool, CharacterCounterTool, ResponseValidatorTool } from './countingTools';
+import { createRetryPolicy, isRateLimitError, withRetry, type RetryPolicy } from './retry';
+import { AdaptiveRateLimiter, type RateLimitSettings } from './rateLimiter';
+import {
+	raceWithSignal,
+	sleepWithSignal,
+	SummarizationCancelledError,
+	throwIfCancelled,
+} from './cancellation';
+import { runWithConcurrency } from './concurrency';
+import { ModelFallbackChain } from './modelFallback';
+import {
+	parseRelevanceScore,
+	scoreByTextRank,
+	scoreByTfIdf,
+	selectTopChunks,
+	type PreselectionSettings,
+} from './chunkScoring';
+import {
+	joinSentences,
+	rankSentences,
+	selectSentences,
+	type ExtractiveSettings,
+	type SentenceRanking,
+} from './extractiveSummary';
+import { isNotRelevantAnswer, withQuestion } from './focusQuestion';
+import {
+	FOCUSED_COMBINE_PROMPT_TEMPLATE,
+	FOCUSED_MAP_PROMPT_TEMPLATE,
+	FOCUSED_REFINE_PROMPT_TEMPLATE,
+	RELEVANCE_SCORE_PROMPT_TEMPLATE,
+} from './prompt';
+import { truncateAtBoundary } from './truncation';
+import {
+	AllChunksFailedError,
+	getCoverage,
+	getErrorMessage,
+	isSkippableChunkError,
+	type ChunkErrorPolicy,
+	type FailedChunk,
+} from './chunkFailures';
+import { createCacheKey, type CacheStats, type SummaryCache } from './cache';
+import {
+	createCheckpointKey,
+	createSettingsHash,
+	type CheckpointStore,
+	type RefineCheckpoint,
+} from './checkpoint';
+import { ModelTokenizer, type TokenizerEncoding } from './tokenizer';
+import {
+	buildOutline,
+	getGroupsBottomUp,
+	getPresentKeys,
+	groupDocumentsByMetadata,
+	type DocumentGroup,
+} from './hierarchy';
+import {
+	createStructuredOutputPrompt,
+	createStructuredOutputRepairPrompt,
+	parseStructuredOutput,
+	StructuredOutputError,
+	type JsonSchema,
+	type StructuredOutputValidation,
+} from './structuredOutput';
+import {
+	addTokenUsage,
+	createEmptyTokenUsage,
+	estimateCost,
+	getModelName,
+	getReportedUsage,
+	type ModelPricing,
+	type TokenUsage,
+} from './tokenUsage';
 
 import {
 	DEFAULT_BATCH_SIZE,
@@ -16,19 +86,118 @@ import {
 	MIN_DELAY,
 	MAX_BATCH_SIZE,
 	MAX_DELAY,
+	DEFAULT_TOKEN_MAX,
+	MIN_TOKEN_MAX,
+	DEFAULT_SCHEDULING_MODE,
+	DEFAULT_HIERARCHY_KEYS,
+	DEFAULT_SIZE_ENFORCEMENT,
+	DEFAULT_CHUNK_ERROR_POLICY,
+	DEFAULT_REFINE_SEGMENTS,
+	MIN_REFINE_SEGMENTS,
+	DEFAULT_FALLBACK_AFTER_FAILURES,
+	MIN_FALLBACK_AFTER_FAILURES,
+	DEFAULT_PRESELECTION_TOP_K,
+	DEFAULT_EXTRACTIVE_SENTENCES,
+	STRUCTURED_OUTPUT_MAX_ATTEMPTS,
 } from './constants';
 
-export type SummarizationType = 'map_reduce' | 'stuff' | 'refine';
+export type SummarizationType =
+	| 'map_reduce'
+	| 'stuff'
+	| 'refine'
+	| 'parallel_refine'
+	| 'hierarchical'
+	| 'map_rerank'
+	| 'extractive';
 export type SizeMeasurement = 'characters' | 'tokens';
+export type SchedulingMode = 'batch' | 'pool';
+// How outputSize is enforced: not at all, by prompt instructions only, by retrying with
+// stricter prompts, by an agent with counting tools (retry as backup) or by cutting the text
+export type SizeEnforcementStrategy = 'none' | 'prompt' | 'retry' | 'agent' | 'truncate';
+export type IntermediateStepType =
+	| 'map'
+	| 'collapse'
+	| 'section'
+	| 'initial'
+	| 'refine'
+	| 'merge'
+	| 'score';
+
+// Models of a chain with a combine model: 'map' runs map and refine steps, 'combine' the
+// final combine, collapse, merge and size retry steps
+export type ModelRole = 'map' | 'combine';
+
+export interface ModelUsage {
+	role: ModelRole;
+	model: string;
+	tokenUsage: TokenUsage;
+	estimatedCost?: number;
+}
+
+export interface ChunkModel {
+	chunkIndex: number;
+	step: 'map' | 'initial' | 'refine';
+	model: string;
+}
 
-interface BatchedSummarizationChainParams {
-	model: BaseLanguageModel;
+export interface SizeValidation {
+	isValid: boolean;
+	actualSize: number;
+	maxSize?: number;
+	unit: string;
+	tokenizer?: string;
+	warning?: string;
+}
+
+/**
+ * Size validation of the final summary together with how the size was enforced.
+ */
+export interface EnforcedSizeValidation extends SizeValidation {
+	retryCount: number;
+	truncated: boolean;
+	strategy: SizeEnforcementStrategy; // Configured strategy
+	appliedStrategy: SizeEnforcementStrategy; // Strategy that produced the text
+}
+
+export interface IntermediateStep {
+	step: IntermediateStepType;
+	chunkIndex: number;
+	metadata: Record<string, unknown>;
+	prompt: string;
+	text: string;
+}
+
+export interface BatchedSummarizationChainParams {
+	model?: BaseLanguageModel; // Only the extractive type runs without a model
+	combineModel?: BaseLanguageModel; // Runs the combine steps instead of model when set
+	fallbackModels?: BaseLanguageModel[]; // Take over in this order when a model keeps failing
+	fallbackAfterFailures?: number; // Failed calls in a row before the next model takes over
 	type: SummarizationType;
 	batchSize?: number;
 	delayBetweenBatches?: number;
+	schedulingMode?: SchedulingMode; // 'pool' keeps batchSize requests in flight without lock-step batches
 	outputSize?: number;
 	sizeMeasurement?: SizeMeasurement;
-	useAgent?: boolean; // NEW: Optional flag to use agent with counting tools
+	tokenMax?: number; // Max tokens of joined summaries before map_reduce collapses them
+	hierarchyKeys?: string[]; // Metadata keys that nest chunks for the hierarchical type
+	sizeEnforcement?: SizeEnforcementStrategy;
+	useAgent?: boolean; // Deprecated: same as sizeEnforcement 'agent'
+	outputSchema?: JsonSchema; // Final step answers with JSON matching this schema
+	returnIntermediateSteps?: boolean;
+	pricing?: ModelPricing[]; // Optional price table used to estimate the cost of the token usage
+	retryPolicy?: Partial<RetryPolicy>; // Backoff for rate limits and transient provider errors
+	rateLimit?: RateLimitSettings; // Replaces the fixed delayBetweenBatches pacing when set
+	rateLimiter?: AdaptiveRateLimiter; // Limiter shared with other chains, used instead of rateLimit
+	cache?: SummaryCache; // Reuses map and refine summaries of unchanged chunks
+	tokenizer?: TokenizerEncoding; // Overrides the encoding picked from the model name
+	chunkErrorPolicy?: ChunkErrorPolicy; // 'skip' keeps summarizing when single chunks fail
+	checkpointStore?: CheckpointStore; // Saves refine progress after every step to resume from
+	refineSegments?: number; // Segments refined at the same time by parallel_refine
+	existingSummary?: string; // Summary of earlier documents that the new documents update
+	preselection?: PreselectionSettings; // How map_rerank scores and picks the chunks it summarizes
+	scorePrompt?: BasePromptTemplate; // Scores a chunk from 0 to 10 for the 'llm' scoring
+	extractive?: ExtractiveSettings; // Sentence ranking of the extractive type and fallback
+	question?: string; // Focus question, the {question} variable of every prompt
 	combineMapPrompt?: BasePromptTemplate;
 	combinePrompt?: BasePromptTemplate;
 	prompt?: BasePromptTemplate;
@@ -37,14 +206,78 @@ interface BatchedSummarizationChainParams {
 	verbose?: boolean;
 }
 
+function getTemplateText(promptTemplate: BasePromptTemplate): string | undefined {
+	const template = (promptTemplate as { template?: unknown }).template;
+	return typeof template === 'string' ? template : undefined;
+}
+
+/**
+ * Splits count documents into at most segmentCount contiguous ranges of nearly equal size.
+ */
+function splitIntoSegments(
+	count: number,
+	segmentCount: number,
+): Array<{ start: number; end: number }> {
+	const segments = Math.min(segmentCount, count);
+	const baseSize = Math.floor(count / segments);
+	const remainder = count % segments;
+
+	const ranges: Array<{ start: number; end: number }> = [];
+	let start = 0;
+	for (let index = 0; index < segments; index++) {
+		// The first segments take one more document each until the remainder is used up
+		const end = start + baseSize + (index < remainder ? 1 : 0);
+		ranges.push({ start, end });
+		start = end;
+	}
+	return ranges;
+}
+
+function isSummarized(summary: string | undefined): summary is string {
+	return summary !== undefined;
+}
+
 export class BatchedSummarizationChain {
-	private model: BaseLanguageModel;
+	private model?: BaseLanguageModel;
+	private modelChains: Record<ModelRole, ModelFallbackChain>;
+	private chunkModels: ChunkModel[] = [];
+	private textModels = new Map<string, string>(); // Model that wrote each answer, by its text
 	private type: SummarizationType;
 	private batchSize: number;
 	private delayBetweenBatches: number;
+	private schedulingMode: SchedulingMode;
 	private outputSize?: number;
 	private sizeMeasurement: SizeMeasurement;
-	private useAgent: boolean;
+	private tokenizer: ModelTokenizer;
+	private sizeTokenizer: ModelTokenizer; // Measures the final text against outputSize
+	private tokenMax: number;
+	private hierarchyKeys: string[];
+	private sizeEnforcement: SizeEnforcementStrategy;
+	private outputSchema?: JsonSchema;
+	private returnIntermediateSteps: boolean;
+	private intermediateSteps: IntermediateStep[] = [];
+	private pricing: ModelPricing[];
+	private tokenUsage: TokenUsage = createEmptyTokenUsage();
+	private modelUsage: ModelUsage[] = [];
+	private retryPolicy: RetryPolicy;
+	private rateLimiter?: AdaptiveRateLimiter;
+	private signal?: AbortSignal;
+	private runController = new AbortController();
+	private cache?: SummaryCache;
+	private cacheStats: CacheStats = { hits: 0, misses: 0 };
+	private chunkErrorPolicy: ChunkErrorPolicy;
+	private chunkCount = 0;
+	private failedChunks: FailedChunk[] = [];
+	private checkpointStore?: CheckpointStore;
+	private refineSegments: number;
+	private refineCheckpoint?: { key: string; settingsHash: string };
+	private existingSummary?: string;
+	private preselection: Required<PreselectionSettings>;
+	private scorePrompt?: BasePromptTemplate;
+	private sentenceRanking: SentenceRanking;
+	private extractiveFallback: boolean;
+	private question?: string;
+	private irrelevantChunks: number[] = [];
 	private combineMapPrompt?: BasePromptTemplate;
 	private combinePrompt?: BasePromptTemplate;
 	private prompt?: BasePromptTemplate;
@@ -52,7 +285,26 @@ export class BatchedSummarizationChain {
 	private questionPrompt?: BasePromptTemplate;
 
 	constructor(params: BatchedSummarizationChainParams) {
+		if (!params.model && params.type !== 'extractive') {
+			throw new Error(`The ${params.type} summarization type needs a model`);
+		}
 		this.model = params.model;
+		const fallbackModels = params.fallbackModels ?? [];
+		const fallbackAfterFailures = Math.max(
+			MIN_FALLBACK_AFTER_FAILURES,
+			Math.floor(params.fallbackAfterFailures ?? DEFAULT_FALLBACK_AFTER_FAILURES),
+		);
+		const mapModels = new ModelFallbackChain(
+			this.model ? [this.model, ...fallbackModels] : fallbackModels,
+			fallbackAfterFailures,
+		);
+		// Without a combine model both roles share the models and move on together
+		this.modelChains = {
+			map: mapModels,
+			combine: params.combineModel
+				? new ModelFallbackChain([params.combineModel, ...fallbackModels], fallbackAfterFailures)
+				: mapModels,
+		};
 		this.type = params.type;
 
 		// Validate and set batchSize with proper bounds
@@ -62,11 +314,53 @@ export class BatchedSummarizationChain {
 		// Validate and set delayBetweenBatches with proper bounds
 		const rawDelay = params.delayBetweenBatches ?? DEFAULT_DELAY_BETWEEN_BATCHES;
 		this.delayBetweenBatches = Math.max(MIN_DELAY, Math.min(MAX_DELAY, Math.floor(rawDelay)));
+		this.schedulingMode = params.schedulingMode ?? DEFAULT_SCHEDULING_MODE;
 
 		// Set output size and measurement type
 		this.outputSize = params.outputSize;
 		this.sizeMeasurement = params.sizeMeasurement ?? 'characters';
-		this.useAgent = params.useAgent ?? false;
+		this.tokenizer = new ModelTokenizer(this.model, params.tokenizer);
+		// The combine model writes the final text or its size retries when one is connected
+		this.sizeTokenizer = params.combineModel
+			? new ModelTokenizer(params.combineModel, params.tokenizer)
+			: this.tokenizer;
+		this.sizeEnforcement =
+			params.sizeEnforcement ?? (params.useAgent ? 'agent' : DEFAULT_SIZE_ENFORCEMENT);
+		this.outputSchema = params.outputSchema;
+		this.returnIntermediateSteps = params.returnIntermediateSteps ?? false;
+		this.pricing = params.pricing ?? [];
+		this.retryPolicy = createRetryPolicy(params.retryPolicy);
+		this.cache = params.cache;
+		this.chunkErrorPolicy = params.chunkErrorPolicy ?? DEFAULT_CHUNK_ERROR_POLICY;
+		this.checkpointStore = params.checkpointStore;
+		this.refineSegments = Math.max(
+			MIN_REFINE_SEGMENTS,
+			Math.floor(params.refineSegments ?? DEFAULT_REFINE_SEGMENTS),
+		);
+		// A blank summary, e.g. from the first run of a digest, means there is nothing to update
+		this.existingSummary = params.existingSummary?.trim() ? params.existingSummary : undefined;
+		this.preselection = {
+			scoring: params.preselection?.scoring ?? 'llm',
+			topK: Math.max(0, Math.floor(params.preselection?.topK ?? DEFAULT_PRESELECTION_TOP_K)),
+			tokenBudget: Math.max(0, Math.floor(params.preselection?.tokenBudget ?? 0)),
+			summarizeWith: params.preselection?.summarizeWith ?? 'map_reduce',
+		};
+		this.scorePrompt = params.scorePrompt;
+		this.sentenceRanking = params.extractive?.ranking ?? 'textrank';
+		this.extractiveFallback = params.extractive?.fallback ?? false;
+		this.question = params.question?.trim() || undefined;
+
+		// The limiter starts at batchSize requests in flight and adapts from there
+		if (params.rateLimiter) {
+			this.rateLimiter = params.rateLimiter;
+		} else if (AdaptiveRateLimiter.isEnabled(params.rateLimit)) {
+			this.rateLimiter = new AdaptiveRateLimiter(params.rateLimit!, this.batchSize);
+		}
+
+		// Validate and set tokenMax for the map_reduce collapse step
+		const rawTokenMax = params.tokenMax ?? DEFAULT_TOKEN_MAX;
+		this.tokenMax = Math.max(MIN_TOKEN_MAX, Math.floor(rawTokenMax));
+		this.hierarchyKeys = params.hierarchyKeys?.length ? params.hierarchyKeys : DEFAULT_HIERARCHY_KEYS;
 
 		this.combineMapPrompt = params.combineMapPrompt;
 		this.combinePrompt = params.combinePrompt;
@@ -75,23 +369,19 @@ export class BatchedSummarizationChain {
 		this.questionPrompt = params.questionPrompt;
 	}
 
-	private measureTextSize(text: string): number {
+	private async measureTextSize(text: string): Promise<number> {
 		if (this.sizeMeasurement === 'tokens') {
-			try {
-				// Use gpt-3.5-turbo encoding as default
-				const encoding = encodingForModel('gpt-3.5-turbo');
-				const tokens = encoding.encode(text);
-				// Note: js-tiktoken doesn't require manual cleanup
-				return tokens.length;
-			} catch {
-				// Fallback to approximate token count if tiktoken fails
-				return Math.ceil(text.length / 4);
-			}
+			// Size limits are checked with the model's own tokenizer when it has one
+			return await this.sizeTokenizer.countTokens(text);
 		} else {
 			return text.length;
 		}
 	}
 
+	private countTokens(text: string): number {
+		return this.tokenizer.countTokensSync(text);
+	}
+
 	private async createSizeConstrainedAgentExecutor(): Promise<AgentExecutor | null> {
 		if (!this.outputSize) {
 			return null;
@@ -101,8 +391,10 @@ export class BatchedSummarizationChain {
 
 		// Create tools that the agent can use
 		const tools = [
-			this.sizeMeasurement === 'tokens' ? new TokenCounterTool() : new CharacterCounterTool(),
-			new ResponseValidatorTool(this.outputSize, this.sizeMeasurement)
+			this.sizeMeasurement === 'tokens'
+				? new TokenCounterTool(this.sizeTokenizer)
+				: new CharacterCounterTool(),
+			new ResponseValidatorTool(this.outputSize, this.sizeMeasurement, this.sizeTokenizer)
 		];
 
 		// Create agent prompt with tool instructions
@@ -129,7 +421,7 @@ Remember: Use your tools to verify size compliance!`],
 
 		// Create the agent
 		const agent = await createToolCallingAgent({
-			llm: this.model,
+			llm: this.getModel('combine'),
 			tools,
 			prompt: agentPrompt
 		});
@@ -143,7 +435,7 @@ Remember: Use your tools to verify size compliance!`],
 	}
 
 	private createSizeConstrainedPrompt(baseTemplate: string): string {
-		if (!this.outputSize) {
+		if (!this.outputSize || this.sizeEnforcement === 'none') {
 			return baseTemplate;
 		}
 
@@ -182,15 +474,14 @@ STRICT REMINDER: Keep your response ≤ ${this.outputSize} ${sizeUnit}. Exceedin
 	}
 
 	private async invokeSummarizationWithAgent(inputText: string, taskDescription: string): Promise<string> {
-		if (!this.outputSize || !this.useAgent) {
+		if (!this.outputSize || this.sizeEnforcement !== 'agent') {
 			// Fallback to regular model invocation
 			const prompt = new PromptTemplate({
 				template: `${taskDescription}\n\n{text}`,
 				inputVariables: ['text'],
 			});
 			const formattedPrompt = await prompt.format({ text: inputText });
-			const result = await this.model.invoke(formattedPrompt);
-			return typeof result === 'string' ? result : result.content;
+			return await this.invokeModel(formattedPrompt, 'combine');
 		}
 
 		// Use agent with counting tools
@@ -203,32 +494,53 @@ STRICT REMINDER: Keep your response ≤ ${this.outputSize} ${sizeUnit}. Exceedin
 				inputVariables: ['text'],
 			});
 			const promptText = await formattedPrompt.format({ text: inputText });
-			const result = await this.model.invoke(promptText);
-			return typeof result === 'string' ? result : result.content;
+			return await this.invokeModel(promptText, 'combine');
 		}
 
 		// Execute with agent
 		const agentInput = `${taskDescription}\n\nText to summarize:\n${inputText}`;
-		const agentResult = await agentExecutor.invoke({ input: agentInput });
-		return agentResult.output || '';
+		const agentResult = await withRetry(
+			async () =>
+				await this.runRateLimited(
+					this.estimateRequestTokens(agentInput),
+					async () =>
+						await raceWithSignal(
+							agentExecutor.invoke({ input: agentInput }, { signal: this.signal }),
+							this.signal,
+						),
+				),
+			this.retryPolicy,
+			{ signal: this.signal },
+		);
+		const agentOutput: string = agentResult.output || '';
+
+		// The executor does not expose provider usage, so its calls are estimated
+		const model = getModelName(this.getModel('combine'));
+		this.recordTextModel(agentOutput, model);
+		this.addTokenUsage(
+			'combine',
+			model,
+			this.countTokens(agentInput),
+			this.countTokens(agentOutput),
+			true,
+		);
+		return agentOutput;
 	}
 
-	private validateOutputSize(text: string): {
-		isValid: boolean;
-		actualSize: number;
-		maxSize?: number;
-		unit: string;
-		warning?: string;
-	} {
+	private async validateOutputSize(text: string): Promise<SizeValidation> {
+		// Name the tokenizer so token counts can be compared with the provider's
+		const tokenizer = this.sizeMeasurement === 'tokens' ? this.sizeTokenizer.name : undefined;
+
 		if (!this.outputSize) {
 			return {
 				isValid: true,
-				actualSize: this.measureTextSize(text),
-				unit: this.sizeMeasurement
+				actualSize: await this.measureTextSize(text),
+				unit: this.sizeMeasurement,
+				...(tokenizer && { tokenizer }),
 			};
 		}
 
-		const actualSize = this.measureTextSize(text);
+		const actualSize = await this.measureTextSize(text);
 		const isValid = actualSize <= this.outputSize;
 		const unit = this.sizeMeasurement;
 
@@ -237,6 +549,7 @@ STRICT REMINDER: Keep your response ≤ ${this.outputSize} ${sizeUnit}. Exceedin
 			actualSize,
 			maxSize: this.outputSize,
 			unit,
+			...(tokenizer && { tokenizer }),
 		};
 
 		if (!isValid) {
@@ -314,11 +627,10 @@ KEYWORDS ONLY (≤${this.outputSize} ${sizeUnit}):`
 		});
 
 		const formattedPrompt = await retryPrompt.format({ text });
-		const result = await this.model.invoke(formattedPrompt);
-		const resultText = typeof result === 'string' ? result : result.content;
+		const resultText = await this.invokeModel(formattedPrompt, 'combine');
 
 		// Check if this attempt fits the size limit
-		const validation = this.validateOutputSize(resultText);
+		const validation = await this.validateOutputSize(resultText);
 
 		if (validation.isValid || attempt >= maxAttempts) {
 			return resultText;
@@ -328,9 +640,483 @@ KEYWORDS ONLY (≤${this.outputSize} ${sizeUnit}):`
 		return this.retryWithShorterPrompt(text, promptTemplate, attempt + 1);
 	}
 
+	/**
+	 * Strategy behind a plain model answer: the size instructions in the prompt, if any.
+	 */
+	private getPromptStrategy(): SizeEnforcementStrategy {
+		return this.outputSize && this.sizeEnforcement !== 'none' ? 'prompt' : 'none';
+	}
+
+	/**
+	 * Checks the final text against outputSize and applies the configured strategy when it does
+	 * not fit. Retries that still miss the limit end with a truncation, so every strategy except
+	 * 'none' and 'prompt' guarantees the size. The result reports the configured strategy and
+	 * the one that produced the text.
+	 */
+	private async enforceOutputSize(
+		outputText: string,
+		sourceText: string,
+		promptTemplate: BasePromptTemplate,
+		producedBy: SizeEnforcementStrategy,
+	): Promise<{ text: string; sizeValidation: EnforcedSizeValidation }> {
+		let text = outputText;
+		let sizeValidation = await this.validateOutputSize(text);
+		let retryCount = 0;
+		let truncated = false;
+		let appliedStrategy = producedBy;
+
+		if (!sizeValidation.isValid && this.outputSize) {
+			if (this.sizeEnforcement === 'retry' || this.sizeEnforcement === 'agent') {
+				text = await this.retryWithShorterPrompt(sourceText, promptTemplate);
+				retryCount = 1;
+				appliedStrategy = 'retry';
+				sizeValidation = await this.validateOutputSize(text);
+			}
+
+			// Guaranteed fit for the strategies that enforce the limit
+			if (
+				!sizeValidation.isValid &&
+				this.sizeEnforcement !== 'prompt' &&
+				this.sizeEnforcement !== 'none'
+			) {
+				const fullText = text;
+				text = await this.truncateToOutputSize(fullText);
+				this.recordTextModel(text, this.textModels.get(fullText));
+				truncated = true;
+				appliedStrategy = 'truncate';
+				sizeValidation = await this.validateOutputSize(text);
+			}
+		}
+
+		return {
+			text,
+			sizeValidation: this.describeSizeEnforcement(
+				sizeValidation,
+				appliedStrategy,
+				retryCount,
+				truncated,
+			),
+		};
+	}
+
+	private describeSizeEnforcement(
+		sizeValidation: SizeValidation,
+		appliedStrategy: SizeEnforcementStrategy,
+		retryCount = 0,
+		truncated = false,
+	): EnforcedSizeValidation {
+		return {
+			...sizeValidation,
+			retryCount,
+			truncated,
+			strategy: this.sizeEnforcement,
+			appliedStrategy,
+		};
+	}
+
+	/**
+	 * Trims the text to outputSize at the last sentence or bullet boundary that fits, measured
+	 * the same way as the size validation.
+	 */
+	private async truncateToOutputSize(text: string): Promise<string> {
+		return await truncateAtBoundary(
+			text,
+			this.outputSize!,
+			async (candidate) => await this.measureTextSize(candidate),
+			(candidate, maxSize) =>
+				this.sizeMeasurement === 'tokens'
+					? this.sizeTokenizer.truncate(candidate, maxSize)
+					: candidate.slice(0, maxSize),
+		);
+	}
+
 	async invoke(input: { input_documents: Document[] }, config?: any): Promise<ChainValues> {
 		const { input_documents: documents } = input;
+		throwIfCancelled(config?.signal);
+		// Follows the caller's signal and also fires when the run fails, which stops the calls
+		// still waiting for a slot or the rate limiter
+		this.runController = new AbortController();
+		const cancelRun = () => this.runController.abort();
+		config?.signal?.addEventListener('abort', cancelRun, { once: true });
+		this.signal = this.runController.signal;
+		this.intermediateSteps = [];
+		this.tokenUsage = createEmptyTokenUsage();
+		this.modelUsage = this.createModelUsage();
+		this.cacheStats = { hits: 0, misses: 0 };
+		this.chunkCount = documents.length;
+		this.failedChunks = [];
+		this.irrelevantChunks = [];
+		this.chunkModels = [];
+		this.textModels = new Map();
+
+		let result: ChainValues;
+		try {
+			result = await this.summarizeWithFallback(documents);
+		} finally {
+			config?.signal?.removeEventListener('abort', cancelRun);
+		}
+
+		if (this.returnIntermediateSteps) {
+			result.output.intermediateSteps = this.intermediateSteps;
+		}
+
+		result.output.tokenUsage = this.tokenUsage;
+		if (this.rateLimiter) {
+			result.output.rateLimit = this.rateLimiter.getStats();
+		}
+		if (this.cache) {
+			result.output.cache = this.cacheStats;
+		}
+		if (this.chunkErrorPolicy === 'skip') {
+			result.output.partial = this.failedChunks.length > 0;
+			result.output.coverage = getCoverage(this.chunkCount, this.failedChunks.length);
+			// Pool mode records failures as they happen, report them in document order
+			result.output.failedChunks = [...this.failedChunks].sort(
+				(a, b) => a.chunkIndex - b.chunkIndex,
+			);
+		}
+		if (this.question) {
+			result.output.focus = {
+				question: this.question,
+				// Pool mode records chunks as they finish, report them in order
+				irrelevantChunks: [...this.irrelevantChunks].sort((a, b) => a - b),
+			};
+		}
+		if (this.modelChains.map.hasFallbacks()) {
+			result.output.modelFallback = {
+				// Pool mode and parallel refine record chunks as they finish, report them in order
+				chunkModels: [...this.chunkModels].sort((a, b) => a.chunkIndex - b.chunkIndex),
+				// The final text may be an earlier answer, e.g. when the last chunk was not relevant
+				finalModel: this.textModels.get(result.output.text),
+				switches: this.getModelChains().flatMap((modelChain) => modelChain.switches),
+			};
+		}
+		const estimatedCost = this.addModelUsage(result);
+		if (estimatedCost !== undefined) {
+			result.output.estimatedCost = estimatedCost;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Starts the usage of the first model of each role, so a model that is not called is still
+	 * reported. Fallback models are added once they answer.
+	 */
+	private createModelUsage(): ModelUsage[] {
+		if (!this.model) {
+			return [];
+		}
+		const roles: ModelRole[] = this.hasCombineModel() ? ['map', 'combine'] : ['map'];
+		return roles.map((role) => ({
+			role,
+			model: getModelName(this.getModel(role)),
+			tokenUsage: createEmptyTokenUsage(),
+		}));
+	}
+
+	/**
+	 * Prices the token usage of every model that was called with its own entry, so fallback
+	 * switches and the combine model are paid at their rates. The usage per model is reported
+	 * when more than one model ran. Returns the summed cost, or undefined when no model has a
+	 * price.
+	 */
+	private addModelUsage(result: ChainValues): number | undefined {
+		const modelUsage: ModelUsage[] = this.modelUsage.map((usage) => {
+			const estimatedCost = estimateCost(usage.tokenUsage, usage.model, this.pricing);
+			return { ...usage, ...(estimatedCost !== undefined && { estimatedCost }) };
+		});
+		if (this.hasCombineModel() || modelUsage.length > 1) {
+			result.output.modelUsage = modelUsage;
+		}
+
+		const costs = modelUsage
+			.map((usage) => usage.estimatedCost)
+			.filter((cost): cost is number => cost !== undefined);
+		return costs.length > 0
+			? Math.round(costs.reduce((sum, cost) => sum + cost, 0) * 1e8) / 1e8
+			: undefined;
+	}
+
+	private getModel(role: ModelRole): BaseLanguageModel {
+		return this.modelChains[role].active.model;
+	}
+
+	private getModelChains(): ModelFallbackChain[] {
+		return this.hasCombineModel()
+			? [this.modelChains.map, this.modelChains.combine]
+			: [this.modelChains.map];
+	}
+
+	private hasCombineModel(): boolean {
+		return this.modelChains.combine !== this.modelChains.map;
+	}
+
+	private recordChunkModel(chunkModel: ChunkModel): void {
+		if (this.modelChains.map.hasFallbacks()) {
+			this.chunkModels.push(chunkModel);
+		}
+	}
 
+	private addTokenUsage(
+		role: ModelRole,
+		model: string,
+		promptTokens: number,
+		completionTokens: number,
+		estimated: boolean,
+	): void {
+		addTokenUsage(this.tokenUsage, promptTokens, completionTokens, estimated);
+
+		// Without a combine model both roles share the models and count as 'map'
+		const usageRole = this.hasCombineModel() ? role : 'map';
+		let usage = this.modelUsage.find(
+			(entry) => entry.role === usageRole && entry.model === model,
+		);
+		if (!usage) {
+			usage = { role: usageRole, model, tokenUsage: createEmptyTokenUsage() };
+			this.modelUsage.push(usage);
+		}
+		addTokenUsage(usage.tokenUsage, promptTokens, completionTokens, estimated);
+	}
+
+	/**
+	 * Remembers the model that wrote a text, so the model of the final text can be reported
+	 * whichever answer ends up as the output.
+	 */
+	private recordTextModel(text: string, model: string | undefined): void {
+		if (model !== undefined && this.modelChains.map.hasFallbacks()) {
+			this.textModels.set(text, model);
+		}
+	}
+
+	private async invokeModel(prompt: string, role: ModelRole = 'map'): Promise<string> {
+		return (await this.invokeActiveModel(prompt, role)).text;
+	}
+
+	/**
+	 * Single entry point for model calls so retries, fallbacks and token usage apply to every
+	 * request. A call that keeps failing is repeated with the next model of the role, and the
+	 * answer comes with the name of the model that gave it.
+	 */
+	private async invokeActiveModel(
+		prompt: string,
+		role: ModelRole,
+	): Promise<{ text: string; model: string }> {
+		const modelChain = this.modelChains[role];
+		for (;;) {
+			const { model, index } = modelChain.active;
+			try {
+				const text = await this.invokeModelOnce(model, prompt, role);
+				modelChain.onSuccess(index);
+				const modelName = getModelName(model);
+				this.recordTextModel(text, modelName);
+				return { text, model: modelName };
+			} catch (error) {
+				if (!modelChain.onFailure(index, error)) {
+					throw error;
+				}
+			}
+		}
+	}
+
+	private async invokeModelOnce(
+		model: BaseLanguageModel,
+		prompt: string,
+		role: ModelRole,
+	): Promise<string> {
+		const estimatedTokens = this.estimateRequestTokens(prompt);
+		const result = await withRetry(
+			async () =>
+				await this.runRateLimited(
+					estimatedTokens,
+					// Race the call too, in case the provider integration ignores the signal
+					async () =>
+						await raceWithSignal(model.invoke(prompt, { signal: this.signal }), this.signal),
+				),
+			this.retryPolicy,
+			{ signal: this.signal },
+		);
+		const text: string = typeof result === 'string' ? result : result.content;
+
+		const reported = getReportedUsage(result);
+		const promptTokens = reported?.promptTokens ?? this.countTokens(prompt);
+		const completionTokens = reported?.completionTokens ?? this.countTokens(text);
+		this.addTokenUsage(role, getModelName(model), promptTokens, completionTokens, !reported);
+		this.rateLimiter?.recordUsage(estimatedTokens, promptTokens + completionTokens);
+
+		return text;
+	}
+
+	/**
+	 * Asks for the final answer as JSON matching outputSchema. Answers that do not parse or
+	 * validate are sent back to the model with the errors until the attempts run out.
+	 */
+	private async invokeStructured(
+		prompt: string,
+	): Promise<{ text: string; data: unknown; validation: StructuredOutputValidation }> {
+		const schema = this.outputSchema!;
+		let response = await this.invokeModel(createStructuredOutputPrompt(prompt, schema), 'combine');
+
+		for (let attempt = 1; ; attempt++) {
+			const parsed = parseStructuredOutput(response, schema);
+			if (parsed.errors.length === 0) {
+				const text = JSON.stringify(parsed.data);
+				this.recordTextModel(text, this.textModels.get(response));
+				return {
+					text,
+					data: parsed.data,
+					validation: { isValid: true, errors: [], attempts: attempt, repaired: parsed.repaired },
+				};
+			}
+
+			if (attempt >= STRUCTURED_OUTPUT_MAX_ATTEMPTS) {
+				throw new StructuredOutputError(parsed.errors);
+			}
+			response = await this.invokeModel(
+				createStructuredOutputRepairPrompt(response, parsed.errors, schema),
+				'combine',
+			);
+		}
+	}
+
+	/**
+	 * Builds the chain output of the structured mode. The size is reported but not enforced,
+	 * since shortening retries would return free text.
+	 */
+	private async createStructuredResult(
+		prompt: string,
+		output: Record<string, unknown> = {},
+	): Promise<ChainValues> {
+		const { text, data, validation } = await this.invokeStructured(prompt);
+		const sizeValidation = await this.validateOutputSize(text);
+
+		return {
+			output: {
+				text,
+				structured: data,
+				structuredValidation: validation,
+				sizeValidation: this.describeSizeEnforcement(sizeValidation, this.getPromptStrategy()),
+				...output,
+			},
+		};
+	}
+
+	/**
+	 * Formats the prompt and returns the cached summary for it, or calls the model and caches
+	 * the result. Cached summaries cost no tokens and are not counted in the token usage. The
+	 * cache only saves calls, so a lookup that fails counts as a miss and a failed write is
+	 * ignored.
+	 */
+	private async invokeModelCached(
+		promptTemplate: BasePromptTemplate,
+		variables: Record<string, string>,
+		role: ModelRole = 'map',
+	): Promise<{ prompt: string; text: string; model: string }> {
+		variables = withQuestion(variables, this.question);
+		const prompt = await promptTemplate.format(variables);
+		if (!this.cache) {
+			return { prompt, ...(await this.invokeActiveModel(prompt, role)) };
+		}
+
+		// Templates without a plain string fall back to the formatted prompt
+		const model = getModelName(this.getModel(role));
+		const key = createCacheKey(
+			model,
+			getTemplateText(promptTemplate) ?? prompt,
+			variables,
+		);
+
+		const cached = await this.cache.get(key).catch(() => undefined);
+		if (cached !== undefined) {
+			this.cacheStats.hits++;
+			this.recordTextModel(cached, model);
+			return { prompt, text: cached, model };
+		}
+
+		this.cacheStats.misses++;
+		const answer = await this.invokeActiveModel(prompt, role);
+		// Kept under the requested model, so the next run finds it even when a fallback answered
+		await this.cache.set(key, answer.text).catch(() => undefined);
+		return { prompt, ...answer };
+	}
+
+	/**
+	 * Runs a single request attempt inside the rate limiter, if one is configured.
+	 */
+	private async runRateLimited<T>(estimatedTokens: number, request: () => Promise<T>): Promise<T> {
+		if (!this.rateLimiter) {
+			return await request();
+		}
+
+		await this.rateLimiter.acquire(estimatedTokens, this.signal);
+		try {
+			const result = await request();
+			this.rateLimiter.onSuccess();
+			return result;
+		} catch (error) {
+			if (isRateLimitError(error)) {
+				this.rateLimiter.onRateLimited();
+			}
+			throw error;
+		} finally {
+			this.rateLimiter.release();
+		}
+	}
+
+	private estimateRequestTokens(prompt: string): number {
+		// The completion is bounded by outputSize when set, assume ~4 characters per token
+		const expectedCompletion = this.outputSize
+			? this.sizeMeasurement === 'tokens'
+				? this.outputSize
+				: Math.ceil(this.outputSize / 4)
+			: 0;
+		return this.countTokens(prompt) + expectedCompletion;
+	}
+
+	/**
+	 * Fixed pauses between batches are only used when no rate limiter paces the requests.
+	 */
+	private async pauseBetweenBatches(): Promise<void> {
+		if (!this.rateLimiter && this.delayBetweenBatches > 0) {
+			await sleepWithSignal(this.delayBetweenBatches, this.signal);
+		}
+	}
+
+	private recordIntermediateStep(step: IntermediateStep): void {
+		// Steps are only kept when requested to avoid holding every prompt in memory
+		if (this.returnIntermediateSteps) {
+			this.intermediateSteps.push(step);
+		}
+	}
+
+	/**
+	 * Runs the configured type, or the update of the existing summary. With the extractive
+	 * fallback a failed run answers with an extractive summary instead, reporting the error.
+	 */
+	private async summarizeWithFallback(documents: Document[]): Promise<ChainValues> {
+		try {
+			// Extractive summaries are always built from scratch, they have no refine step
+			return this.existingSummary && this.type !== 'extractive'
+				? await this.updateSummary(documents, this.existingSummary)
+				: await this.summarize(documents);
+		} catch (error) {
+			if (
+				!this.extractiveFallback ||
+				this.type === 'extractive' ||
+				error instanceof SummarizationCancelledError
+			) {
+				throw error;
+			}
+			// Chunks of the failed run are no longer missing from the summary
+			this.chunkCount = documents.length;
+			this.failedChunks = [];
+			const result = await this.extractive(documents);
+			result.output.extractiveFallback = { error: getErrorMessage(error) };
+			return result;
+		}
+	}
+
+	private async summarize(documents: Document[]): Promise<ChainValues> {
 		switch (this.type) {
 			case 'map_reduce':
 				return await this.mapReduce(documents);
@@ -338,214 +1124,896 @@ KEYWORDS ONLY (≤${this.outputSize} ${sizeUnit}):`
 				return await this.stuff(documents);
 			case 'refine':
 				return await this.refine(documents);
+			case 'parallel_refine':
+				return await this.parallelRefine(documents);
+			case 'hierarchical':
+				return await this.hierarchical(documents);
+			case 'map_rerank':
+				return await this.mapRerank(documents);
+			case 'extractive':
+				return await this.extractive(documents);
 			default:
 				throw new Error(`Unknown summarization type: ${this.type}`);
 		}
 	}
 
+	/**
+	 * Updates the summary of earlier documents with the new ones instead of rebuilding it.
+	 * Refine folds every new document into the summary, the other types summarize the new
+	 * documents with their first step and merge the result into the summary with the refine
+	 * prompt. Checkpoints are not used, the existing summary already is the saved progress.
+	 */
+	private async updateSummary(
+		documents: Document[],
+		existingSummary: string,
+	): Promise<ChainValues> {
+		const refinePrompt = this.refinePrompt ?? this.getDefaultRefinePrompt();
+		let summary = existingSummary;
+
+		if (documents.length > 0 && this.type === 'refine') {
+			const questionPrompt = this.questionPrompt ?? this.getDefaultPrompt();
+			summary = (await this.refineSegment(documents, 0, questionPrompt, refinePrompt, {
+				summary: existingSummary,
+				nextIndex: 0,
+			}))!;
+			this.assertSomeChunksSummarized();
+		} else if (documents.length > 0) {
+			const mapPrompt =
+				this.type === 'stuff'
+					? this.prompt
+					: this.type === 'parallel_refine'
+						? this.questionPrompt
+						: this.combineMapPrompt;
+			const chunkSummaries = await this.summarizeChunks(documents, mapPrompt);
+			const relevantSummaries = chunkSummaries.filter(isSummarized);
+			if (relevantSummaries.length === 0) {
+				// None of the new documents helps to answer the focus question
+				const result = await this.finishRefine(existingSummary, refinePrompt);
+				result.output.updatedExistingSummary = true;
+				return result;
+			}
+			const { summaries } = await this.collapseSummaries(relevantSummaries);
+
+			const { prompt, text } = await this.invokeModelCached(
+				refinePrompt,
+				{ existing_answer: existingSummary, text: this.joinSummaries(summaries) },
+				'combine',
+			);
+			summary = this.isNotRelevant(text) ? existingSummary : text;
+			this.recordIntermediateStep({
+				step: 'merge',
+				chunkIndex: 0,
+				metadata: { chunkCount: documents.length },
+				prompt,
+				text,
+			});
+		}
+
+		const result = await this.finishRefine(summary, refinePrompt);
+		result.output.updatedExistingSummary = true;
+		return result;
+	}
+
+	/**
+	 * Picks the most central sentences of the documents without calling a model, up to
+	 * outputSize or DEFAULT_EXTRACTIVE_SENTENCES sentences without a size. Only when not even
+	 * the best sentence fits is it truncated, so the summary always has some text.
+	 */
+	private async extractive(documents: Document[]): Promise<ChainValues> {
+		const ranked = rankSentences(
+			documents.map((doc) => doc.pageContent),
+			this.sentenceRanking,
+		);
+		const sentences = await selectSentences(
+			ranked,
+			async (text) => await this.measureTextSize(text),
+			this.outputSize,
+			DEFAULT_EXTRACTIVE_SENTENCES,
+		);
+
+		let text = joinSentences(sentences);
+		let truncated = false;
+		if (sentences.length === 0 && ranked.length > 0) {
+			text = await this.truncateToOutputSize(ranked[0].text);
+			truncated = true;
+		}
+
+		return {
+			output: {
+				text,
+				// The sentences are picked to fit, only a single oversized sentence is truncated
+				sizeValidation: this.describeSizeEnforcement(
+					await this.validateOutputSize(text),
+					truncated ? 'truncate' : 'none',
+					0,
+					truncated,
+				),
+				extractive: {
+					ranking: this.sentenceRanking,
+					sentenceCount: ranked.length,
+					// Positions of the picked sentences among all sentences, in document order
+					selectedSentences: sentences.map((sentence) => sentence.index),
+				},
+			},
+		};
+	}
+
+	/**
+	 * Scores every chunk for relevance and only summarizes the best ones, with map_reduce or
+	 * stuff. Coverage then refers to the kept chunks plus the ones that could not be scored,
+	 * which are missing from the summary.
+	 */
+	private async mapRerank(documents: Document[]): Promise<ChainValues> {
+		const scores = await this.scoreChunks(documents);
+		const keptChunks = selectTopChunks(
+			scores,
+			documents.map((doc) => this.countTokens(doc.pageContent)),
+			this.preselection.topK,
+			this.preselection.tokenBudget,
+		);
+		if (documents.length > 0 && keptChunks.length === 0) {
+			throw new Error('No chunk could be scored for relevance');
+		}
+		const keptDocuments = keptChunks.map((index) => documents[index]);
+		this.chunkCount = keptDocuments.length + this.failedChunks.length;
+
+		const result =
+			this.preselection.summarizeWith === 'stuff'
+				? await this.stuff(keptDocuments)
+				: await this.mapReduce(keptDocuments);
+
+		result.output.preselection = {
+			scoring: this.preselection.scoring,
+			summarizedWith: this.preselection.summarizeWith,
+			chunkCount: documents.length,
+			keptChunks,
+			scores,
+		};
+		return result;
+	}
+
+	/**
+	 * Relevance of every chunk, higher is better. TF-IDF and TextRank run locally, 'llm' asks
+	 * the map model for a score from 0 to 10. Chunks the model fails to score under the 'skip'
+	 * policy are recorded as failed, have no score and are left out.
+	 */
+	private async scoreChunks(documents: Document[]): Promise<Array<number | undefined>> {
+		const texts = documents.map((doc) => doc.pageContent);
+		if (this.preselection.scoring === 'tfidf') {
+			return scoreByTfIdf(texts);
+		}
+		if (this.preselection.scoring === 'textrank') {
+			return scoreByTextRank(texts);
+		}
+
+		const scorePrompt = this.scorePrompt ?? this.getDefaultScorePrompt();
+		const results = await this.runScheduled(documents, async (doc, chunkIndex) => {
+			try {
+				const { prompt, text } = await this.invokeModelCached(scorePrompt, {
+					text: doc.pageContent,
+				});
+				return { step: 'score' as const, chunkIndex, metadata: doc.metadata, prompt, text };
+			} catch (error) {
+				this.skipFailedChunk(error, doc, chunkIndex, 'score');
+				return undefined;
+			}
+		});
+
+		results.forEach((result) => result && this.recordIntermediateStep(result));
+		return results.map((result) => (result ? parseRelevanceScore(result.text) : undefined));
+	}
+
 	private async mapReduce(documents: Document[]): Promise<ChainValues> {
 		// Map phase: summarize each document with batching
-		const summaries = await this.processDocumentsInBatches(documents, this.combineMapPrompt);
+		const mapSummaries = await this.summarizeChunks(documents, this.combineMapPrompt);
+
+		return await this.reduceSummaries(mapSummaries.filter(isSummarized));
+	}
+
+	/**
+	 * Collapses the summaries until they fit into tokenMax and combines them into the final
+	 * summary, enforcing the output size.
+	 */
+	private async reduceSummaries(mapSummaries: string[]): Promise<ChainValues> {
+		// Nothing to combine when no chunk helps to answer the focus question
+		if (mapSummaries.length === 0 && this.irrelevantChunks.length > 0) {
+			return await this.createEmptyResult(this.combinePrompt ?? this.getDefaultCombinePrompt());
+		}
+
+		// Collapse phase: shrink the summaries until they fit into tokenMax
+		const { summaries, collapseDepth } = await this.collapseSummaries(mapSummaries);
 
 		// Reduce phase: combine summaries
-		const summaryDocs = summaries.map((summary, index) => ({
-			pageContent: summary,
-			metadata: { index },
-		}));
+		const combinedText = this.joinSummaries(summaries);
 
-		const combinedText = summaryDocs.map((doc) => doc.pageContent).join('\\n\\n');
+		if (this.outputSchema) {
+			const combinePrompt = this.combinePrompt ?? this.getDefaultCombinePrompt();
+			const finalSummary = await combinePrompt.format(
+				withQuestion({ text: combinedText }, this.question),
+			);
+			return await this.createStructuredResult(finalSummary, { collapseDepth });
+		}
 
-		// Use agent for the final combine step when both outputSize and useAgent are set
-		let outputText: string;
+		// Use agent for the final combine step when the agent strategy is selected
+		const combinePrompt = this.combinePrompt ?? this.getDefaultCombinePrompt();
+		let outputText: string | undefined;
+		let producedBy = this.getPromptStrategy();
 
-		if (this.outputSize && this.useAgent) {
+		if (this.outputSize && this.sizeEnforcement === 'agent') {
 			try {
-				const taskDescription = 'Write a concise summary of the following summaries:';
+				const taskDescription = this.focusTask(
+					'Write a concise summary of the following summaries:',
+				);
 				outputText = await this.invokeSummarizationWithAgent(combinedText, taskDescription);
+				producedBy = 'agent';
 			} catch (error) {
 				// Fallback to traditional approach
-				const combinePrompt = this.combinePrompt ?? this.getDefaultCombinePrompt();
-				const finalSummary = await combinePrompt.format({ text: combinedText });
-				const result = await this.model.invoke(finalSummary);
-				outputText = typeof result === 'string' ? result : result.content;
 			}
-		} else {
-			// Traditional approach (default behavior)
-			const combinePrompt = this.combinePrompt ?? this.getDefaultCombinePrompt();
-			const finalSummary = await combinePrompt.format({ text: combinedText });
-			const result = await this.model.invoke(finalSummary);
-			outputText = typeof result === 'string' ? result : result.content;
 		}
 
-		// Validate output size and retry if needed
-		let sizeValidation = this.validateOutputSize(outputText);
-		let retryCount = 0;
-
-		if (!sizeValidation.isValid && this.outputSize) {
-			const combinePrompt = this.combinePrompt ?? this.getDefaultCombinePrompt();
-			outputText = await this.retryWithShorterPrompt(combinedText, combinePrompt);
-			sizeValidation = this.validateOutputSize(outputText);
-			retryCount = 1;
+		if (outputText === undefined) {
+			const finalSummary = await combinePrompt.format(
+				withQuestion({ text: combinedText }, this.question),
+			);
+			outputText = await this.invokeModel(finalSummary, 'combine');
 		}
 
+		// Validate output size and enforce it if needed
+		const { text, sizeValidation } = await this.enforceOutputSize(
+			outputText,
+			combinedText,
+			combinePrompt,
+			producedBy,
+		);
+
 		return {
 			output: {
-				text: outputText,
-				sizeValidation: {
-					...sizeValidation,
-					retryCount
-				}
+				text,
+				sizeValidation,
+				collapseDepth,
 			}
 		};
 	}
 
+	/**
+	 * Summarizes the chunks, then each metadata group from the innermost level outwards, and
+	 * finally the top-level groups. The group summaries are returned as a nested outline.
+	 */
+	private async hierarchical(documents: Document[]): Promise<ChainValues> {
+		const keys = getPresentKeys(documents, this.hierarchyKeys);
+		if (keys.length === 0) {
+			// Without structure metadata there is nothing to nest, which is plain map_reduce
+			const result = await this.mapReduce(documents);
+			result.output.outline = [];
+			return result;
+		}
+
+		const chunkSummaries = await this.summarizeChunks(documents, this.combineMapPrompt);
+		const combinePrompt = this.combinePrompt ?? this.getDefaultCombinePrompt();
+		const groups = groupDocumentsByMetadata(documents, keys);
+		const summaries = new Map<DocumentGroup, string>();
+
+		for (const level of getGroupsBottomUp(groups)) {
+			throwIfCancelled(this.signal);
+			const pending: Array<{ group: DocumentGroup; doc: Document }> = [];
+
+			for (const group of level) {
+				const parts = (
+					group.children.length > 0
+						? group.children.map((child) => summaries.get(child))
+						: group.chunkIndices.map((index) => chunkSummaries[index])
+				).filter(isSummarized);
+
+				// Groups whose chunks all failed or were not relevant are left out of the summary
+				if (parts.length === 0) {
+					continue;
+				}
+				// A group with a single part already has its summary
+				if (parts.length === 1) {
+					summaries.set(group, parts[0]);
+					continue;
+				}
+
+				const { summaries: collapsed } = await this.collapseSummaries(parts);
+				pending.push({
+					group,
+					doc: {
+						pageContent: this.joinSummaries(collapsed),
+						metadata: { [group.key]: group.value, depth: group.depth },
+					},
+				});
+			}
+
+			if (pending.length > 0) {
+				// Keep the pause between the previous level and this one
+				await this.pauseBetweenBatches();
+				const sectionSummaries = await this.processDocumentsInBatches(
+					pending.map(({ doc }) => doc),
+					combinePrompt,
+					'section',
+				);
+				pending.forEach(({ group }, index) => summaries.set(group, sectionSummaries[index]));
+			}
+		}
+
+		const result = await this.reduceSummaries(
+			groups.map((group) => summaries.get(group)).filter(isSummarized),
+		);
+		result.output.outline = buildOutline(groups, summaries);
+		return result;
+	}
+
+	private joinSummaries(summaries: string[]): string {
+		return summaries.join('\\n\\n');
+	}
+
+	/**
+	 * Recursively summarizes groups of summaries until their joined text fits into tokenMax.
+	 * Every level is processed with the same batching and delay rules as the map phase.
+	 */
+	private async collapseSummaries(
+		summaries: string[],
+	): Promise<{ summaries: string[]; collapseDepth: number }> {
+		const collapsePrompt = this.combinePrompt ?? this.getDefaultCombinePrompt();
+		let current = summaries;
+		let collapseDepth = 0;
+
+		while (current.length > 1 && this.countTokens(this.joinSummaries(current)) > this.tokenMax) {
+			throwIfCancelled(this.signal);
+			const groups = this.groupSummariesByTokenMax(current);
+			const groupDocs = groups.map((group, index) => ({
+				pageContent: this.joinSummaries(group),
+				metadata: { index, collapseDepth: collapseDepth + 1 },
+			}));
+
+			// Keep the pause between the previous level and this one
+			await this.pauseBetweenBatches();
+
+			current = await this.processDocumentsInBatches(groupDocs, collapsePrompt, 'collapse');
+			collapseDepth++;
+		}
+
+		return { summaries: current, collapseDepth };
+	}
+
+	private groupSummariesByTokenMax(summaries: string[]): string[][] {
+		const groups: string[][] = [];
+		let currentGroup: string[] = [];
+
+		for (const summary of summaries) {
+			const candidate = [...currentGroup, summary];
+			// Groups always take at least two summaries so every level shrinks the set
+			if (
+				currentGroup.length >= 2 &&
+				this.countTokens(this.joinSummaries(candidate)) > this.tokenMax
+			) {
+				groups.push(currentGroup);
+				currentGroup = [summary];
+			} else {
+				currentGroup = candidate;
+			}
+		}
+
+		if (currentGroup.length > 0) {
+			groups.push(currentGroup);
+		}
+
+		return groups;
+	}
+
 	private async stuff(documents: Document[]): Promise<ChainValues> {
 		const combinedText = documents.map((doc) => doc.pageContent).join('\\n\\n');
 
-		// Use agent-based approach when both outputSize and useAgent are set
-		let outputText: string;
-		let retryCount = 0;
+		if (this.outputSchema) {
+			const prompt = this.prompt ?? this.getDefaultStuffPrompt();
+			return await this.createStructuredResult(
+				await prompt.format(withQuestion({ text: combinedText }, this.question)),
+			);
+		}
+
+		// Use agent-based approach when the agent strategy is selected
+		const prompt = this.prompt ?? this.getDefaultStuffPrompt();
+		let outputText: string | undefined;
+		let producedBy = this.getPromptStrategy();
 
-		if (this.outputSize && this.useAgent) {
+		if (this.outputSize && this.sizeEnforcement === 'agent') {
 			try {
-				const taskDescription = 'Write a concise summary of the following text:';
+				const taskDescription = this.focusTask('Write a concise summary of the following text:');
 				outputText = await this.invokeSummarizationWithAgent(combinedText, taskDescription);
+				producedBy = 'agent';
 			} catch (error) {
 				// Fallback to traditional approach on error
-				const prompt = this.prompt ?? this.getDefaultPrompt();
-				const formattedPrompt = await prompt.format({ text: combinedText });
-				const result = await this.model.invoke(formattedPrompt);
-				outputText = typeof result === 'string' ? result : result.content;
 			}
-		} else {
-			// Traditional approach (default behavior)
-			const prompt = this.prompt ?? this.getDefaultPrompt();
-			const formattedPrompt = await prompt.format({ text: combinedText });
-			const result = await this.model.invoke(formattedPrompt);
-			outputText = typeof result === 'string' ? result : result.content;
 		}
 
-		// Validate output size and retry if needed (as backup)
-		let sizeValidation = this.validateOutputSize(outputText);
-
-		if (!sizeValidation.isValid && this.outputSize) {
-			// If agent failed to meet size requirements, use traditional retry
-			const prompt = this.prompt ?? this.getDefaultPrompt();
-			outputText = await this.retryWithShorterPrompt(combinedText, prompt);
-			sizeValidation = this.validateOutputSize(outputText);
-			retryCount = 1;
+		if (outputText === undefined) {
+			const formattedPrompt = await prompt.format(
+				withQuestion({ text: combinedText }, this.question),
+			);
+			outputText = await this.invokeModel(formattedPrompt, 'combine');
 		}
 
+		// Validate output size and enforce it if needed (the retry is the agent's backup)
+		const { text, sizeValidation } = await this.enforceOutputSize(
+			outputText,
+			combinedText,
+			prompt,
+			producedBy,
+		);
+
 		return {
 			output: {
-				text: outputText,
-				sizeValidation: {
-					...sizeValidation,
-					retryCount
-				}
+				text,
+				sizeValidation,
 			}
 		};
 	}
 
 	private async refine(documents: Document[]): Promise<ChainValues> {
+		const questionPrompt = this.questionPrompt ?? this.getDefaultPrompt();
+		const refinePrompt = this.refinePrompt ?? this.getDefaultRefinePrompt();
+
 		if (documents.length === 0) {
-			const sizeValidation = this.validateOutputSize('');
-			return {
-				output: {
-					text: '',
-					sizeValidation: {
-						...sizeValidation,
-						retryCount: 0
-					}
-				}
-			};
+			return await this.createEmptyResult(refinePrompt);
+		}
+
+		// A previous run of the same documents may have left a checkpoint to resume from
+		const checkpoint = await this.loadRefineCheckpoint(documents, questionPrompt, refinePrompt);
+		const summary = await this.refineSegment(
+			documents,
+			0,
+			questionPrompt,
+			refinePrompt,
+			checkpoint,
+			async (nextIndex, text) => await this.saveRefineCheckpoint(nextIndex, text),
+		);
+		if (summary === undefined) {
+			return await this.createNoSummaryResult(refinePrompt);
+		}
+
+		const result = await this.finishRefine(summary, refinePrompt);
+
+		// The run is complete, so a later run of the same documents starts over
+		if (this.checkpointStore) {
+			await this.checkpointStore.delete(this.refineCheckpoint!.key).catch(() => undefined);
+			result.output.checkpoint = { resumedFrom: checkpoint?.nextIndex ?? 0 };
 		}
+		return result;
+	}
 
+	/**
+	 * Splits the documents into contiguous segments that are refined at the same time, then
+	 * refines the segment summaries into each other in document order.
+	 */
+	private async parallelRefine(documents: Document[]): Promise<ChainValues> {
 		const questionPrompt = this.questionPrompt ?? this.getDefaultPrompt();
 		const refinePrompt = this.refinePrompt ?? this.getDefaultRefinePrompt();
 
-		// Initial summary from first document
-		const firstDoc = documents[0];
-		const initialPrompt = await questionPrompt.format({ text: firstDoc.pageContent });
-		const currentSummary = await this.model.invoke(initialPrompt);
-		let currentSummaryText =
-			typeof currentSummary === 'string' ? currentSummary : currentSummary.content;
+		if (documents.length === 0) {
+			return await this.createEmptyResult(refinePrompt);
+		}
 
-		// Process remaining documents with batching
-		if (documents.length > 1) {
-			const remainingDocs = documents.slice(1);
+		const segments = splitIntoSegments(documents.length, this.refineSegments);
+		const firstStep = this.intermediateSteps.length;
+		const segmentSummaries = await this.cancelRunOnFailure(
+			async () =>
+				await runWithConcurrency(
+					segments,
+					segments.length,
+					async ({ start, end }) =>
+						await this.refineSegment(
+							documents.slice(start, end),
+							start,
+							questionPrompt,
+							refinePrompt,
+						),
+					this.signal,
+				),
+		);
+		// Segments record their steps as they go, report them in document order
+		this.intermediateSteps.push(
+			...this.intermediateSteps.splice(firstStep).sort((a, b) => a.chunkIndex - b.chunkIndex),
+		);
 
-			for (let i = 0; i < remainingDocs.length; i += this.batchSize) {
-				const batch = remainingDocs.slice(i, i + this.batchSize);
+		// Segments whose chunks were all skipped have nothing to merge
+		const merged = segments
+			.map((segment, index) => ({ ...segment, index, summary: segmentSummaries[index] }))
+			.filter((segment): segment is typeof segment & { summary: string } =>
+				isSummarized(segment.summary),
+			);
+		if (merged.length === 0) {
+			return await this.createNoSummaryResult(refinePrompt);
+		}
+
+		let currentSummaryText = merged[0].summary;
+		for (const segment of merged.slice(1)) {
+			throwIfCancelled(this.signal);
+			const { prompt, text } = await this.invokeModelCached(
+				refinePrompt,
+				{ existing_answer: currentSummaryText, text: segment.summary },
+				'combine',
+			);
+			// A segment that adds nothing to answer the focus question keeps the summary so far
+			currentSummaryText = this.isNotRelevant(text) ? currentSummaryText : text;
+			this.recordIntermediateStep({
+				step: 'merge',
+				chunkIndex: segment.start,
+				metadata: { segment: segment.index, chunkCount: segment.end - segment.start },
+				prompt,
+				text,
+			});
+		}
+
+		const result = await this.finishRefine(currentSummaryText, refinePrompt);
+		result.output.segmentCount = segments.length;
+		return result;
+	}
+
+	/**
+	 * Refines the documents one after another, starting from the saved state when given. The
+	 * chunk indices are offset by the position of the first document. Returns undefined when
+	 * every chunk was skipped.
+	 */
+	private async refineSegment(
+		documents: Document[],
+		offset: number,
+		questionPrompt: BasePromptTemplate,
+		refinePrompt: BasePromptTemplate,
+		resumeFrom?: { summary: string; nextIndex: number },
+		onStep?: (nextIndex: number, summary: string) => Promise<void>,
+	): Promise<string | undefined> {
+		let currentSummaryText = resumeFrom?.summary;
+		let initialIndex = resumeFrom?.nextIndex ?? 0;
+
+		// Initial summary from the first document, or the first one that does not fail
+		while (currentSummaryText === undefined) {
+			if (initialIndex >= documents.length) {
+				return undefined;
+			}
+			throwIfCancelled(this.signal);
+			const doc = documents[initialIndex];
+			currentSummaryText = await this.summarizeRefineStep(
+				'initial',
+				offset + initialIndex,
+				doc,
+				questionPrompt,
+				{ text: doc.pageContent },
+			);
+			if (currentSummaryText !== undefined) {
+				await onStep?.(initialIndex + 1, currentSummaryText);
+			}
+			initialIndex++;
+		}
 
-				for (const doc of batch) {
-					const refineFormatted = await refinePrompt.format({
+		// Process remaining documents with batching
+		const remainingDocs = documents.slice(initialIndex);
+
+		for (let i = 0; i < remainingDocs.length; i += this.batchSize) {
+			throwIfCancelled(this.signal);
+			const batch = remainingDocs.slice(i, i + this.batchSize);
+
+			for (const [batchIndex, doc] of batch.entries()) {
+				// Offset by the initial document and the previous batches
+				const index = initialIndex + i + batchIndex;
+				// A skipped or irrelevant chunk keeps the summary so far
+				currentSummaryText =
+					(await this.summarizeRefineStep('refine', offset + index, doc, refinePrompt, {
 						existing_answer: currentSummaryText,
 						text: doc.pageContent,
-					});
-
-					const refined = await this.model.invoke(refineFormatted);
-					currentSummaryText = typeof refined === 'string' ? refined : refined.content;
-				}
+					})) ?? currentSummaryText;
+				await onStep?.(index + 1, currentSummaryText);
+			}
 
-				// Add delay between batches if not the last batch
-				if (i + this.batchSize < remainingDocs.length && this.delayBetweenBatches > 0) {
-					await sleep(this.delayBetweenBatches);
-				}
+			// Add delay between batches if not the last batch
+			if (i + this.batchSize < remainingDocs.length) {
+				await this.pauseBetweenBatches();
 			}
 		}
 
-		// Validate output size and retry if needed
-		let sizeValidation = this.validateOutputSize(currentSummaryText);
-		let retryCount = 0;
+		return currentSummaryText;
+	}
 
-		if (!sizeValidation.isValid && this.outputSize) {
-			// For refine, we retry with the final summary text
-			currentSummaryText = await this.retryWithShorterPrompt(currentSummaryText, refinePrompt);
-			sizeValidation = this.validateOutputSize(currentSummaryText);
-			retryCount = 1;
+	/**
+	 * Output without a summary, with the size reported the same way as for a summary.
+	 */
+	private async createEmptyResult(promptTemplate: BasePromptTemplate): Promise<ChainValues> {
+		const { sizeValidation } = await this.enforceOutputSize('', '', promptTemplate, 'none');
+		return {
+			output: {
+				text: '',
+				sizeValidation,
+			},
+		};
+	}
+
+	/**
+	 * Result of a refine run that produced no summary. That is only fine when no chunk helps
+	 * to answer the focus question, otherwise every chunk was skipped.
+	 */
+	private async createNoSummaryResult(refinePrompt: BasePromptTemplate): Promise<ChainValues> {
+		if (this.irrelevantChunks.length === 0) {
+			throw new AllChunksFailedError(this.failedChunks);
+		}
+		return await this.createEmptyResult(refinePrompt);
+	}
+
+	/**
+	 * Turns the refined summary into the chain output, as structured output or with the output
+	 * size enforced.
+	 */
+	private async finishRefine(
+		summary: string,
+		refinePrompt: BasePromptTemplate,
+	): Promise<ChainValues> {
+		if (this.outputSchema) {
+			// Refine steps build on free text, so the final summary is formatted in one more call
+			const formatPrompt = await this.getStructuredFormatPrompt().format({ text: summary });
+			return await this.createStructuredResult(formatPrompt);
 		}
 
+		// Validate output size and enforce it if needed, retries shorten the final summary
+		const { text, sizeValidation } = await this.enforceOutputSize(
+			summary,
+			summary,
+			refinePrompt,
+			this.getPromptStrategy(),
+		);
+
 		return {
 			output: {
-				text: currentSummaryText,
-				sizeValidation: {
-					...sizeValidation,
-					retryCount
-				}
-			}
+				text,
+				sizeValidation,
+			},
+		};
+	}
+
+	/**
+	 * Loads the checkpoint a previous run of the same documents and settings left behind.
+	 * Failed chunks recorded before the checkpoint are restored so coverage stays complete.
+	 * Checkpoints only save work, so a store that fails is ignored like an empty one and the
+	 * run goes on without them.
+	 */
+	private async loadRefineCheckpoint(
+		documents: Document[],
+		questionPrompt: BasePromptTemplate,
+		refinePrompt: BasePromptTemplate,
+	): Promise<RefineCheckpoint | undefined> {
+		if (!this.checkpointStore) {
+			return undefined;
+		}
+
+		this.refineCheckpoint = {
+			key: createCheckpointKey(documents),
+			settingsHash: createSettingsHash({
+				model: this.model && getModelName(this.model),
+				questionPrompt: getTemplateText(questionPrompt),
+				refinePrompt: getTemplateText(refinePrompt),
+				chunkErrorPolicy: this.chunkErrorPolicy,
+				question: this.question,
+			}),
 		};
+
+		const checkpoint = await this.checkpointStore
+			.get(this.refineCheckpoint.key)
+			.catch(() => undefined);
+		if (
+			!checkpoint ||
+			checkpoint.settingsHash !== this.refineCheckpoint.settingsHash ||
+			checkpoint.nextIndex > documents.length
+		) {
+			return undefined;
+		}
+
+		this.failedChunks = [...checkpoint.failedChunks];
+		return checkpoint;
+	}
+
+	private async saveRefineCheckpoint(nextIndex: number, summary: string): Promise<void> {
+		if (!this.checkpointStore) {
+			return;
+		}
+		const { key, settingsHash } = this.refineCheckpoint!;
+		await this.checkpointStore
+			.set(key, {
+				settingsHash,
+				summary,
+				nextIndex,
+				// Later steps keep adding to the run's list
+				failedChunks: [...this.failedChunks],
+				updatedAt: Date.now(),
+			})
+			.catch(() => undefined);
+	}
+
+	/**
+	 * Runs the worker over the documents with the configured scheduling and returns the
+	 * results in document order.
+	 */
+	private async runScheduled<R>(
+		documents: Document[],
+		worker: (doc: Document, index: number) => Promise<R>,
+	): Promise<R[]> {
+		return await this.cancelRunOnFailure(
+			async () => await this.scheduleDocuments(documents, worker),
+		);
+	}
+
+	/**
+	 * Cancels the rest of the run when the work fails, so concurrent calls that are waiting or
+	 * in flight do not spend tokens on a result that is thrown away.
+	 */
+	private async cancelRunOnFailure<R>(work: () => Promise<R>): Promise<R> {
+		try {
+			return await work();
+		} catch (error) {
+			this.runController.abort();
+			throw error;
+		}
+	}
+
+	private async scheduleDocuments<R>(
+		documents: Document[],
+		worker: (doc: Document, index: number) => Promise<R>,
+	): Promise<R[]> {
+		// Pool mode starts a new document as soon as a slot frees up. A rate limiter never
+		// allows more than batchSize requests in flight and may lower that cap further.
+		if (this.schedulingMode === 'pool' || this.rateLimiter) {
+			return await runWithConcurrency(documents, this.batchSize, worker, this.signal);
+		}
+
+		const results: R[] = [];
+
+		for (let i = 0; i < documents.length; i += this.batchSize) {
+			throwIfCancelled(this.signal);
+			const batch = documents.slice(i, i + this.batchSize);
+
+			const batchPromises = batch.map(
+				async (doc, batchIndex) => await worker(doc, i + batchIndex),
+			);
+			results.push(...(await Promise.all(batchPromises)));
+
+			// Add delay between batches if not the last batch
+			if (i + this.batchSize < documents.length) {
+				await this.pauseBetweenBatches();
+			}
+		}
+
+		return results;
 	}
 
 	private async processDocumentsInBatches(
 		documents: Document[],
 		promptTemplate?: BasePromptTemplate,
+		step: IntermediateStepType = 'map',
 	): Promise<string[]> {
 		const prompt = promptTemplate ?? this.getDefaultPrompt();
-		const summaries: string[] = [];
+		const results = await this.runScheduled(
+			documents,
+			async (doc, index) => await this.summarizeDocument(doc, index, prompt, step),
+		);
 
-		for (let i = 0; i < documents.length; i += this.batchSize) {
-			const batch = documents.slice(i, i + this.batchSize);
+		// Record steps after all documents resolve so they stay in document order
+		results.forEach((result) => this.recordIntermediateStep(result));
+		return results.map((result) => result.text);
+	}
 
-			const batchPromises = batch.map(async (doc) => {
-				const formatted = await prompt.format({ text: doc.pageContent });
-				const result = await this.model.invoke(formatted);
-				return typeof result === 'string' ? result : result.content;
-			});
+	/**
+	 * Map phase over the source chunks. Chunks skipped by the 'skip' policy have no summary
+	 * (undefined), so the results still line up with the documents.
+	 */
+	private async summarizeChunks(
+		documents: Document[],
+		promptTemplate?: BasePromptTemplate,
+	): Promise<Array<string | undefined>> {
+		const prompt = promptTemplate ?? this.getDefaultPrompt();
+		const results = await this.runScheduled(documents, async (doc, index) => {
+			try {
+				return await this.summarizeDocument(doc, index, prompt, 'map');
+			} catch (error) {
+				this.skipFailedChunk(error, doc, index, 'map');
+				return undefined;
+			}
+		});
 
-			const batchResults = await Promise.all(batchPromises);
-			summaries.push(...batchResults);
+		results.forEach((result) => result && this.recordIntermediateStep(result));
+		this.assertSomeChunksSummarized();
+		return results.map((result, index) => {
+			// Chunks that do not help to answer the focus question drop out like skipped ones
+			if (result && this.isNotRelevant(result.text)) {
+				this.irrelevantChunks.push(index);
+				return undefined;
+			}
+			return result?.text;
+		});
+	}
 
-			// Add delay between batches if not the last batch
-			if (i + this.batchSize < documents.length && this.delayBetweenBatches > 0) {
-				await sleep(this.delayBetweenBatches);
+	/**
+	 * Whether a focused step answered that its text does not help to answer the question.
+	 */
+	private isNotRelevant(text: string): boolean {
+		return this.question !== undefined && isNotRelevantAnswer(text);
+	}
+
+	/**
+	 * One initial or refine call. Returns undefined when the chunk failed and was skipped, or
+	 * does not help to answer the focus question.
+	 */
+	private async summarizeRefineStep(
+		step: 'initial' | 'refine',
+		chunkIndex: number,
+		doc: Document,
+		promptTemplate: BasePromptTemplate,
+		variables: Record<string, string>,
+	): Promise<string | undefined> {
+		try {
+			const { prompt, text, model } = await this.invokeModelCached(promptTemplate, variables);
+			this.recordIntermediateStep({ step, chunkIndex, metadata: doc.metadata, prompt, text });
+			this.recordChunkModel({ chunkIndex, step, model });
+			if (this.isNotRelevant(text)) {
+				this.irrelevantChunks.push(chunkIndex);
+				return undefined;
 			}
+			return text;
+		} catch (error) {
+			this.skipFailedChunk(error, doc, chunkIndex, step);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Records the failed chunk when the 'skip' policy applies, otherwise rethrows the error.
+	 */
+	private skipFailedChunk(
+		error: unknown,
+		doc: Document,
+		chunkIndex: number,
+		step: FailedChunk['step'],
+	): void {
+		if (this.chunkErrorPolicy !== 'skip' || !isSkippableChunkError(error)) {
+			throw error;
 		}
+		this.failedChunks.push({
+			chunkIndex,
+			step,
+			metadata: doc.metadata,
+			error: getErrorMessage(error),
+		});
+	}
 
-		return summaries;
+	private assertSomeChunksSummarized(): void {
+		if (this.chunkCount > 0 && this.failedChunks.length >= this.chunkCount) {
+			throw new AllChunksFailedError(this.failedChunks);
+		}
+	}
+
+	private async summarizeDocument(
+		doc: Document,
+		chunkIndex: number,
+		prompt: BasePromptTemplate,
+		step: IntermediateStepType,
+	): Promise<IntermediateStep> {
+		// Collapse and section steps combine summaries, only chunks go to the map model
+		const { prompt: formatted, text, model } = await this.invokeModelCached(
+			prompt,
+			{ text: doc.pageContent },
+			step === 'map' ? 'map' : 'combine',
+		);
+		if (step === 'map') {
+			this.recordChunkModel({ chunkIndex, step, model });
+		}
+		return {
+			step,
+			chunkIndex,
+			metadata: doc.metadata,
+			prompt: formatted,
+			text,
+		};
 	}
 
 	private getDefaultPrompt(): PromptTemplate {
+		if (this.question) {
+			return this.createFocusedPrompt(FOCUSED_MAP_PROMPT_TEMPLATE, ['text']);
+		}
 		const template = this.createSizeConstrainedPrompt(
 			'Write a concise summary of the following:\\n\\n{text}\\n\\nCONCISE SUMMARY:'
 		);
@@ -556,6 +2024,9 @@ KEYWORDS ONLY (≤${this.outputSize} ${sizeUnit}):`
 	}
 
 	private getDefaultCombinePrompt(): PromptTemplate {
+		if (this.question) {
+			return this.createFocusedPrompt(FOCUSED_COMBINE_PROMPT_TEMPLATE, ['text']);
+		}
 		const template = this.createSizeConstrainedPrompt(
 			'Write a concise summary of the following text:\\n\\n{text}\\n\\nCONCISE SUMMARY:'
 		);
@@ -565,7 +2036,49 @@ KEYWORDS ONLY (≤${this.outputSize} ${sizeUnit}):`
 		});
 	}
 
+	/**
+	 * Stuff answers in one step, so with a focus question it uses the combine prompt, which has
+	 * no way to declare the text not relevant.
+	 */
+	private getDefaultStuffPrompt(): PromptTemplate {
+		return this.question ? this.getDefaultCombinePrompt() : this.getDefaultPrompt();
+	}
+
+	private createFocusedPrompt(template: string, inputVariables: string[]): PromptTemplate {
+		return new PromptTemplate({
+			template: this.createSizeConstrainedPrompt(template),
+			inputVariables: [...inputVariables, 'question'],
+		});
+	}
+
+	/**
+	 * Adds the focus question to the task of the counting agent.
+	 */
+	private focusTask(taskDescription: string): string {
+		return this.question
+			? `${taskDescription} Focus on what answers this question: "${this.question}"`
+			: taskDescription;
+	}
+
+	private getDefaultScorePrompt(): PromptTemplate {
+		// Scores are parsed as numbers, so the output size guidelines do not apply
+		return new PromptTemplate({
+			template: RELEVANCE_SCORE_PROMPT_TEMPLATE,
+			inputVariables: ['text'],
+		});
+	}
+
+	private getStructuredFormatPrompt(): PromptTemplate {
+		return new PromptTemplate({
+			template: 'Write the following summary as structured data:\\n\\n{text}',
+			inputVariables: ['text'],
+		});
+	}
+
 	private getDefaultRefinePrompt(): PromptTemplate {
+		if (this.question) {
+			return this.createFocusedPrompt(FOCUSED_REFINE_PROMPT_TEMPLATE, ['existing_answer', 'text']);
+		}
 		const baseTemplate = `Your job is to produce a final summary.
 We have provided an existing summary up to a certain point: {existing_answer}
 We have the opportunity to refine the existing summary (only if needed) with some more context below.
@@ -583,9 +2096,12 @@ Given the new context, refine the original summary. If the context isn't useful,
 
 	withConfig(config: any): BatchedSummarizationChain {
 		// Apply config to the underlying model to preserve tracing/telemetry
-		if (config && typeof this.model.withConfig === 'function') {
+		if (config && typeof this.model?.withConfig === 'function') {
 			this.model = this.model.withConfig(config) as BaseLanguageModel;
 		}
+		if (config) {
+			this.getModelChains().forEach((modelChain) => modelChain.withConfig(config));
+		}
 		return this;
 	}
 }
@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+
+import { DEFAULT_CACHE_FILE_PATH, MAX_MEMORY_CACHE_ENTRIES } from './constants';
+
+export type CacheBackend = 'memory' | 'sqlite';
+
+export interface CacheSettings {
+	backend?: CacheBackend;
+	filePath?: string; // SQLite database file, only used by the 'sqlite' backend
+}
+
+export interface CacheStats {
+	hits: number;
+	misses: number;
+}
+
+export interface SummaryCache {
+	get(key: string): Promise<string | undefined>;
+	set(key: string, value: string): Promise<void>;
+}
+
+/**
+ * Hashes everything that determines a summary: the model, the prompt template and the text
+ * inserted into it (the chunk, and for refine steps the existing summary as well).
+ */
+export function createCacheKey(
+	modelName: string,
+	template: string,
+	variables: Record<string, string>,
+): string {
+	return createHash('sha256')
+		.update(JSON.stringify([modelName, template, variables]))
+		.digest('hex');
+}
+
+/**
+ * Keeps summaries in memory. Entries are shared by every instance, so they survive between
+ * executions for as long as the n8n process runs. The oldest entry is dropped once full.
+ */
+export class InMemorySummaryCache implements SummaryCache {
+	private static readonly entries = new Map<string, string>();
+
+	constructor(private readonly maxEntries: number = MAX_MEMORY_CACHE_ENTRIES) {}
+
+	async get(key: string): Promise<string | undefined> {
+		return InMemorySummaryCache.entries.get(key);
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		const entries = InMemorySummaryCache.entries;
+		entries.delete(key);
+		entries.set(key, value);
+		while (entries.size > this.maxEntries) {
+			entries.delete(entries.keys().next().value!);
+		}
+	}
+
+	static clear(): void {
+		InMemorySummaryCache.entries.clear();
+	}
+}
+
+interface SqliteDatabase {
+	run(sql: string, params: unknown[], callback: (error: Error | null) => void): void;
+	get(
+		sql: string,
+		params: unknown[],
+		callback: (error: Error | null, row?: { summary?: string }) => void,
+	): void;
+}
+
+// One connection per file, reused by every item and execution
+const openDatabases = new Map<string, Promise<SqliteDatabase>>();
+
+async function openDatabase(filePath: string): Promise<SqliteDatabase> {
+	// Loaded lazily so the native binding is only required when the backend is used
+	const { Database } = await import('sqlite3');
+
+	const db = await new Promise<SqliteDatabase>((resolve, reject) => {
+		const database: SqliteDatabase = new Database(filePath, (error: Error | null) =>
+			error ? reject(error) : resolve(database),
+		);
+	});
+
+	await new Promise<void>((resolve, reject) =>
+		db.run(
+			'CREATE TABLE IF NOT EXISTS chunk_summaries (key TEXT PRIMARY KEY, summary TEXT NOT NULL, created_at INTEGER NOT NULL)',
+			[],
+			(error) => (error ? reject(error) : resolve()),
+		),
+	);
+
+	return db;
+}
+
+/**
+ * Stores summaries in a local SQLite file so they are kept across restarts.
+ */
+export class SqliteSummaryCache implements SummaryCache {
+	constructor(private readonly filePath: string = DEFAULT_CACHE_FILE_PATH) {}
+
+	async get(key: string): Promise<string | undefined> {
+		const db = await this.getDatabase();
+		return await new Promise((resolve, reject) =>
+			db.get('SELECT summary FROM chunk_summaries WHERE key = ?', [key], (error, row) =>
+				error ? reject(error) : resolve(row?.summary),
+			),
+		);
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		const db = await this.getDatabase();
+		await new Promise<void>((resolve, reject) =>
+			db.run(
+				'INSERT OR REPLACE INTO chunk_summaries (key, summary, created_at) VALUES (?, ?, ?)',
+				[key, value, Date.now()],
+				(error) => (error ? reject(error) : resolve()),
+			),
+		);
+	}
+
+	private async getDatabase(): Promise<SqliteDatabase> {
+		let db = openDatabases.get(this.filePath);
+		if (!db) {
+			db = openDatabase(this.filePath);
+			// Forget failed connections so a later item can try again
+			db.catch(() => openDatabases.delete(this.filePath));
+			openDatabases.set(this.filePath, db);
+		}
+		return await db;
+	}
+}
+
+export function createSummaryCache(settings?: CacheSettings): SummaryCache | undefined {
+	switch (settings?.backend) {
+		case 'memory':
+			return new InMemorySummaryCache();
+		case 'sqlite':
+			return new SqliteSummaryCache(settings.filePath || DEFAULT_CACHE_FILE_PATH);
+		default:
+			return undefined;
+	}
+}
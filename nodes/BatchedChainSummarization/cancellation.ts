@@ -0,0 +1,40 @@
+import { sleep } from 'n8n-workflow';
+
+export class SummarizationCancelledError extends Error {
+	constructor() {
+		super('Summarization was cancelled');
+		this.name = 'SummarizationCancelledError';
+	}
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw new SummarizationCancelledError();
+	}
+}
+
+/**
+ * Resolves with the promise, or rejects with a cancellation error as soon as the signal fires.
+ */
+export async function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) {
+		return await promise;
+	}
+	throwIfCancelled(signal);
+
+	let onAbort: (() => void) | undefined;
+	const aborted = new Promise<never>((_, reject) => {
+		onAbort = () => reject(new SummarizationCancelledError());
+		signal.addEventListener('abort', onAbort, { once: true });
+	});
+
+	try {
+		return await Promise.race([promise, aborted]);
+	} finally {
+		signal.removeEventListener('abort', onAbort!);
+	}
+}
+
+export async function sleepWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+	await raceWithSignal(sleep(ms), signal);
+}
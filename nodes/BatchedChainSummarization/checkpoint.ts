@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Document } from '@langchain/core/documents';
+import type { IDataObject } from 'n8n-workflow';
+
+import type { FailedChunk } from './chunkFailures';
+import { DEFAULT_CHECKPOINT_DIRECTORY } from './constants';
+import { getStaticDataEntries, updateStaticDataEntries } from './staticData';
+
+export type CheckpointStorage = 'staticData' | 'file';
+
+export interface CheckpointSettings {
+	storage?: CheckpointStorage;
+	directory?: string; // Folder of the JSON files, only used by the 'file' storage
+}
+
+export interface RefineCheckpoint {
+	settingsHash: string;
+	summary: string;
+	nextIndex: number; // First document that is not part of the summary yet
+	failedChunks: FailedChunk[];
+	updatedAt: number;
+}
+
+export interface CheckpointStore {
+	get(key: string): Promise<RefineCheckpoint | undefined>;
+	set(key: string, checkpoint: RefineCheckpoint): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+function hash(value: unknown): string {
+	return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+/**
+ * Identifies the item being refined by its documents, so re-running the same item finds
+ * its checkpoint.
+ */
+export function createCheckpointKey(documents: Document[]): string {
+	return hash(documents.map((doc) => doc.pageContent));
+}
+
+/**
+ * Hashes everything that shapes the summary besides the documents. A checkpoint saved with
+ * other settings is discarded instead of resumed.
+ */
+export function createSettingsHash(settings: Record<string, unknown>): string {
+	return hash(settings);
+}
+
+// Property of the node's static data holding the checkpoints by key
+const STATIC_DATA_KEY = 'refineCheckpoints';
+
+/**
+ * Keeps checkpoints in the node's workflow static data. n8n only persists static data of
+ * production executions, so manual runs cannot resume from it.
+ */
+export class StaticDataCheckpointStore implements CheckpointStore {
+	constructor(private readonly staticData: IDataObject) {}
+
+	async get(key: string): Promise<RefineCheckpoint | undefined> {
+		return getStaticDataEntries<RefineCheckpoint>(this.staticData, STATIC_DATA_KEY)[key];
+	}
+
+	async set(key: string, checkpoint: RefineCheckpoint): Promise<void> {
+		updateStaticDataEntries<RefineCheckpoint>(this.staticData, STATIC_DATA_KEY, (entries) => ({
+			...entries,
+			[key]: checkpoint,
+		}));
+	}
+
+	async delete(key: string): Promise<void> {
+		updateStaticDataEntries<RefineCheckpoint>(
+			this.staticData,
+			STATIC_DATA_KEY,
+			({ [key]: _, ...entries }) => entries,
+		);
+	}
+}
+
+// Writes to the same file are chained so concurrent items do not overwrite each other
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * Keeps each checkpoint in its own JSON file of a local folder, which also works for manual
+ * executions. A refine step only rewrites the file of its own checkpoint.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+	constructor(private readonly directory: string = DEFAULT_CHECKPOINT_DIRECTORY) {}
+
+	async get(key: string): Promise<RefineCheckpoint | undefined> {
+		const filePath = this.getFilePath(key);
+		await pendingWrites.get(filePath);
+		try {
+			return JSON.parse(await readFile(filePath, 'utf8'));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	async set(key: string, checkpoint: RefineCheckpoint): Promise<void> {
+		await this.write(key, async (filePath) => {
+			await mkdir(this.directory, { recursive: true });
+			// Write a temporary file first so a crash never leaves a half written checkpoint
+			const tempPath = `${filePath}.tmp`;
+			await writeFile(tempPath, JSON.stringify(checkpoint), 'utf8');
+			await rename(tempPath, filePath);
+		});
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.write(key, async (filePath) => await rm(filePath, { force: true }));
+	}
+
+	private async write(key: string, change: (filePath: string) => Promise<void>): Promise<void> {
+		const filePath = this.getFilePath(key);
+		const previous = pendingWrites.get(filePath) ?? Promise.resolve();
+		const write = previous.catch(() => {}).then(async () => await change(filePath));
+		pendingWrites.set(filePath, write);
+		try {
+			await write;
+		} finally {
+			// Forget finished writes, one entry per checkpoint would otherwise pile up
+			if (pendingWrites.get(filePath) === write) {
+				pendingWrites.delete(filePath);
+			}
+		}
+	}
+
+	private getFilePath(key: string): string {
+		return path.join(this.directory, `${key}.json`);
+	}
+}
+
+export function createCheckpointStore(
+	settings: CheckpointSettings | undefined,
+	staticData: () => IDataObject,
+): CheckpointStore | undefined {
+	switch (settings?.storage) {
+		case 'staticData':
+			return new StaticDataCheckpointStore(staticData());
+		case 'file':
+			return new FileCheckpointStore(settings.directory || DEFAULT_CHECKPOINT_DIRECTORY);
+		default:
+			return undefined;
+	}
+}
@@ -0,0 +1,38 @@
+import { SummarizationCancelledError } from './cancellation';
+
+// 'skip' leaves failed chunks out of the summary instead of failing the whole item
+export type ChunkErrorPolicy = 'fail' | 'skip';
+
+export interface FailedChunk {
+	chunkIndex: number; // Score failures count among all chunks, the others among the summarized ones
+	step: 'score' | 'map' | 'initial' | 'refine';
+	metadata: Record<string, unknown>;
+	error: string;
+}
+
+export class AllChunksFailedError extends Error {
+	constructor(readonly failedChunks: FailedChunk[]) {
+		super(
+			`All ${failedChunks.length} chunks failed to summarize. First error: ${failedChunks[0]?.error}`,
+		);
+		this.name = 'AllChunksFailedError';
+	}
+}
+
+/**
+ * Cancellation always stops the whole item, every other chunk error can be skipped.
+ */
+export function isSkippableChunkError(error: unknown): boolean {
+	return !(error instanceof SummarizationCancelledError);
+}
+
+export function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Share of the chunks that made it into the summary, between 0 and 1.
+ */
+export function getCoverage(chunkCount: number, failedCount: number): number {
+	return chunkCount === 0 ? 1 : (chunkCount - failedCount) / chunkCount;
+}
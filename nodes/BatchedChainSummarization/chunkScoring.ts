@@ -0,0 +1,191 @@
+export type ChunkScoring = 'llm' | 'tfidf' | 'textrank';
+export type PreselectionSummarization = 'map_reduce' | 'stuff';
+
+export interface PreselectionSettings {
+	scoring?: ChunkScoring;
+	topK?: number; // 0 keeps every chunk that fits into the token budget
+	tokenBudget?: number; // 0 means no budget
+	summarizeWith?: PreselectionSummarization;
+}
+
+type TermVector = Map<string, number>;
+
+// Runs of letters and digits in any script
+const WORD = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text: string): string[] {
+	return (text.toLowerCase().match(WORD) ?? []).filter((word) => word.length > 1);
+}
+
+/**
+ * TF-IDF vectors of the texts. Terms found in every text, such as a header repeated on each
+ * page, weigh nothing.
+ */
+export function createTfIdfVectors(texts: string[]): TermVector[] {
+	const termCounts = texts.map((text) => {
+		const counts = new Map<string, number>();
+		for (const word of tokenize(text)) {
+			counts.set(word, (counts.get(word) ?? 0) + 1);
+		}
+		return counts;
+	});
+
+	const documentFrequency = new Map<string, number>();
+	for (const counts of termCounts) {
+		for (const term of counts.keys()) {
+			documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+		}
+	}
+
+	return termCounts.map((counts) => {
+		const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+		const vector: TermVector = new Map();
+		for (const [term, count] of counts) {
+			const weight = (count / total) * Math.log(texts.length / documentFrequency.get(term)!);
+			if (weight > 0) {
+				vector.set(term, weight);
+			}
+		}
+		return vector;
+	});
+}
+
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+	// Iterate over the smaller vector, only shared terms add to the dot product
+	const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+	let dot = 0;
+	for (const [term, weight] of small) {
+		dot += weight * (large.get(term) ?? 0);
+	}
+
+	const norm = (vector: TermVector) =>
+		Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+	const denominator = norm(a) * norm(b);
+	return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Scores each text by the similarity of its TF-IDF vector to the centroid of the other
+ * texts, so texts about the main topics score high. Boilerplate scores low, as its words
+ * are either found everywhere or nowhere else.
+ */
+export function scoreByTfIdf(texts: string[]): number[] {
+	const vectors = createTfIdfVectors(texts);
+	const centroid: TermVector = new Map();
+	for (const vector of vectors) {
+		for (const [term, weight] of vector) {
+			centroid.set(term, (centroid.get(term) ?? 0) + weight);
+		}
+	}
+
+	const centroidNormSquared = sumOfSquares(centroid);
+
+	// The others are the centroid minus the vector itself, so only the vector's own terms
+	// need a look: v·(C - v) = v·C - |v|² and |C - v|² = |C|² - 2 v·C + |v|²
+	return vectors.map((vector) => {
+		let dotCentroid = 0;
+		for (const [term, weight] of vector) {
+			dotCentroid += weight * centroid.get(term)!;
+		}
+		const normSquared = sumOfSquares(vector);
+		const othersNormSquared = centroidNormSquared - 2 * dotCentroid + normSquared;
+		// Rounding leaves a tiny remainder when the others add up to nothing
+		if (normSquared === 0 || othersNormSquared <= centroidNormSquared * 1e-12) {
+			return 0;
+		}
+		return (dotCentroid - normSquared) / Math.sqrt(normSquared * othersNormSquared);
+	});
+}
+
+function sumOfSquares(vector: TermVector): number {
+	let sum = 0;
+	for (const weight of vector.values()) {
+		sum += weight * weight;
+	}
+	return sum;
+}
+
+/**
+ * Scores each text with TextRank: PageRank over a graph whose edges are the TF-IDF cosine
+ * similarities between the texts. Texts many others resemble score high. The graph has an
+ * edge per pair of texts, so the work grows with the square of their number.
+ */
+export function scoreByTextRank(
+	texts: string[],
+	damping = 0.85,
+	maxIterations = 50,
+	tolerance = 1e-6,
+): number[] {
+	const count = texts.length;
+	if (count === 0) {
+		return [];
+	}
+
+	const vectors = createTfIdfVectors(texts);
+	const weights = vectors.map((a, i) =>
+		vectors.map((b, j) => (i === j ? 0 : cosineSimilarity(a, b))),
+	);
+	const outgoing = weights.map((row) => row.reduce((sum, weight) => sum + weight, 0));
+
+	let scores = new Array<number>(count).fill(1 / count);
+	for (let iteration = 0; iteration < maxIterations; iteration++) {
+		const next = scores.map((_, i) => {
+			let rank = 0;
+			for (let j = 0; j < count; j++) {
+				if (outgoing[j] > 0) {
+					rank += (weights[j][i] / outgoing[j]) * scores[j];
+				}
+			}
+			return (1 - damping) / count + damping * rank;
+		});
+
+		const change = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+		scores = next;
+		if (change < tolerance) {
+			break;
+		}
+	}
+	return scores;
+}
+
+/**
+ * Reads the first number of a scoring answer, clamped to the 0 to 10 scale. Answers without
+ * a number score 0.
+ */
+export function parseRelevanceScore(answer: string): number {
+	const match = answer.match(/-?\d+(\.\d+)?/);
+	return match ? Math.min(10, Math.max(0, Number(match[0]))) : 0;
+}
+
+/**
+ * Picks the best scored chunks, at most topK and within the token budget, and returns their
+ * indices in document order. Chunks without a score are never picked. The best chunk is
+ * always kept, even when it alone exceeds the budget.
+ */
+export function selectTopChunks(
+	scores: Array<number | undefined>,
+	tokenCounts: number[],
+	topK: number,
+	tokenBudget: number,
+): number[] {
+	const ranked = scores
+		.map((score, index) => ({ score, index }))
+		.filter((chunk): chunk is { score: number; index: number } => chunk.score !== undefined)
+		// Equal scores keep the document order
+		.sort((a, b) => b.score - a.score || a.index - b.index);
+
+	const selected: number[] = [];
+	let tokens = 0;
+	for (const { index } of ranked) {
+		if (topK > 0 && selected.length >= topK) {
+			break;
+		}
+		if (tokenBudget > 0 && selected.length > 0 && tokens + tokenCounts[index] > tokenBudget) {
+			continue;
+		}
+		selected.push(index);
+		tokens += tokenCounts[index];
+	}
+
+	return selected.sort((a, b) => a - b);
+}
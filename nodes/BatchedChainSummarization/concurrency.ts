@@ -0,0 +1,47 @@
+import { throwIfCancelled } from './cancellation';
+
+/**
+ * Runs the worker over all items with at most `concurrency` calls in flight. A new item starts
+ * as soon as any call finishes, and results are returned in the order of the input items.
+ * Once a call fails no new item starts, and the signal handed to the workers fires so calls
+ * still in flight can stop too.
+ */
+export async function runWithConcurrency<T, R>(
+	items: T[],
+	concurrency: number,
+	worker: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+	signal?: AbortSignal,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let nextIndex = 0;
+
+	// Fires on the first failure or when the caller cancels
+	const controller = new AbortController();
+	const onCancel = () => controller.abort();
+	signal?.addEventListener('abort', onCancel, { once: true });
+
+	const runWorker = async () => {
+		while (nextIndex < items.length) {
+			throwIfCancelled(signal);
+			if (controller.signal.aborted) {
+				return;
+			}
+			const index = nextIndex++;
+			try {
+				results[index] = await worker(items[index], index, controller.signal);
+			} catch (error) {
+				controller.abort();
+				throw error;
+			}
+		}
+	};
+
+	try {
+		const workerCount = Math.max(1, Math.min(concurrency, items.length));
+		await Promise.all(Array.from({ length: workerCount }, runWorker));
+	} finally {
+		signal?.removeEventListener('abort', onCancel);
+	}
+
+	return results;
+}
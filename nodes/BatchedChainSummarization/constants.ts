@@ -5,6 +5,7 @@
 // Batching configuration
 export const DEFAULT_BATCH_SIZE = 5; // Default used in n8n node UI
 export const DEFAULT_DELAY_BETWEEN_BATCHES = 0;
+export const DEFAULT_SCHEDULING_MODE = 'batch' as const;
 
 // Validation limits
 export const MIN_BATCH_SIZE = 1;
@@ -12,5 +13,61 @@ export const MIN_DELAY = 0;
 export const MAX_BATCH_SIZE = 1000; // Reasonable upper limit
 export const MAX_DELAY = 600000; // 10 minutes max delay
 
+// Collapse configuration (map_reduce combine step)
+export const DEFAULT_TOKEN_MAX = 3000; // Same default as LangChain's MapReduceDocumentsChain
+export const MIN_TOKEN_MAX = 100;
+
+// Output size enforcement, 'retry' keeps the behavior from before the option existed
+export const DEFAULT_SIZE_ENFORCEMENT = 'retry' as const;
+
+// Parallel refine: contiguous segments refined at the same time before they are merged
+export const DEFAULT_REFINE_SEGMENTS = 4;
+export const MIN_REFINE_SEGMENTS = 1;
+
+// Map rerank: chunks kept for summarization after scoring their relevance
+export const DEFAULT_PRESELECTION_TOP_K = 10;
+
+// Extractive summarization: sentences picked without an output size, and the most sentences
+// TextRank compares pairwise before the ranking falls back to TF-IDF
+export const DEFAULT_EXTRACTIVE_SENTENCES = 5;
+export const MAX_TEXTRANK_SENTENCES = 2000;
+
+// Hierarchical summarization: metadata keys that nest chunks, outermost level first
+export const DEFAULT_HIERARCHY_KEYS = ['source', 'section', 'loc.pageNumber'];
+
+// Attempts to get JSON matching the output schema, including the first answer
+export const STRUCTURED_OUTPUT_MAX_ATTEMPTS = 3;
+
+// Retry configuration for transient model errors
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY = 1000;
+export const DEFAULT_RETRY_MAX_DELAY = 30000;
+export const MAX_RETRY_ATTEMPTS = 10;
+
+// Fallback models, failed calls in a row before the next model takes over
+export const DEFAULT_FALLBACK_AFTER_FAILURES = 2;
+export const MIN_FALLBACK_AFTER_FAILURES = 1;
+export const MAX_FALLBACK_MODELS = 5;
+
+// Chunk summary cache
+export const MAX_MEMORY_CACHE_ENTRIES = 10000;
+export const DEFAULT_CACHE_FILE_PATH = 'batched-summarization-cache.sqlite';
+
+// Group by field, number of groups summarized at the same time
+export const DEFAULT_GROUP_CONCURRENCY = 2;
+
+// Previous summary of incremental runs, read from this item field or saved under this key
+export const DEFAULT_PREVIOUS_SUMMARY_FIELD = 'summary';
+export const DEFAULT_PREVIOUS_SUMMARY_KEY = 'default';
+
+// Refine checkpoints
+export const DEFAULT_CHECKPOINT_DIRECTORY = 'batched-summarization-checkpoints';
+
+// Token counting, used for models the tokenizer registry does not know
+export const DEFAULT_TOKENIZER_ENCODING = 'cl100k_base' as const;
+
 // Default summarization method
 export const DEFAULT_SUMMARIZATION_METHOD = 'map_reduce' as const;
+
+// What happens when a single chunk fails, 'fail' keeps the behavior from before the option existed
+export const DEFAULT_CHUNK_ERROR_POLICY = 'fail' as const;
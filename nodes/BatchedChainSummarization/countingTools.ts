@@ -1,24 +1,21 @@
 import { Tool } from '@langchain/core/tools';
-import { encodingForModel } from 'js-tiktoken';
+
+import { ModelTokenizer } from './tokenizer';
 
 export class TokenCounterTool extends Tool {
 	name = 'token_counter';
 	description = 'Count the number of tokens in a given text. Use this to check if your response fits within token limits.';
 
-	constructor() {
+	private tokenizer: ModelTokenizer;
+
+	constructor(tokenizer: ModelTokenizer = new ModelTokenizer()) {
 		super();
+		this.tokenizer = tokenizer;
 	}
 
 	async _call(text: string): Promise<string> {
-		try {
-			const encoding = encodingForModel('gpt-3.5-turbo');
-			const tokens = encoding.encode(text);
-			return tokens.length.toString();
-		} catch {
-			// Fallback to approximate token count
-			const approximateTokens = Math.ceil(text.length / 4);
-			return approximateTokens.toString();
-		}
+		const tokens = await this.tokenizer.countTokens(text);
+		return tokens.toString();
 	}
 }
 
@@ -41,11 +38,17 @@ export class ResponseValidatorTool extends Tool {
 
 	private maxSize: number;
 	private unit: 'tokens' | 'characters';
+	private tokenizer: ModelTokenizer;
 
-	constructor(maxSize: number, unit: 'tokens' | 'characters') {
+	constructor(
+		maxSize: number,
+		unit: 'tokens' | 'characters',
+		tokenizer: ModelTokenizer = new ModelTokenizer(),
+	) {
 		super();
 		this.maxSize = maxSize;
 		this.unit = unit;
+		this.tokenizer = tokenizer;
 	}
 
 	async _call(input: string): Promise<string> {
@@ -54,13 +57,7 @@ export class ResponseValidatorTool extends Tool {
 
 		let actualSize: number;
 		if (this.unit === 'tokens') {
-			try {
-				const encoding = encodingForModel('gpt-3.5-turbo');
-				const tokens = encoding.encode(text);
-				actualSize = tokens.length;
-			} catch {
-				actualSize = Math.ceil(text.length / 4);
-			}
+			actualSize = await this.tokenizer.countTokens(text);
 		} else {
 			actualSize = text.length;
 		}
@@ -0,0 +1,81 @@
+import { scoreByTextRank, scoreByTfIdf } from './chunkScoring';
+import { MAX_TEXTRANK_SENTENCES } from './constants';
+import { findBoundaries } from './truncation';
+
+export type SentenceRanking = 'textrank' | 'tfidf';
+
+export interface ExtractiveSettings {
+	ranking?: SentenceRanking;
+	fallback?: boolean; // Answer with an extractive summary when the model based method fails
+}
+
+export interface RankedSentence {
+	text: string;
+	index: number; // Position among all sentences, in document order
+	score: number;
+}
+
+/**
+ * Splits the text at sentence ends and line breaks. Fragments without a letter or digit,
+ * such as list markers, are dropped.
+ */
+export function splitSentences(text: string): string[] {
+	const sentences: string[] = [];
+	let start = 0;
+	for (const end of findBoundaries(text)) {
+		const sentence = text.slice(start, end).replace(/\s+/g, ' ').trim();
+		if (/[\p{L}\p{N}]/u.test(sentence)) {
+			sentences.push(sentence);
+		}
+		start = end;
+	}
+	return sentences;
+}
+
+/**
+ * Ranks the sentences of all texts by centrality, best first. A sentence repeated across
+ * texts, e.g. a header or the overlap of two chunks, is only ranked once. TextRank compares
+ * every pair of sentences, so longer texts are ranked with TF-IDF instead.
+ */
+export function rankSentences(texts: string[], ranking: SentenceRanking): RankedSentence[] {
+	const sentences = [...new Set(texts.flatMap(splitSentences))];
+	const scores =
+		ranking === 'textrank' && sentences.length <= MAX_TEXTRANK_SENTENCES
+			? scoreByTextRank(sentences)
+			: scoreByTfIdf(sentences);
+
+	return sentences
+		.map((text, index) => ({ text, index, score: scores[index] }))
+		.sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * Picks the best ranked sentences that fit into maxSize together, or the best maxSentences
+ * without a size, and returns them in document order. Sentences that do not fit are skipped
+ * in favour of shorter ones further down the ranking.
+ */
+export async function selectSentences(
+	ranked: RankedSentence[],
+	measure: (text: string) => Promise<number>,
+	maxSize: number | undefined,
+	maxSentences: number,
+): Promise<RankedSentence[]> {
+	const inDocumentOrder = (sentences: RankedSentence[]) =>
+		[...sentences].sort((a, b) => a.index - b.index);
+	if (!maxSize) {
+		return inDocumentOrder(ranked.slice(0, maxSentences));
+	}
+
+	const selected: RankedSentence[] = [];
+	for (const sentence of ranked) {
+		const candidate = inDocumentOrder([...selected, sentence]);
+		if ((await measure(joinSentences(candidate))) <= maxSize) {
+			selected.push(sentence);
+		}
+	}
+	return inDocumentOrder(selected);
+}
+
+export function joinSentences(sentences: RankedSentence[]): string {
+	return sentences.map((sentence) => sentence.text).join(' ');
+}
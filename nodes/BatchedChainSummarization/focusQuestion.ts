@@ -0,0 +1,25 @@
+import { NOT_RELEVANT_ANSWER } from './prompt';
+
+/**
+ * Whether a focused map step answered that its chunk does not help to answer the question.
+ * Models tend to vary the marker, so case, spaces and surrounding punctuation are ignored.
+ */
+export function isNotRelevantAnswer(text: string): boolean {
+	const normalized = text
+		.trim()
+		.replace(/^[\s"'`*.]+|[\s"'`*.]+$/g, '')
+		.replace(/[\s-]+/g, '_')
+		.toUpperCase();
+	return normalized === NOT_RELEVANT_ANSWER;
+}
+
+/**
+ * Adds the focus question to the variables of a prompt when one is set. Prompts without a
+ * {question} variable ignore it.
+ */
+export function withQuestion(
+	variables: Record<string, string>,
+	question: string | undefined,
+): Record<string, string> {
+	return question ? { ...variables, question } : variables;
+}
@@ -0,0 +1,117 @@
+import type { Document } from '@langchain/core/documents';
+
+export interface DocumentGroup {
+	key: string;
+	value: unknown;
+	depth: number;
+	chunkIndices: number[]; // Indices of the chunks in the group, in document order
+	children: DocumentGroup[]; // Empty on the last grouping level
+}
+
+export interface OutlineSection {
+	key: string;
+	value: unknown;
+	summary: string;
+	chunkCount: number;
+	sections?: OutlineSection[];
+}
+
+/**
+ * Reads a metadata value by dotted path, e.g. 'loc.pageNumber' as set by the PDF loader.
+ */
+export function getMetadataValue(metadata: Record<string, unknown>, path: string): unknown {
+	return path.split('.').reduce<unknown>((value, key) => {
+		if (value === null || typeof value !== 'object') {
+			return undefined;
+		}
+		return (value as Record<string, unknown>)[key];
+	}, metadata);
+}
+
+/**
+ * Partitions the values by the key read from each. Groups keep the order in which their first
+ * value appears, and values without a key form one group.
+ */
+export function groupBy<T>(
+	values: T[],
+	getKey: (value: T) => unknown,
+): Array<{ key: unknown; values: T[] }> {
+	const groups = new Map<string, { key: unknown; values: T[] }>();
+
+	for (const value of values) {
+		const key = getKey(value);
+		// Compare by serialized key so numbers and objects group like their text
+		const groupId = JSON.stringify(key ?? null);
+		let group = groups.get(groupId);
+		if (!group) {
+			group = { key, values: [] };
+			groups.set(groupId, group);
+		}
+		group.values.push(value);
+	}
+
+	return [...groups.values()];
+}
+
+/**
+ * Keeps the grouping keys present on at least one document, so missing levels are skipped.
+ */
+export function getPresentKeys(documents: Document[], keys: string[]): string[] {
+	return keys.filter((key) =>
+		documents.some((doc) => getMetadataValue(doc.metadata ?? {}, key) !== undefined),
+	);
+}
+
+/**
+ * Nests the chunks by the metadata keys, one level per key. Groups keep the order in which
+ * their first chunk appears, and chunks without a value form their own group.
+ */
+export function groupDocumentsByMetadata(
+	documents: Document[],
+	keys: string[],
+	chunkIndices: number[] = documents.map((_, index) => index),
+	depth = 0,
+): DocumentGroup[] {
+	if (depth >= keys.length) {
+		return [];
+	}
+
+	const key = keys[depth];
+	return groupBy(chunkIndices, (index) =>
+		getMetadataValue(documents[index].metadata ?? {}, key),
+	).map(({ key: value, values: groupIndices }) => ({
+		key,
+		value,
+		depth,
+		chunkIndices: groupIndices,
+		children: groupDocumentsByMetadata(documents, keys, groupIndices, depth + 1),
+	}));
+}
+
+/**
+ * Lists the groups of every level, deepest level first, so each group can be summarized
+ * after all of its children.
+ */
+export function getGroupsBottomUp(groups: DocumentGroup[]): DocumentGroup[][] {
+	const levels: DocumentGroup[][] = [];
+	const visit = (group: DocumentGroup) => {
+		(levels[group.depth] ??= []).push(group);
+		group.children.forEach(visit);
+	};
+	groups.forEach(visit);
+
+	return levels.reverse();
+}
+
+export function buildOutline(
+	groups: DocumentGroup[],
+	summaries: Map<DocumentGroup, string>,
+): OutlineSection[] {
+	return groups.map((group) => ({
+		key: group.key,
+		value: group.value,
+		summary: summaries.get(group) ?? '',
+		chunkCount: group.chunkIndices.length,
+		...(group.children.length > 0 && { sections: buildOutline(group.children, summaries) }),
+	}));
+}
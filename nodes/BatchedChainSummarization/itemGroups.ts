@@ -0,0 +1,22 @@
+import type { IDataObject, INodeExecutionData } from 'n8n-workflow';
+
+import { getMetadataValue, groupBy } from './hierarchy';
+
+export interface ItemGroup {
+	key: IDataObject[string]; // Value of the group by field, null for items without it
+	itemIndices: number[];
+}
+
+/**
+ * Partitions the items by the value at a dotted JSON path, e.g. 'customer.id'. Groups keep
+ * the order in which their first item appears, and items without a value form their own group.
+ */
+export function groupItemsByField(items: INodeExecutionData[], field: string): ItemGroup[] {
+	return groupBy(
+		items.map((_, itemIndex) => itemIndex),
+		(itemIndex) => getMetadataValue(items[itemIndex].json, field),
+	).map(({ key, values }) => ({
+		key: (key ?? null) as IDataObject[string],
+		itemIndices: values,
+	}));
+}
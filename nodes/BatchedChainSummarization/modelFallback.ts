@@ -0,0 +1,82 @@
+import type { BaseLanguageModel } from '@langchain/core/language_models/base';
+
+import { getErrorMessage } from './chunkFailures';
+import { isProviderError } from './retry';
+import { getModelName } from './tokenUsage';
+
+export interface ModelSwitch {
+	from: string;
+	to: string;
+	failures: number; // Consecutive failed calls that triggered the switch
+	error: string; // Error of the last failed call
+}
+
+/**
+ * Models in priority order. Calls go to the active model, and after switchAfterFailures
+ * failed calls in a row the next model takes over for the rest of the run.
+ */
+export class ModelFallbackChain {
+	private activeIndex = 0;
+	private consecutiveFailures = 0;
+	readonly switches: ModelSwitch[] = [];
+
+	constructor(
+		private models: BaseLanguageModel[],
+		private readonly switchAfterFailures: number,
+	) {}
+
+	get active(): { model: BaseLanguageModel; index: number } {
+		return { model: this.models[this.activeIndex], index: this.activeIndex };
+	}
+
+	hasFallbacks(): boolean {
+		return this.models.length > 1;
+	}
+
+	onSuccess(index: number): void {
+		if (index === this.activeIndex) {
+			this.consecutiveFailures = 0;
+		}
+	}
+
+	/**
+	 * Counts a failed call of the model at index. Returns whether the call should be repeated
+	 * with the active model, which is the next one once enough calls failed in a row. Only
+	 * provider errors count, anything else (bad request, cancellation) is not the model's fault.
+	 */
+	onFailure(index: number, error: unknown): boolean {
+		if (!this.hasFallbacks() || !isProviderError(error)) {
+			return false;
+		}
+		// A concurrent call already moved past this model
+		if (index !== this.activeIndex) {
+			return true;
+		}
+
+		this.consecutiveFailures++;
+		if (this.consecutiveFailures < this.switchAfterFailures) {
+			return true;
+		}
+		if (index + 1 >= this.models.length) {
+			return false;
+		}
+
+		this.switches.push({
+			from: getModelName(this.models[index]),
+			to: getModelName(this.models[index + 1]),
+			failures: this.consecutiveFailures,
+			error: getErrorMessage(error),
+		});
+		this.activeIndex++;
+		this.consecutiveFailures = 0;
+		return true;
+	}
+
+	withConfig(config: any): void {
+		this.models = this.models.map((model) =>
+			typeof model.withConfig === 'function'
+				? (model.withConfig(config) as BaseLanguageModel)
+				: model,
+		);
+	}
+}
@@ -0,0 +1,292 @@
+import type { BaseLanguageModel } from '@langchain/core/language_models/base';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { type IExecuteFunctions, NodeOperationError } from 'n8n-workflow';
+
+import type {
+	BatchedSummarizationChainParams,
+	SchedulingMode,
+	SizeEnforcementStrategy,
+	SizeMeasurement,
+	SummarizationType,
+} from './batchedSummarizationChain';
+import { createSummaryCache, type CacheSettings } from './cache';
+import { createCheckpointStore, type CheckpointSettings } from './checkpoint';
+import type { ExtractiveSettings } from './extractiveSummary';
+import type { ChunkErrorPolicy } from './chunkFailures';
+import type { PreselectionSettings } from './chunkScoring';
+import { getPreviousSummary, type PreviousSummarySettings } from './previousSummary';
+import { DEFAULT_PROMPT_TEMPLATE, REFINE_PROMPT_TEMPLATE } from './prompt';
+import { AdaptiveRateLimiter, type RateLimitSettings } from './rateLimiter';
+import type { RetryPolicy } from './retry';
+import type { JsonSchema } from './structuredOutput';
+import type { TokenizerEncoding } from './tokenizer';
+import type { ModelPricing } from './tokenUsage';
+import {
+	DEFAULT_BATCH_SIZE,
+	DEFAULT_CHUNK_ERROR_POLICY,
+	DEFAULT_DELAY_BETWEEN_BATCHES,
+	DEFAULT_FALLBACK_AFTER_FAILURES,
+	DEFAULT_REFINE_SEGMENTS,
+	DEFAULT_SCHEDULING_MODE,
+	DEFAULT_SIZE_ENFORCEMENT,
+	DEFAULT_TOKEN_MAX,
+	MAX_BATCH_SIZE,
+	MIN_BATCH_SIZE,
+} from './constants';
+
+/**
+ * Values of the 'Summarization Method and Prompts' option. The UI stores both the map_reduce
+ * combine prompt and the stuff prompt under 'prompt', the selected method decides which it is.
+ * Map rerank uses it for both, as it summarizes the kept chunks with either.
+ */
+export interface SummarizationMethodAndPrompts {
+	summarizationMethod?: SummarizationType;
+	combineMapPrompt?: string;
+	prompt?: string;
+	refinePrompt?: string;
+	refineQuestionPrompt?: string;
+}
+
+type PromptParameters = Pick<
+	BatchedSummarizationChainParams,
+	'type' | 'combineMapPrompt' | 'combinePrompt' | 'prompt' | 'refinePrompt' | 'questionPrompt'
+>;
+
+function createPrompt(template: string | undefined, inputVariables: string[]) {
+	if (!template) {
+		return undefined;
+	}
+	// The chain fills in the focus question, an empty one when the item has none
+	return template.includes('{question}')
+		? new PromptTemplate({ template, inputVariables, partialVariables: { question: '' } })
+		: new PromptTemplate({ template, inputVariables });
+}
+
+/**
+ * Maps the method and prompts of the UI to the chain. Prompts left empty or unchanged from
+ * the UI defaults fall back to the chain defaults, which carry the output size guidelines and
+ * the focus question.
+ */
+export function getPromptParameters(
+	methodAndPrompts: SummarizationMethodAndPrompts,
+): PromptParameters {
+	const values = withoutStockPrompts(methodAndPrompts);
+	const type = values.summarizationMethod ?? 'map_reduce';
+
+	switch (type) {
+		case 'stuff':
+			return { type, prompt: createPrompt(values.prompt, ['text']) };
+		case 'map_rerank': {
+			const prompt = createPrompt(values.prompt, ['text']);
+			return {
+				type,
+				combineMapPrompt: createPrompt(values.combineMapPrompt, ['text']),
+				combinePrompt: prompt,
+				prompt,
+			};
+		}
+		case 'refine':
+		case 'parallel_refine':
+			return {
+				type,
+				questionPrompt: createPrompt(values.refineQuestionPrompt, ['text']),
+				refinePrompt: createPrompt(values.refinePrompt, ['existing_answer', 'text']),
+			};
+		default:
+			// Hierarchical summaries use the map_reduce prompts for chunks and sections
+			return {
+				type,
+				combineMapPrompt: createPrompt(values.combineMapPrompt, ['text']),
+				combinePrompt: createPrompt(values.prompt, ['text']),
+			};
+	}
+}
+
+function withoutStockPrompts(values: SummarizationMethodAndPrompts): SummarizationMethodAndPrompts {
+	const stockPrompts = [DEFAULT_PROMPT_TEMPLATE, REFINE_PROMPT_TEMPLATE];
+	return Object.fromEntries(
+		Object.entries(values).map(([name, value]) => [
+			name,
+			stockPrompts.includes(value) ? undefined : value,
+		]),
+	);
+}
+
+function getOutputSchema(ctx: IExecuteFunctions, itemIndex: number): JsonSchema | undefined {
+	const rawSchema = ctx.getNodeParameter('options.outputSchema', itemIndex, '') as
+		| string
+		| JsonSchema;
+	if (typeof rawSchema !== 'string') {
+		return rawSchema;
+	}
+	if (rawSchema.trim() === '') {
+		return undefined;
+	}
+
+	try {
+		return JSON.parse(rawSchema) as JsonSchema;
+	} catch (error) {
+		throw new NodeOperationError(ctx.getNode(), 'Output JSON Schema is not valid JSON', {
+			itemIndex,
+			description: (error as Error).message,
+		});
+	}
+}
+
+/**
+ * Reads where incremental runs keep the summary they update.
+ */
+export function getPreviousSummarySettings(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+): PreviousSummarySettings {
+	return ctx.getNodeParameter(
+		'options.previousSummary.values',
+		itemIndex,
+		{},
+	) as PreviousSummarySettings;
+}
+
+/**
+ * Builds the rate limiter shared by all chains of one execution from the settings of the
+ * first item, so items and groups summarized side by side stay within the same budget.
+ */
+export function createRateLimiter(ctx: IExecuteFunctions): AdaptiveRateLimiter | undefined {
+	const rateLimit = ctx.getNodeParameter('options.rateLimit.values', 0, {}) as RateLimitSettings;
+	if (!AdaptiveRateLimiter.isEnabled(rateLimit)) {
+		return undefined;
+	}
+	// Same bounds as the batch size of the chains
+	const batchSize = ctx.getNodeParameter('batchSize', 0, DEFAULT_BATCH_SIZE) as number;
+	return new AdaptiveRateLimiter(
+		rateLimit,
+		Math.max(MIN_BATCH_SIZE, Math.min(MAX_BATCH_SIZE, Math.floor(batchSize))),
+	);
+}
+
+/**
+ * Reads every chain related property of the node for one item.
+ */
+export function getChainParameters(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	model: BaseLanguageModel | undefined,
+): BatchedSummarizationChainParams {
+	const methodAndPrompts = ctx.getNodeParameter(
+		'options.summarizationMethodAndPrompts.values',
+		itemIndex,
+		{},
+	) as SummarizationMethodAndPrompts;
+
+	// Metadata keys that nest the chunks of the hierarchical method, outermost first
+	const hierarchyKeys = (ctx.getNodeParameter('options.hierarchyKeys', itemIndex, '') as string)
+		.split(',')
+		.map((key) => key.trim())
+		.filter((key) => key.length > 0);
+
+	// Optional cache of chunk summaries shared across executions
+	const cacheSettings = ctx.getNodeParameter(
+		'options.cache.values',
+		itemIndex,
+		{},
+	) as CacheSettings;
+
+	// Where refine saves its progress to resume from
+	const checkpointSettings = ctx.getNodeParameter(
+		'options.refineCheckpoint.values',
+		itemIndex,
+		{},
+	) as CheckpointSettings;
+
+	// How map_rerank scores and picks the chunks, the score prompt only matters for 'llm'
+	const { scorePrompt, ...preselection } = ctx.getNodeParameter(
+		'options.preselection.values',
+		itemIndex,
+		{},
+	) as PreselectionSettings & { scorePrompt?: string };
+
+	// Question the summary should answer, evaluated per item
+	const question =
+		(ctx.getNodeParameter('options.focusQuestion', itemIndex, '') as string).trim() || undefined;
+
+	return {
+		...getPromptParameters(methodAndPrompts),
+		model,
+		batchSize: ctx.getNodeParameter('batchSize', itemIndex, DEFAULT_BATCH_SIZE) as number,
+		delayBetweenBatches: ctx.getNodeParameter(
+			'delayBetweenBatches',
+			itemIndex,
+			DEFAULT_DELAY_BETWEEN_BATCHES,
+		) as number,
+		schedulingMode: ctx.getNodeParameter(
+			'options.schedulingMode',
+			itemIndex,
+			DEFAULT_SCHEDULING_MODE,
+		) as SchedulingMode,
+		outputSize: ctx.getNodeParameter('outputSize', itemIndex, undefined) as number | undefined,
+		sizeMeasurement: ctx.getNodeParameter(
+			'sizeMeasurement',
+			itemIndex,
+			'characters',
+		) as SizeMeasurement,
+		sizeEnforcement: ctx.getNodeParameter(
+			'sizeEnforcement',
+			itemIndex,
+			DEFAULT_SIZE_ENFORCEMENT,
+		) as SizeEnforcementStrategy,
+		// Encoding used to count tokens, 'auto' picks it from the connected model
+		tokenizer: ctx.getNodeParameter('options.tokenizer', itemIndex, 'auto') as TokenizerEncoding,
+		tokenMax: ctx.getNodeParameter('options.tokenMax', itemIndex, DEFAULT_TOKEN_MAX) as number,
+		hierarchyKeys,
+		refineSegments: ctx.getNodeParameter(
+			'options.refineSegments',
+			itemIndex,
+			DEFAULT_REFINE_SEGMENTS,
+		) as number,
+		// JSON Schema of the structured output mode, empty for a free text summary
+		outputSchema: getOutputSchema(ctx, itemIndex),
+		returnIntermediateSteps: ctx.getNodeParameter(
+			'options.returnIntermediateSteps',
+			itemIndex,
+			false,
+		) as boolean,
+		pricing: ctx.getNodeParameter('options.modelPricing.prices', itemIndex, []) as ModelPricing[],
+		retryPolicy: ctx.getNodeParameter(
+			'options.retryPolicy.values',
+			itemIndex,
+			{},
+		) as Partial<RetryPolicy>,
+		// Request and token budgets that replace the fixed delay between batches
+		rateLimit: ctx.getNodeParameter('options.rateLimit.values', itemIndex, {}) as RateLimitSettings,
+		cache: createSummaryCache(cacheSettings),
+		// Static data is only requested when the checkpoints are kept there
+		checkpointStore: createCheckpointStore(checkpointSettings, () =>
+			ctx.getWorkflowStaticData('node'),
+		),
+		chunkErrorPolicy: ctx.getNodeParameter(
+			'options.chunkErrorPolicy',
+			itemIndex,
+			DEFAULT_CHUNK_ERROR_POLICY,
+		) as ChunkErrorPolicy,
+		fallbackAfterFailures: ctx.getNodeParameter(
+			'options.fallbackAfterFailures',
+			itemIndex,
+			DEFAULT_FALLBACK_AFTER_FAILURES,
+		) as number,
+		// Summary of a previous run that the documents of this run update
+		existingSummary: getPreviousSummary(
+			getPreviousSummarySettings(ctx, itemIndex),
+			ctx.getInputData()[itemIndex],
+			() => ctx.getWorkflowStaticData('node'),
+		),
+		preselection,
+		scorePrompt: createPrompt(scorePrompt, ['text']),
+		question,
+		// Sentence ranking of the extractive method, also used when it is the fallback
+		extractive: ctx.getNodeParameter(
+			'options.extractive.values',
+			itemIndex,
+			{},
+		) as ExtractiveSettings,
+	};
+}
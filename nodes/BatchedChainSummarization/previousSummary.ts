@@ -0,0 +1,58 @@
+import type { IDataObject, INodeExecutionData } from 'n8n-workflow';
+
+import { getMetadataValue } from './hierarchy';
+import { DEFAULT_PREVIOUS_SUMMARY_FIELD, DEFAULT_PREVIOUS_SUMMARY_KEY } from './constants';
+import { getStaticDataEntries, updateStaticDataEntries } from './staticData';
+
+export type PreviousSummarySource = 'field' | 'staticData';
+
+export interface PreviousSummarySettings {
+	source?: PreviousSummarySource;
+	field?: string; // Dotted path in the item JSON, only used by the 'field' source
+	key?: string; // Name of the summary in the static data, only used by the 'staticData' source
+}
+
+// Property of the node's static data holding the summaries by key
+const STATIC_DATA_KEY = 'previousSummaries';
+
+/**
+ * Reads the summary a previous run left behind, from the item or from the node's workflow
+ * static data. Returns undefined when there is none or it is not text.
+ */
+export function getPreviousSummary(
+	settings: PreviousSummarySettings,
+	item: INodeExecutionData | undefined,
+	staticData: () => IDataObject,
+): string | undefined {
+	let summary: unknown;
+	switch (settings.source) {
+		case 'field':
+			summary =
+				item && getMetadataValue(item.json, settings.field || DEFAULT_PREVIOUS_SUMMARY_FIELD);
+			break;
+		case 'staticData':
+			summary = getStaticDataEntries<unknown>(staticData(), STATIC_DATA_KEY)[
+				settings.key || DEFAULT_PREVIOUS_SUMMARY_KEY
+			];
+			break;
+	}
+	return typeof summary === 'string' ? summary : undefined;
+}
+
+/**
+ * Keeps the new summary in the static data for the next run. Summaries taken from a field
+ * are returned with the output, so they are not saved.
+ */
+export function savePreviousSummary(
+	settings: PreviousSummarySettings,
+	summary: string,
+	staticData: () => IDataObject,
+): void {
+	if (settings.source !== 'staticData') {
+		return;
+	}
+	updateStaticDataEntries<string>(staticData(), STATIC_DATA_KEY, (summaries) => ({
+		...summaries,
+		[settings.key || DEFAULT_PREVIOUS_SUMMARY_KEY]: summary,
+	}));
+}
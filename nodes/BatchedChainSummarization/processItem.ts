@@ -9,82 +9,54 @@ import { N8nJsonLoader } from '../utils/N8nJsonLoader';
 import { getTracingConfig } from '../utils/tracing';
 
 import { BatchedSummarizationChain } from './batchedSummarizationChain';
-import { getChainPromptsArgs } from './helpers';
-import { DEFAULT_BATCH_SIZE, DEFAULT_DELAY_BETWEEN_BATCHES } from './constants';
+import { getChainParameters, getPreviousSummarySettings } from './parameters';
+import { savePreviousSummary } from './previousSummary';
+import type { AdaptiveRateLimiter } from './rateLimiter';
+
+type ChunkingMode = 'simple' | 'advanced' | 'none';
+
+/**
+ * State that all chains of one node execution share.
+ */
+export interface ExecutionResources {
+	rateLimiter?: AdaptiveRateLimiter; // One request and token budget for every item and group
+	signal?: AbortSignal; // Cancels the run, the execution's cancel signal when not set
+}
 
-export async function processItem(
+function isItemLoader(documentInput: unknown): documentInput is N8nJsonLoader | N8nBinaryLoader {
+	return (
+		documentInput instanceof N8nJsonLoader ||
+		documentInput instanceof N8nBinaryLoader ||
+		(typeof documentInput === 'object' &&
+			documentInput !== null &&
+			'processItem' in documentInput &&
+			typeof documentInput.processItem === 'function')
+	);
+}
+
+type DocumentInput = N8nJsonLoader | Array<Document<Record<string, unknown>>>;
+
+async function getDocumentInput(ctx: IExecuteFunctions): Promise<DocumentInput> {
+	return (await ctx.getInputConnectionData(NodeConnectionType.AiDocument, 0)) as DocumentInput;
+}
+
+/**
+ * Loads the documents of one item with the document loader sub-node, or with the JSON or
+ * binary loader and the configured splitter. Returns undefined for unsupported modes.
+ */
+async function loadDocuments(
 	ctx: IExecuteFunctions,
 	itemIndex: number,
 	item: INodeExecutionData,
 	operationMode: string,
-	chunkingMode: 'simple' | 'advanced' | 'none',
-): Promise<ChainValues | undefined> {
-	const model = (await ctx.getInputConnectionData(
-		NodeConnectionType.AiLanguageModel,
-		0,
-	)) as BaseLanguageModel;
-
-	const summarizationMethod = ctx.getNodeParameter(
-		'summarizationMethod',
-		itemIndex,
-		'map_reduce',
-	) as 'map_reduce' | 'stuff' | 'refine';
-
-	// Get custom prompts if provided
-	const customPrompts = ctx.getNodeParameter('options.customPrompts.values', itemIndex, {}) as {
-		combineMapPrompt?: string;
-		combinePrompt?: string;
-		stuffPrompt?: string;
-		refineQuestionPrompt?: string;
-		refinePrompt?: string;
-	};
-
-	// Get batching parameters using shared constants
-	const batchSize = ctx.getNodeParameter('batchSize', itemIndex, DEFAULT_BATCH_SIZE) as number;
-	const delayBetweenBatches = ctx.getNodeParameter(
-		'delayBetweenBatches',
-		itemIndex,
-		DEFAULT_DELAY_BETWEEN_BATCHES,
-	) as number;
-
-	// Get output size parameters
-	const outputSize = ctx.getNodeParameter('outputSize', itemIndex, undefined) as number | undefined;
-	const sizeMeasurement = ctx.getNodeParameter('sizeMeasurement', itemIndex, 'characters') as 'characters' | 'tokens';
-
-	const chainArgs = getChainPromptsArgs(summarizationMethod, customPrompts);
-	const chain = new BatchedSummarizationChain({
-		model,
-		type: summarizationMethod,
-		batchSize,
-		delayBetweenBatches,
-		outputSize,
-		sizeMeasurement,
-		...chainArgs,
-	});
-
-	let processedDocuments: Document[];
-
+	chunkingMode: ChunkingMode,
+	documentInput?: DocumentInput,
+): Promise<Document[] | undefined> {
 	// Use dedicated document loader input to load documents
 	if (operationMode === 'documentLoader') {
-		const documentInput = (await ctx.getInputConnectionData(NodeConnectionType.AiDocument, 0)) as
-			| N8nJsonLoader
-			| Array<Document<Record<string, unknown>>>;
-
-		const isN8nLoader =
-			documentInput instanceof N8nJsonLoader ||
-			documentInput instanceof N8nBinaryLoader ||
-			(typeof documentInput === 'object' &&
-				'processItem' in documentInput &&
-				typeof documentInput.processItem === 'function');
-
-		processedDocuments =
-			isN8nLoader && 'processItem' in documentInput
-				? await documentInput.processItem(item, itemIndex)
-				: (documentInput as Document[]);
-
-		return await chain.withConfig(getTracingConfig(ctx)).invoke({
-			input_documents: processedDocuments,
-		});
+		const input = documentInput ?? (await getDocumentInput(ctx));
+
+		return isItemLoader(input) ? await input.processItem(item, itemIndex) : (input as Document[]);
 	} else if (['nodeInputJson', 'nodeInputBinary'].indexOf(operationMode) !== -1) {
 		// Take the input and use binary or json loader
 		let textSplitter: TextSplitter | undefined;
@@ -120,13 +92,144 @@ export async function processItem(
 			processor = new N8nJsonLoader(ctx, 'options.', textSplitter);
 		}
 
-		const processedItem = await processor.processItem(item, itemIndex);
-		return await chain.invoke(
-			{
-				input_documents: processedItem,
-			},
-			{ signal: ctx.getExecutionCancelSignal() },
-		);
+		return await processor.processItem(item, itemIndex);
 	}
 	return undefined;
 }
+
+/**
+ * Reads the model, the combine model when its input is enabled, and the fallback models in
+ * priority order. The model is undefined when the extractive method runs without one.
+ */
+async function getModels(ctx: IExecuteFunctions): Promise<{
+	model?: BaseLanguageModel;
+	combineModel?: BaseLanguageModel;
+	fallbackModels: BaseLanguageModel[];
+}> {
+	const connectedModels = (await ctx.getInputConnectionData(
+		NodeConnectionType.AiLanguageModel,
+		0,
+	)) as BaseLanguageModel | BaseLanguageModel[] | undefined;
+	if (!Array.isArray(connectedModels)) {
+		return { model: connectedModels, fallbackModels: [] };
+	}
+
+	// Models of inputs sharing the connection type arrive in reverse order of the inputs
+	const [model, ...otherModels] = [...connectedModels].reverse();
+	const combineModel = ctx.getNodeParameter('useCombineModel', 0, false)
+		? otherModels.shift()
+		: undefined;
+	return { model, combineModel, fallbackModels: otherModels };
+}
+
+async function createChain(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	operationMode: string,
+	resources: ExecutionResources,
+): Promise<BatchedSummarizationChain> {
+	const { model, combineModel, fallbackModels } = await getModels(ctx);
+
+	const chain = new BatchedSummarizationChain({
+		...getChainParameters(ctx, itemIndex, model),
+		combineModel,
+		fallbackModels,
+		rateLimiter: resources.rateLimiter,
+	});
+	return operationMode === 'documentLoader' ? chain.withConfig(getTracingConfig(ctx)) : chain;
+}
+
+/**
+ * Runs the chain and keeps the new summary for the next incremental run when configured.
+ * An extractive fallback only covers the new documents and structured output is JSON, so the
+ * saved summary is kept for them.
+ */
+async function invokeChain(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	chain: BatchedSummarizationChain,
+	documents: Document[],
+	resources: ExecutionResources,
+): Promise<ChainValues> {
+	const result = await chain.invoke(
+		{
+			input_documents: documents,
+		},
+		{ signal: resources.signal ?? ctx.getExecutionCancelSignal() },
+	);
+	if (!result.output.extractiveFallback && result.output.structured === undefined) {
+		savePreviousSummary(getPreviousSummarySettings(ctx, itemIndex), result.output.text, () =>
+			ctx.getWorkflowStaticData('node'),
+		);
+	}
+	return result;
+}
+
+export async function processItem(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	item: INodeExecutionData,
+	operationMode: string,
+	chunkingMode: ChunkingMode,
+	resources: ExecutionResources = {},
+): Promise<ChainValues | undefined> {
+	const chain = await createChain(ctx, itemIndex, operationMode, resources);
+
+	const documents = await loadDocuments(ctx, itemIndex, item, operationMode, chunkingMode);
+	if (documents === undefined) {
+		return undefined;
+	}
+
+	return await invokeChain(ctx, itemIndex, chain, documents, resources);
+}
+
+/**
+ * Summarizes the documents of the items (all of them unless itemIndices picks some) as one
+ * corpus. Every document is tagged with the index of its item, and the output lists the
+ * source items with their number of chunks. The chain settings are read from the first item.
+ */
+export async function processItems(
+	ctx: IExecuteFunctions,
+	items: INodeExecutionData[],
+	operationMode: string,
+	chunkingMode: ChunkingMode,
+	itemIndices: number[] = items.map((_, itemIndex) => itemIndex),
+	resources: ExecutionResources = {},
+): Promise<ChainValues | undefined> {
+	const firstItemIndex = itemIndices[0] ?? 0;
+	const chain = await createChain(ctx, firstItemIndex, operationMode, resources);
+
+	const documents: Document[] = [];
+	const sourceItems: Array<{ itemIndex: number; chunkCount: number }> = [];
+	// The document loader sub-node is the same for every item
+	const documentInput =
+		operationMode === 'documentLoader' ? await getDocumentInput(ctx) : undefined;
+
+	for (const itemIndex of itemIndices) {
+		const itemDocuments = await loadDocuments(
+			ctx,
+			itemIndex,
+			items[itemIndex],
+			operationMode,
+			chunkingMode,
+			documentInput,
+		);
+		if (itemDocuments === undefined) {
+			return undefined;
+		}
+
+		documents.push(
+			...itemDocuments.map((doc) => ({ ...doc, metadata: { ...doc.metadata, itemIndex } })),
+		);
+		sourceItems.push({ itemIndex, chunkCount: itemDocuments.length });
+
+		// A loader without per item processing returns the same documents for every item
+		if (documentInput !== undefined && !isItemLoader(documentInput)) {
+			break;
+		}
+	}
+
+	const result = await invokeChain(ctx, firstItemIndex, chain, documents, resources);
+	result.output.sourceItems = sourceItems;
+	return result;
+}
@@ -18,3 +18,47 @@ export const DEFAULT_PROMPT_TEMPLATE = `Write a concise summary of the following
 
 
 CONCISE SUMMARY:`;
+
+export const RELEVANCE_SCORE_PROMPT_TEMPLATE = `Rate how much the following text matters for a summary of the whole document, from 0 (boilerplate such as navigation, legal notices or repeated headers) to 10 (essential content).
+
+
+"{text}"
+
+
+Answer with the number only.
+
+SCORE:`;
+
+// Answer of focused map steps for chunks that do not help to answer the question
+export const NOT_RELEVANT_ANSWER = 'NOT_RELEVANT';
+
+export const FOCUSED_MAP_PROMPT_TEMPLATE = `Summarize what the following text says about this question: "{question}"
+
+
+"{text}"
+
+
+If the text says nothing that helps to answer the question, answer ${NOT_RELEVANT_ANSWER} and nothing else.
+
+RELEVANT SUMMARY:`;
+
+export const FOCUSED_COMBINE_PROMPT_TEMPLATE = `Write a concise summary of the following text that answers this question: "{question}"
+
+
+"{text}"
+
+
+CONCISE SUMMARY:`;
+
+export const FOCUSED_REFINE_PROMPT_TEMPLATE = `Your job is to produce a final summary that answers this question: "{question}"
+We have provided an existing summary up to a certain point: "{existing_answer}"
+We have the opportunity to refine the existing summary
+(only if needed) with some more context below.
+------------
+"{text}"
+------------
+
+Given the new context, refine the original summary
+If the context does not help to answer the question, answer ${NOT_RELEVANT_ANSWER} and nothing else.
+
+REFINED SUMMARY:`;
@@ -0,0 +1,191 @@
+import { raceWithSignal, sleepWithSignal } from './cancellation';
+
+export interface RateLimitSettings {
+	requestsPerMinute?: number; // 0 or undefined means unlimited
+	tokensPerMinute?: number; // 0 or undefined means unlimited
+}
+
+export interface RateLimiterStats {
+	concurrency: number;
+	rateLimitedCount: number;
+	waitedMs: number;
+}
+
+const MINUTE = 60000;
+
+/**
+ * Token bucket that allows going into debt: a request is always admitted, and the caller
+ * waits for the time it takes to refill what it borrowed. This keeps waits computable up
+ * front instead of polling the clock.
+ */
+class TokenBucket {
+	private available: number;
+	private lastRefill: number;
+	private readonly refillPerMs: number;
+
+	constructor(
+		private readonly capacity: number,
+		private readonly now: () => number,
+	) {
+		this.available = capacity;
+		this.lastRefill = now();
+		this.refillPerMs = capacity / MINUTE;
+	}
+
+	take(amount: number): number {
+		this.refill();
+		this.available -= amount;
+		return this.available >= 0 ? 0 : Math.ceil(-this.available / this.refillPerMs);
+	}
+
+	give(amount: number): void {
+		this.refill();
+		this.available = Math.min(this.capacity, this.available + amount);
+	}
+
+	private refill(): void {
+		const now = this.now();
+		this.available = Math.min(
+			this.capacity,
+			this.available + (now - this.lastRefill) * this.refillPerMs,
+		);
+		this.lastRefill = now;
+	}
+}
+
+/**
+ * Paces model requests with requests-per-minute and tokens-per-minute budgets and caps the
+ * number of requests in flight. The cap is halved after every rate limit response and grows
+ * back by one after a full window of successful requests (AIMD).
+ */
+export class AdaptiveRateLimiter {
+	private requestBucket?: TokenBucket;
+	private tokenBucket?: TokenBucket;
+	private concurrency: number;
+	private active = 0;
+	private waiting: Array<() => void> = [];
+	private successesSinceLastChange = 0;
+	private rateLimitedCount = 0;
+	private waitedMs = 0;
+
+	constructor(
+		settings: RateLimitSettings,
+		private readonly maxConcurrency: number,
+		now: () => number = Date.now,
+	) {
+		if (settings.requestsPerMinute && settings.requestsPerMinute > 0) {
+			this.requestBucket = new TokenBucket(settings.requestsPerMinute, now);
+		}
+		if (settings.tokensPerMinute && settings.tokensPerMinute > 0) {
+			this.tokenBucket = new TokenBucket(settings.tokensPerMinute, now);
+		}
+		this.concurrency = Math.max(1, maxConcurrency);
+	}
+
+	static isEnabled(settings?: RateLimitSettings): boolean {
+		return Boolean(
+			settings && ((settings.requestsPerMinute ?? 0) > 0 || (settings.tokensPerMinute ?? 0) > 0),
+		);
+	}
+
+	/**
+	 * Waits for a free slot and for enough budget. Every successful acquire must be followed by
+	 * release; when the signal fires while waiting, the slot is given back before rejecting.
+	 */
+	async acquire(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+		if (this.active < this.concurrency) {
+			this.active++;
+		} else {
+			await this.waitForSlot(signal);
+		}
+
+		const wait = Math.max(
+			this.requestBucket?.take(1) ?? 0,
+			this.tokenBucket?.take(estimatedTokens) ?? 0,
+		);
+		if (wait > 0) {
+			this.waitedMs += wait;
+			try {
+				await sleepWithSignal(wait, signal);
+			} catch (error) {
+				this.release();
+				throw error;
+			}
+		}
+	}
+
+	release(): void {
+		this.active = Math.max(0, this.active - 1);
+		this.wakeWaiting();
+	}
+
+	/**
+	 * Corrects the token budget once the real size of a request is known.
+	 */
+	recordUsage(estimatedTokens: number, actualTokens: number): void {
+		if (!this.tokenBucket || actualTokens === estimatedTokens) {
+			return;
+		}
+		if (actualTokens > estimatedTokens) {
+			this.tokenBucket.take(actualTokens - estimatedTokens);
+		} else {
+			this.tokenBucket.give(estimatedTokens - actualTokens);
+		}
+	}
+
+	onSuccess(): void {
+		this.successesSinceLastChange++;
+		if (
+			this.concurrency < this.maxConcurrency &&
+			this.successesSinceLastChange >= this.concurrency
+		) {
+			this.concurrency++;
+			this.successesSinceLastChange = 0;
+			this.wakeWaiting();
+		}
+	}
+
+	onRateLimited(): void {
+		this.rateLimitedCount++;
+		this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+		this.successesSinceLastChange = 0;
+	}
+
+	getStats(): RateLimiterStats {
+		return {
+			concurrency: this.concurrency,
+			rateLimitedCount: this.rateLimitedCount,
+			waitedMs: this.waitedMs,
+		};
+	}
+
+	private async waitForSlot(signal?: AbortSignal): Promise<void> {
+		let handOver!: () => void;
+		// The slot is counted by wakeWaiting when it is handed over
+		const slot = new Promise<void>((resolve) => {
+			handOver = resolve;
+			this.waiting.push(resolve);
+		});
+
+		try {
+			await raceWithSignal(slot, signal);
+		} catch (error) {
+			const index = this.waiting.indexOf(handOver);
+			if (index !== -1) {
+				this.waiting.splice(index, 1);
+			} else {
+				// The slot was handed over right when the signal fired
+				this.release();
+			}
+			throw error;
+		}
+	}
+
+	private wakeWaiting(): void {
+		while (this.active < this.concurrency && this.waiting.length > 0) {
+			const next = this.waiting.shift()!;
+			this.active++;
+			next();
+		}
+	}
+}
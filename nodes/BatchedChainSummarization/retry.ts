@@ -0,0 +1,173 @@
+import {
+	DEFAULT_RETRY_BASE_DELAY,
+	DEFAULT_RETRY_MAX_ATTEMPTS,
+	DEFAULT_RETRY_MAX_DELAY,
+	MAX_DELAY,
+	MAX_RETRY_ATTEMPTS,
+	MIN_DELAY,
+} from './constants';
+import { sleepWithSignal, throwIfCancelled } from './cancellation';
+
+export interface RetryPolicy {
+	maxAttempts: number; // Total attempts including the first one
+	baseDelay: number; // Delay in milliseconds before the first retry, doubled on each retry
+	maxDelay: number; // Upper bound for the computed backoff delay
+	jitter: boolean; // Randomize delays so parallel requests do not retry in lock-step
+}
+
+const RETRYABLE_STATUS_CODES = [408, 409, 425, 429];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+const RETRYABLE_MESSAGE =
+	/rate limit|too many requests|overloaded|temporarily unavailable|timed? ?out/i;
+
+// Fields that provider SDKs and HTTP clients set on their errors, none of them guaranteed
+interface ErrorFields {
+	status?: unknown;
+	statusCode?: unknown;
+	code?: unknown;
+	message?: unknown;
+	headers?: unknown;
+	response?: unknown;
+}
+
+function getErrorFields(error: unknown): ErrorFields {
+	return typeof error === 'object' && error !== null ? (error as ErrorFields) : {};
+}
+
+function getMessage(error: unknown): string {
+	const { message } = getErrorFields(error);
+	return typeof message === 'string' ? message : '';
+}
+
+function hasHeaderGetter(headers: object): headers is { get(name: string): unknown } {
+	return typeof (headers as { get?: unknown }).get === 'function';
+}
+
+export function createRetryPolicy(policy: Partial<RetryPolicy> = {}): RetryPolicy {
+	const maxAttempts = policy.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS;
+	const baseDelay = policy.baseDelay ?? DEFAULT_RETRY_BASE_DELAY;
+	const maxDelay = policy.maxDelay ?? DEFAULT_RETRY_MAX_DELAY;
+
+	return {
+		maxAttempts: Math.max(1, Math.min(MAX_RETRY_ATTEMPTS, Math.floor(maxAttempts))),
+		baseDelay: Math.max(MIN_DELAY, Math.min(MAX_DELAY, Math.floor(baseDelay))),
+		maxDelay: Math.max(MIN_DELAY, Math.min(MAX_DELAY, Math.floor(maxDelay))),
+		jitter: policy.jitter ?? true,
+	};
+}
+
+export function getErrorStatus(error: unknown): number | undefined {
+	const fields = getErrorFields(error);
+	const status = fields.status ?? fields.statusCode ?? getErrorFields(fields.response).status;
+	return typeof status === 'number' ? status : undefined;
+}
+
+export function isRateLimitError(error: unknown): boolean {
+	return getErrorStatus(error) === 429 || /rate limit|too many requests/i.test(getMessage(error));
+}
+
+/**
+ * Rate limits, timeouts, server errors and dropped connections are worth retrying.
+ * Anything else (bad request, authentication, content filter) fails immediately.
+ */
+export function isRetryableError(error: unknown): boolean {
+	const status = getErrorStatus(error);
+	if (status !== undefined) {
+		return RETRYABLE_STATUS_CODES.includes(status) || (status >= 500 && status < 600);
+	}
+
+	const { code } = getErrorFields(error);
+	if (typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code)) {
+		return true;
+	}
+
+	return RETRYABLE_MESSAGE.test(getMessage(error));
+}
+
+/**
+ * Errors that come from the provider rather than the request: everything worth a retry plus
+ * rejected credentials. A bad request fails the same way on any model.
+ */
+export function isProviderError(error: unknown): boolean {
+	const status = getErrorStatus(error);
+	return status === 401 || status === 403 || isRetryableError(error);
+}
+
+/**
+ * Reads the Retry-After header (seconds or HTTP date) from a provider error in milliseconds.
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+	const fields = getErrorFields(error);
+	const headers = fields.headers ?? getErrorFields(fields.response).headers;
+	if (typeof headers !== 'object' || headers === null) {
+		return undefined;
+	}
+
+	const readHeader = (name: string): string | undefined => {
+		const value = hasHeaderGetter(headers)
+			? headers.get(name)
+			: (headers as Record<string, unknown>)[name];
+		return value === null || value === undefined ? undefined : String(value);
+	};
+
+	const retryAfterMs = readHeader('retry-after-ms');
+	if (retryAfterMs !== undefined && !isNaN(Number(retryAfterMs))) {
+		return Math.max(0, Number(retryAfterMs));
+	}
+
+	const retryAfter = readHeader('retry-after');
+	if (retryAfter === undefined) {
+		return undefined;
+	}
+
+	if (!isNaN(Number(retryAfter))) {
+		return Math.max(0, Number(retryAfter) * 1000);
+	}
+
+	const date = Date.parse(retryAfter);
+	return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function getRetryDelay(attempt: number, policy: RetryPolicy, error?: unknown): number {
+	let delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+
+	if (policy.jitter) {
+		// Equal jitter: keep at least half of the backoff
+		delay = delay / 2 + Math.random() * (delay / 2);
+	}
+
+	// Never retry earlier than the provider asked for
+	const retryAfter = getRetryAfterMs(error);
+	if (retryAfter !== undefined) {
+		delay = Math.max(delay, retryAfter);
+	}
+
+	return Math.min(MAX_DELAY, Math.round(delay));
+}
+
+export interface WithRetryOptions {
+	onRetry?: (error: unknown, attempt: number, delay: number) => void;
+	signal?: AbortSignal; // Stops retrying and waiting as soon as it fires
+}
+
+export async function withRetry<T>(
+	operation: (attempt: number) => Promise<T>,
+	policy: RetryPolicy,
+	options: WithRetryOptions = {},
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await operation(attempt);
+		} catch (error) {
+			// Errors caused by the cancellation are never worth a retry
+			throwIfCancelled(options.signal);
+			if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+				throw error;
+			}
+
+			const delay = getRetryDelay(attempt, policy, error);
+			options.onRetry?.(error, attempt, delay);
+			await sleepWithSignal(delay, options.signal);
+		}
+	}
+}
@@ -0,0 +1,23 @@
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Reads the entries kept by key under a property of the node's workflow static data.
+ */
+export function getStaticDataEntries<T>(
+	staticData: IDataObject,
+	property: string,
+): Record<string, T> {
+	return (staticData[property] ?? {}) as Record<string, T>;
+}
+
+/**
+ * Changes the entries kept under a property of the static data. n8n only saves static data
+ * it notices has changed, so the whole property is replaced instead of edited in place.
+ */
+export function updateStaticDataEntries<T>(
+	staticData: IDataObject,
+	property: string,
+	change: (entries: Record<string, T>) => Record<string, T>,
+): void {
+	staticData[property] = change(getStaticDataEntries<T>(staticData, property));
+}
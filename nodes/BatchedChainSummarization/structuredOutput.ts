@@ -0,0 +1,105 @@
+import { parseJsonMarkdown } from '@langchain/core/output_parsers';
+import { Validator } from '@langchain/core/utils/json_schema';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface StructuredOutputValidation {
+	isValid: boolean;
+	errors: string[];
+	attempts: number; // Model calls used, including the first one
+	repaired: boolean; // True when the JSON was only parseable after local repair
+}
+
+export interface ParsedStructuredOutput {
+	data?: unknown;
+	errors: string[];
+	repaired: boolean;
+}
+
+export class StructuredOutputError extends Error {
+	constructor(readonly errors: string[]) {
+		super(`Summary does not match the output schema: ${errors.join('; ')}`);
+		this.name = 'StructuredOutputError';
+	}
+}
+
+// Schema type of the validator, which spells out the draft 7 keywords
+type ValidatorSchema = ConstructorParameters<typeof Validator>[0];
+
+// Wrapper errors only repeat that a nested value failed, the nested error says why
+const WRAPPER_KEYWORDS = ['properties', 'items', 'additionalItems', 'allOf', '$ref'];
+
+export function validateAgainstSchema(data: unknown, schema: JsonSchema): string[] {
+	const result = new Validator(schema as ValidatorSchema, '7', false).validate(data);
+	if (result.valid) {
+		return [];
+	}
+
+	const errors = result.errors.filter((error) => !WRAPPER_KEYWORDS.includes(error.keyword));
+	return (errors.length > 0 ? errors : result.errors).map(
+		(error) => `${error.instanceLocation}: ${error.error}`,
+	);
+}
+
+/**
+ * Parses the model's answer as JSON. Code fences, text around the JSON and truncated output
+ * (unclosed strings, arrays or objects) are repaired before giving up.
+ */
+export function parseStructuredOutput(text: string, schema: JsonSchema): ParsedStructuredOutput {
+	let data: unknown;
+	let repaired = false;
+
+	try {
+		data = JSON.parse(text);
+	} catch {
+		repaired = true;
+		data = parseJsonMarkdown(extractJson(text)) ?? undefined;
+	}
+
+	if (data === undefined) {
+		return { errors: ['#: Response is not valid JSON.'], repaired: false };
+	}
+
+	return { data, errors: validateAgainstSchema(data, schema), repaired };
+}
+
+function extractJson(text: string): string {
+	if (text.includes('```')) {
+		return text;
+	}
+	const start = text.search(/[{[]/);
+	if (start === -1) {
+		return text;
+	}
+	const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+	return end > start ? text.slice(start, end + 1) : text.slice(start);
+}
+
+export function createStructuredOutputPrompt(prompt: string, schema: JsonSchema): string {
+	return `${prompt}
+
+---
+
+OUTPUT FORMAT: Respond with a single JSON value that matches this JSON Schema. Do not add any text, explanations or code fences around it.
+
+${JSON.stringify(schema, null, 2)}`;
+}
+
+export function createStructuredOutputRepairPrompt(
+	response: string,
+	errors: string[],
+	schema: JsonSchema,
+): string {
+	return `The JSON below does not match the required JSON Schema.
+
+ERRORS:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+JSON SCHEMA:
+${JSON.stringify(schema, null, 2)}
+
+JSON:
+${response}
+
+Return only the corrected JSON, keeping the content of the original where it is valid. Do not add any text, explanations or code fences around it.`;
+}
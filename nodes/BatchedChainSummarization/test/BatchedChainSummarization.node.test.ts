@@ -89,6 +89,9 @@ const createExecuteFunctionsMock = (
 		const paramMap: Record<string, any> = {
 			operationMode: parameters.operationMode || 'nodeInputJson',
 			chunkingMode: parameters.chunkingMode || 'simple',
+			itemHandling: parameters.itemHandling || 'eachItem',
+			groupByField: parameters.groupByField || '',
+			groupConcurrency: parameters.groupConcurrency || 2,
 			batchSize: parameters.batchSize || 5,
 			delayBetweenBatches: parameters.delayBetweenBatches || 0,
 			chunkSize: parameters.chunkSize || 1000,
@@ -101,6 +104,7 @@ const createExecuteFunctionsMock = (
 			},
 			'options.textKey': parameters.textKey || 'text',
 			'options.binaryDataKey': parameters.binaryDataKey || 'data',
+			'options.rateLimit.values': parameters.rateLimit,
 		};
 
 		return paramMap[param] !== undefined ? paramMap[param] : defaultValue;
@@ -462,4 +466,155 @@ describe('BatchedChainSummarization', () => {
 			expect(result[0][0].json).toHaveProperty('output');
 		});
 	});
+
+	describe('Aggregate Items', () => {
+		const inputData: INodeExecutionData[] = [
+			{ json: { text: 'First email' } },
+			{ json: { text: 'Second email' } },
+			{ json: { text: 'Third email' } },
+		];
+
+		it('should output one summary linked to every input item', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock(
+				{ itemHandling: 'aggregate' },
+				inputData,
+			);
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0]).toHaveLength(1);
+			expect(result[0][0].pairedItem).toEqual([{ item: 0 }, { item: 1 }, { item: 2 }]);
+			expect(result[0][0].json.output).toHaveProperty('sourceItems');
+		});
+
+		it('should return a single error linked to every item when continueOnFail is true', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock(
+				{ itemHandling: 'aggregate' },
+				inputData,
+			);
+			mockExecuteFunctions.getInputConnectionData.mockRejectedValue(new Error('Connection error'));
+			mockExecuteFunctions.continueOnFail.mockReturnValue(true);
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0]).toEqual([
+				{
+					json: { error: 'Connection error' },
+					pairedItem: [{ item: 0 }, { item: 1 }, { item: 2 }],
+				},
+			]);
+		});
+	});
+
+	describe('Group By Field', () => {
+		const inputData: INodeExecutionData[] = [
+			{ json: { ticket: { id: 7 }, text: 'Printer is broken' } },
+			{ json: { ticket: { id: 9 }, text: 'Password reset' } },
+			{ json: { ticket: { id: 7 }, text: 'Printer still broken' } },
+			{ json: { text: 'No ticket' } },
+		];
+
+		it('should output one summary per group linked to its items', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock(
+				{ itemHandling: 'groupBy', groupByField: 'ticket.id' },
+				inputData,
+			);
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0].map((item) => item.json.groupKey)).toEqual([7, 9, null]);
+			expect(result[0].map((item) => item.pairedItem)).toEqual([
+				[{ item: 0 }, { item: 2 }],
+				[{ item: 1 }],
+				[{ item: 3 }],
+			]);
+			expect((result[0][0].json.output as any).sourceItems).toEqual([
+				{ itemIndex: 0, chunkCount: 1 },
+				{ itemIndex: 2, chunkCount: 1 },
+			]);
+		});
+
+		it('should pace the model calls of all groups with one rate limiter', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock(
+				{
+					itemHandling: 'groupBy',
+					groupByField: 'ticket.id',
+					groupConcurrency: 3,
+					batchSize: 1,
+					rateLimit: { requestsPerMinute: 600 },
+				},
+				inputData,
+			);
+			const mockLlm = await mockExecuteFunctions.getInputConnectionData(
+				NodeConnectionType.AiLanguageModel,
+				0,
+			);
+			let inFlight = 0;
+			let maxInFlight = 0;
+			(mockLlm as any).invoke.mockImplementation(async () => {
+				maxInFlight = Math.max(maxInFlight, ++inFlight);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				inFlight--;
+				return { content: 'Summary' };
+			});
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0]).toHaveLength(3);
+			// A limiter per group would allow one call per group at the same time
+			expect(maxInFlight).toBe(1);
+		});
+
+		it('should return an error per group when continueOnFail is true', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock(
+				{ itemHandling: 'groupBy', groupByField: 'ticket.id' },
+				inputData,
+			);
+			mockExecuteFunctions.getInputConnectionData.mockRejectedValue(new Error('Connection error'));
+			mockExecuteFunctions.continueOnFail.mockReturnValue(true);
+
+			const result = await node.execute.call(mockExecuteFunctions);
+
+			expect(result[0]).toEqual([
+				{ json: { groupKey: 7, error: 'Connection error' }, pairedItem: [{ item: 0 }, { item: 2 }] },
+				{ json: { groupKey: 9, error: 'Connection error' }, pairedItem: [{ item: 1 }] },
+				{ json: { groupKey: null, error: 'Connection error' }, pairedItem: [{ item: 3 }] },
+			]);
+		});
+
+		it('should cancel the other groups once a group fails', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock(
+				{ itemHandling: 'groupBy', groupByField: 'ticket.id', groupConcurrency: 3 },
+				inputData,
+			);
+			const mockLlm = await mockExecuteFunctions.getInputConnectionData(
+				NodeConnectionType.AiLanguageModel,
+				0,
+			);
+			const pendingSignals: AbortSignal[] = [];
+			(mockLlm as any).invoke.mockImplementation(
+				async (prompt: string, options: { signal: AbortSignal }) => {
+					if (prompt.includes('Printer is broken')) {
+						throw new Error('Invalid request');
+					}
+					pendingSignals.push(options.signal);
+					return await new Promise(() => {});
+				},
+			);
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Invalid request');
+			expect(pendingSignals.length).toBeGreaterThan(0);
+			expect(pendingSignals.every((signal) => signal.aborted)).toBe(true);
+		});
+
+		it('should throw the error of a group when continueOnFail is false', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock(
+				{ itemHandling: 'groupBy', groupByField: 'ticket.id' },
+				inputData,
+			);
+			mockExecuteFunctions.getInputConnectionData.mockRejectedValue(new Error('Connection error'));
+
+			await expect(node.execute.call(mockExecuteFunctions)).rejects.toThrow('Connection error');
+		});
+	});
 });
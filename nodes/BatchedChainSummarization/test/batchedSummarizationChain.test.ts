@@ -1,10 +1,16 @@
 import type { Document } from '@langchain/core/documents';
+import { AIMessage } from '@langchain/core/messages';
 import { FakeListChatModel } from '@langchain/core/utils/testing';
 import { PromptTemplate } from '@langchain/core/prompts';
 import { sleep } from 'n8n-workflow';
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
 
 import { BatchedSummarizationChain, type SummarizationType } from '../batchedSummarizationChain';
+import { SummarizationCancelledError } from '../cancellation';
+import { InMemorySummaryCache } from '../cache';
+import { AllChunksFailedError } from '../chunkFailures';
+import { StaticDataCheckpointStore, type RefineCheckpoint } from '../checkpoint';
+import { StructuredOutputError } from '../structuredOutput';
 
 vi.mock('n8n-workflow', () => ({
 	sleep: vi.fn().mockResolvedValue(undefined),
@@ -12,6 +18,29 @@ vi.mock('n8n-workflow', () => ({
 
 const mockSleep = vi.mocked(sleep);
 
+/**
+ * Fake chat model whose every `failEvery`-th call fails with a provider error.
+ */
+class FlakyChatModel extends FakeListChatModel {
+	calls = 0;
+
+	constructor(
+		responses: string[],
+		private failEvery: number,
+		private status = 429,
+	) {
+		super({ responses });
+	}
+
+	async invoke(input: any, options?: any) {
+		this.calls++;
+		if (this.calls % this.failEvery === 0) {
+			throw Object.assign(new Error(`Provider error ${this.status}`), { status: this.status });
+		}
+		return await super.invoke(input, options);
+	}
+}
+
 describe('BatchedSummarizationChain', () => {
 	let mockModel: FakeListChatModel;
 	let documents: Document[];
@@ -149,6 +178,481 @@ describe('BatchedSummarizationChain', () => {
 		});
 	});
 
+	describe('Worker Pool Scheduling', () => {
+		/**
+		 * Fake model with per-document latency: prompts containing SLOW take 10x longer.
+		 */
+		const createLatencyModel = (slowMs: number, fastMs: number) => {
+			let inFlight = 0;
+			const model = {
+				maxInFlight: 0,
+				invoke: vi.fn().mockImplementation(async (prompt: string) => {
+					inFlight++;
+					model.maxInFlight = Math.max(model.maxInFlight, inFlight);
+					const id = /Document (\d+)/.exec(prompt)?.[1];
+					await new Promise((resolve) =>
+						setTimeout(resolve, !id ? 0 : prompt.includes('SLOW') ? slowMs : fastMs),
+					);
+					inFlight--;
+					return id ? `Summary of document ${id}` : 'Final summary';
+				}),
+			};
+			return model;
+		};
+
+		// Slow chunks at both ends of the document, fast ones in between
+		const variableLatencyDocuments = Array.from({ length: 6 }, (_, i) => ({
+			pageContent: `Document ${i + 1} ${i === 0 || i === 5 ? 'SLOW' : 'fast'}`,
+			metadata: { id: i + 1 },
+		}));
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		// Runs the model latencies on fake timers and reports the simulated time of the run
+		const runChain = async (schedulingMode: 'batch' | 'pool', model: any) => {
+			vi.useFakeTimers();
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'map_reduce',
+				batchSize: 2,
+				schedulingMode,
+				returnIntermediateSteps: true,
+			});
+			const start = Date.now();
+			const run = chain.invoke({ input_documents: variableLatencyDocuments });
+			await vi.runAllTimersAsync();
+			const result = await run;
+			return { result, elapsed: Date.now() - start };
+		};
+
+		it('should return summaries in document order', async () => {
+			const { result } = await runChain('pool', createLatencyModel(40, 4));
+
+			expect(result.output.intermediateSteps.map((step: any) => step.text)).toEqual(
+				variableLatencyDocuments.map((_, i) => `Summary of document ${i + 1}`),
+			);
+			expect(result.output.intermediateSteps.map((step: any) => step.chunkIndex)).toEqual([
+				0, 1, 2, 3, 4, 5,
+			]);
+			expect(result.output.text).toBe('Final summary');
+		});
+
+		it('should never exceed the batch size in flight', async () => {
+			const model = createLatencyModel(40, 4);
+
+			await runChain('pool', model);
+
+			expect(model.maxInFlight).toBe(2);
+		});
+
+		it('should not start new calls once a call failed', async () => {
+			const failingModel = { invoke: vi.fn() } as any;
+			const manyDocuments = Array.from({ length: 20 }, (_, i) => ({
+				pageContent: `Document ${i + 1}`,
+				metadata: {},
+			}));
+
+			for (const settings of [
+				{ schedulingMode: 'pool' as const },
+				{ rateLimit: { requestsPerMinute: 1000 } },
+			]) {
+				failingModel.invoke
+					.mockReset()
+					.mockResolvedValueOnce('Summary 1')
+					.mockResolvedValueOnce('Summary 2')
+					.mockRejectedValueOnce(new Error('Invalid request'))
+					.mockResolvedValue('Summary');
+				const chain = new BatchedSummarizationChain({
+					model: failingModel,
+					type: 'map_reduce',
+					batchSize: 2,
+					retryPolicy: { maxAttempts: 1 },
+					...settings,
+				});
+
+				await expect(chain.invoke({ input_documents: manyDocuments })).rejects.toThrow(
+					'Invalid request',
+				);
+				// The 4th call started next to the failing 3rd one, nothing starts after it fails
+				expect(failingModel.invoke).toHaveBeenCalledTimes(4);
+			}
+		});
+
+		it('should not sleep between batches', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 1,
+				delayBetweenBatches: 500,
+				schedulingMode: 'pool',
+			});
+
+			await chain.invoke({ input_documents: documents });
+
+			expect(mockSleep).not.toHaveBeenCalled();
+		});
+
+		it('should finish faster than lock-step batches when latency varies', async () => {
+			// Batches: max(200, 20) + max(20, 20) + max(20, 200) = 420ms
+			// Pool: one slot holds the first slow chunk while the other runs 4 fast ones and the
+			// last slow chunk = 20 * 4 + 200 = 280ms
+			const batch = await runChain('batch', createLatencyModel(200, 20));
+			const pool = await runChain('pool', createLatencyModel(200, 20));
+
+			expect(pool.result.output.text).toBe(batch.result.output.text);
+			expect(batch.elapsed).toBe(420);
+			expect(pool.elapsed).toBe(280);
+		});
+	});
+
+	describe('Map Reduce Collapse Phase', () => {
+		const longSummary = (label: string) => `${label} `.repeat(60).trim();
+
+		it('should not collapse when combined summaries fit into tokenMax', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 1,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.collapseDepth).toBe(0);
+			expect(result.output.text).toBe('Final combined summary');
+		});
+
+		it('should collapse summaries into groups when they exceed tokenMax', async () => {
+			const spyModel = {
+				invoke: vi
+					.fn()
+					.mockResolvedValueOnce(longSummary('alpha'))
+					.mockResolvedValueOnce(longSummary('beta'))
+					.mockResolvedValueOnce(longSummary('gamma'))
+					.mockResolvedValueOnce(longSummary('delta'))
+					.mockResolvedValueOnce('Collapsed A')
+					.mockResolvedValueOnce('Collapsed B')
+					.mockResolvedValueOnce('Final summary'),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: spyModel,
+				type: 'map_reduce',
+				batchSize: 1,
+				tokenMax: 100,
+			});
+
+			const fourDocuments = Array.from({ length: 4 }, (_, i) => ({
+				pageContent: `Document ${i + 1}`,
+				metadata: { id: i + 1 },
+			}));
+
+			const result = await chain.invoke({ input_documents: fourDocuments });
+
+			// 4 map calls + 2 collapse calls + 1 final combine
+			expect(spyModel.invoke).toHaveBeenCalledTimes(7);
+			expect(spyModel.invoke.mock.calls[4][0]).toContain('alpha');
+			expect(spyModel.invoke.mock.calls[4][0]).toContain('beta');
+			expect(spyModel.invoke.mock.calls[6][0]).toContain('Collapsed A');
+			expect(result.output.text).toBe('Final summary');
+			expect(result.output.collapseDepth).toBe(1);
+		});
+
+		it('should repeat the collapse until the summaries fit', async () => {
+			const spyModel = {
+				invoke: vi.fn(),
+			} as any;
+			// 8 map summaries and 4 first-level collapses are too long, 2 second-level ones fit
+			Array.from({ length: 12 }, (_, i) =>
+				spyModel.invoke.mockResolvedValueOnce(longSummary(`part${i}`)),
+			);
+			spyModel.invoke
+				.mockResolvedValueOnce('Level 2 A')
+				.mockResolvedValueOnce('Level 2 B')
+				.mockResolvedValueOnce('Final summary');
+
+			const chain = new BatchedSummarizationChain({
+				model: spyModel,
+				type: 'map_reduce',
+				batchSize: 4,
+				tokenMax: 100,
+			});
+
+			const eightDocuments = Array.from({ length: 8 }, (_, i) => ({
+				pageContent: `Document ${i + 1}`,
+				metadata: { id: i + 1 },
+			}));
+
+			const result = await chain.invoke({ input_documents: eightDocuments });
+
+			expect(spyModel.invoke).toHaveBeenCalledTimes(15);
+			expect(result.output.collapseDepth).toBe(2);
+			expect(result.output.text).toBe('Final summary');
+		});
+
+		it('should honor batch size and delay while collapsing', async () => {
+			const spyModel = {
+				invoke: vi
+					.fn()
+					.mockResolvedValueOnce(longSummary('alpha'))
+					.mockResolvedValueOnce(longSummary('beta'))
+					.mockResolvedValueOnce(longSummary('gamma'))
+					.mockResolvedValueOnce(longSummary('delta'))
+					.mockResolvedValue('Short'),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: spyModel,
+				type: 'map_reduce',
+				batchSize: 1,
+				delayBetweenBatches: 200,
+				tokenMax: 100,
+			});
+
+			const fourDocuments = Array.from({ length: 4 }, (_, i) => ({
+				pageContent: `Document ${i + 1}`,
+				metadata: { id: i + 1 },
+			}));
+
+			await chain.invoke({ input_documents: fourDocuments });
+
+			// Map: 3 delays between 4 batches, 1 delay before the collapse level,
+			// collapse: 1 delay between 2 batches
+			expect(mockSleep).toHaveBeenCalledWith(200);
+			expect(mockSleep).toHaveBeenCalledTimes(5);
+		});
+	});
+
+	describe('Hierarchical Method', () => {
+		/**
+		 * Fake model that names what it summarized, so the nesting is visible in the output.
+		 */
+		const createNamingModel = () => ({
+			invoke: vi.fn().mockImplementation(async (prompt: string) => {
+				const chunk = /Chunk (\w+)/.exec(prompt);
+				if (prompt.includes('CONCISE SUMMARY') && chunk && !prompt.includes('summary(')) {
+					return `summary(${chunk[1]})`;
+				}
+				// Combine steps list the summaries they received
+				const parts = prompt.match(/summary\([^)]*\)/g) ?? [];
+				return `summary(${parts.map((part) => part.slice(8, -1)).join('+')})`;
+			}),
+		});
+
+		const structuredDocuments: Document[] = [
+			{ pageContent: 'Chunk A1', metadata: { source: 'a.pdf', loc: { pageNumber: 1 } } },
+			{ pageContent: 'Chunk A2', metadata: { source: 'a.pdf', loc: { pageNumber: 1 } } },
+			{ pageContent: 'Chunk A3', metadata: { source: 'a.pdf', loc: { pageNumber: 2 } } },
+			{ pageContent: 'Chunk B1', metadata: { source: 'b.pdf', loc: { pageNumber: 1 } } },
+		];
+
+		it('should summarize pages, then files, then the whole input', async () => {
+			const model = createNamingModel();
+			const chain = new BatchedSummarizationChain({
+				model: model as any,
+				type: 'hierarchical',
+			});
+
+			const result = await chain.invoke({ input_documents: structuredDocuments });
+
+			expect(result.output.text).toBe('summary(A1+A2+A3+B1)');
+			expect(result.output.outline).toEqual([
+				{
+					key: 'source',
+					value: 'a.pdf',
+					summary: 'summary(A1+A2+A3)',
+					chunkCount: 3,
+					sections: [
+						{ key: 'loc.pageNumber', value: 1, summary: 'summary(A1+A2)', chunkCount: 2 },
+						{ key: 'loc.pageNumber', value: 2, summary: 'summary(A3)', chunkCount: 1 },
+					],
+				},
+				{
+					key: 'source',
+					value: 'b.pdf',
+					summary: 'summary(B1)',
+					chunkCount: 1,
+					sections: [{ key: 'loc.pageNumber', value: 1, summary: 'summary(B1)', chunkCount: 1 }],
+				},
+			]);
+			// 4 chunks, page 1 of a.pdf, a.pdf and the final summary; single-part groups are reused
+			expect(model.invoke).toHaveBeenCalledTimes(7);
+		});
+
+		it('should record section steps', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createNamingModel() as any,
+				type: 'hierarchical',
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: structuredDocuments });
+
+			expect(result.output.intermediateSteps.map((step: any) => step.step)).toEqual([
+				'map',
+				'map',
+				'map',
+				'map',
+				'section',
+				'section',
+			]);
+			expect(result.output.intermediateSteps[4].metadata).toEqual({
+				'loc.pageNumber': 1,
+				depth: 1,
+			});
+			expect(result.output.intermediateSteps[5].metadata).toEqual({ source: 'a.pdf', depth: 0 });
+		});
+
+		it('should use the configured metadata keys', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createNamingModel() as any,
+				type: 'hierarchical',
+				hierarchyKeys: ['loc.pageNumber'],
+			});
+
+			const result = await chain.invoke({ input_documents: structuredDocuments });
+
+			expect(
+				result.output.outline.map((section: any) => [section.value, section.summary]),
+			).toEqual([
+				[1, 'summary(A1+A2+B1)'],
+				[2, 'summary(A3)'],
+			]);
+		});
+
+		it('should fall back to map_reduce without structure metadata', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'hierarchical',
+			});
+
+			const result = await chain.invoke({
+				input_documents: documents.map((doc) => ({ ...doc, metadata: {} })),
+			});
+
+			expect(result.output.text).toBe('Final combined summary');
+			expect(result.output.outline).toEqual([]);
+		});
+	});
+
+	describe('Structured Output', () => {
+		const outputSchema = {
+			type: 'object',
+			required: ['title', 'keyPoints', 'sentiment'],
+			properties: {
+				title: { type: 'string' },
+				keyPoints: { type: 'array', items: { type: 'string' } },
+				actionItems: { type: 'array', items: { type: 'string' } },
+				sentiment: { enum: ['positive', 'neutral', 'negative'] },
+			},
+		};
+		const validJson = JSON.stringify({
+			title: 'Quarterly report',
+			keyPoints: ['Revenue grew'],
+			sentiment: 'positive',
+		});
+
+		it.each<SummarizationType>(['map_reduce', 'stuff', 'refine'])(
+			'should return validated JSON for %s',
+			async (type) => {
+				// Only the final step is asked for JSON
+				const model = {
+					invoke: vi
+						.fn()
+						.mockImplementation(async (prompt: string) =>
+							prompt.includes('JSON Schema') ? validJson : 'Chunk summary',
+						),
+				};
+				const chain = new BatchedSummarizationChain({ model: model as any, type, outputSchema });
+
+				const result = await chain.invoke({ input_documents: documents });
+
+				expect(result.output.structured).toEqual(JSON.parse(validJson));
+				expect(result.output.text).toBe(validJson);
+				expect(result.output.structuredValidation).toEqual({
+					isValid: true,
+					errors: [],
+					attempts: 1,
+					repaired: false,
+				});
+			},
+		);
+
+		it('should send the schema with the final prompt', async () => {
+			const model = { invoke: vi.fn().mockResolvedValue(validJson) };
+			const chain = new BatchedSummarizationChain({
+				model: model as any,
+				type: 'stuff',
+				outputSchema,
+			});
+
+			await chain.invoke({ input_documents: documents });
+
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+			expect(model.invoke.mock.calls[0][0]).toContain('"actionItems"');
+		});
+
+		it('should repair fenced JSON without another call', async () => {
+			const model = { invoke: vi.fn().mockResolvedValue('```json\n' + validJson + '\n```') };
+			const chain = new BatchedSummarizationChain({
+				model: model as any,
+				type: 'stuff',
+				outputSchema,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.structured).toEqual(JSON.parse(validJson));
+			expect(result.output.structuredValidation.repaired).toBe(true);
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+		});
+
+		it('should retry with the validation errors', async () => {
+			const model = {
+				invoke: vi
+					.fn()
+					.mockResolvedValueOnce('{"title": "Quarterly report", "sentiment": "great"}')
+					.mockResolvedValueOnce(validJson),
+			};
+			const chain = new BatchedSummarizationChain({
+				model: model as any,
+				type: 'stuff',
+				outputSchema,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.structured).toEqual(JSON.parse(validJson));
+			expect(result.output.structuredValidation.attempts).toBe(2);
+			const repairPrompt = model.invoke.mock.calls[1][0] as string;
+			expect(repairPrompt).toContain('#/sentiment');
+			expect(repairPrompt).toContain('keyPoints');
+		});
+
+		it('should fail when the attempts run out', async () => {
+			const model = { invoke: vi.fn().mockResolvedValue('Not JSON at all') };
+			const chain = new BatchedSummarizationChain({
+				model: model as any,
+				type: 'stuff',
+				outputSchema,
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				StructuredOutputError,
+			);
+			expect(model.invoke).toHaveBeenCalledTimes(3);
+		});
+
+		it('should not add structured fields without a schema', async () => {
+			const chain = new BatchedSummarizationChain({ model: mockModel, type: 'stuff' });
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output).not.toHaveProperty('structured');
+		});
+	});
+
 	describe('Stuff Method', () => {
 		it('should process all documents together', async () => {
 			const chain = new BatchedSummarizationChain({
@@ -261,611 +765,2815 @@ describe('BatchedSummarizationChain', () => {
 		});
 	});
 
-	describe('withConfig method', () => {
-		it('should apply config to model if model has withConfig method', () => {
+	describe('Intermediate Steps', () => {
+		it('should not include intermediate steps by default', async () => {
 			const chain = new BatchedSummarizationChain({
 				model: mockModel,
-				type: 'stuff',
+				type: 'map_reduce',
 			});
 
-			const config = { temperature: 0.5 };
-			const chainWithConfig = chain.withConfig(config);
+			const result = await chain.invoke({ input_documents: documents });
 
-			expect(chainWithConfig).toBeInstanceOf(BatchedSummarizationChain);
+			expect(result.output).not.toHaveProperty('intermediateSteps');
 		});
 
-		it('should handle model without withConfig method gracefully', () => {
-			const modelWithoutConfig = {
-				invoke: vi.fn().mockResolvedValue('test response'),
-			} as any;
+		it('should return map summaries in document order for map_reduce', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 2,
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+			const steps = result.output.intermediateSteps;
+
+			expect(steps).toHaveLength(3);
+			expect(steps.map((step: any) => step.chunkIndex)).toEqual([0, 1, 2]);
+			expect(steps.map((step: any) => step.text)).toEqual(['Summary 1', 'Summary 2', 'Summary 3']);
+			expect(steps[1]).toMatchObject({ step: 'map', metadata: { id: 2 } });
+			expect(steps[1].prompt).toContain('Document 2 content');
+		});
 
+		it('should return initial and refine steps for refine', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: modelWithoutConfig,
-				type: 'stuff',
+				model: mockModel,
+				type: 'refine',
+				batchSize: 1,
+				returnIntermediateSteps: true,
 			});
 
-			const config = { temperature: 0.5 };
-			const chainWithConfig = chain.withConfig(config);
+			const result = await chain.invoke({ input_documents: documents });
+			const steps = result.output.intermediateSteps;
 
-			expect(chainWithConfig).toBeInstanceOf(BatchedSummarizationChain);
+			expect(steps.map((step: any) => step.step)).toEqual(['initial', 'refine', 'refine']);
+			expect(steps.map((step: any) => step.chunkIndex)).toEqual([0, 1, 2]);
+			expect(steps[2]).toMatchObject({ metadata: { id: 3 }, text: 'Summary 3' });
+			expect(steps[2].prompt).toContain('Summary 2');
 		});
 	});
 
-	describe('Error Handling', () => {
-		it('should throw error for unknown summarization type', async () => {
+	describe('Token Usage', () => {
+		const messageWithUsage = (content: string, inputTokens: number, outputTokens: number) =>
+			new AIMessage({
+				content,
+				usage_metadata: {
+					input_tokens: inputTokens,
+					output_tokens: outputTokens,
+					total_tokens: inputTokens + outputTokens,
+				},
+			});
+
+		it('should aggregate usage reported by the model', async () => {
+			const usageModel = {
+				invoke: vi
+					.fn()
+					.mockResolvedValueOnce(messageWithUsage('Summary 1', 100, 10))
+					.mockResolvedValueOnce(messageWithUsage('Summary 2', 120, 12))
+					.mockResolvedValueOnce(messageWithUsage('Summary 3', 80, 8))
+					.mockResolvedValueOnce(messageWithUsage('Final', 50, 20)),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: usageModel,
+				type: 'map_reduce',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.tokenUsage).toEqual({
+				promptTokens: 350,
+				completionTokens: 50,
+				totalTokens: 400,
+				estimated: false,
+			});
+			expect(result.output).not.toHaveProperty('estimatedCost');
+		});
+
+		it('should estimate usage with tiktoken when the model reports none', async () => {
 			const chain = new BatchedSummarizationChain({
 				model: mockModel,
-				type: 'unknown' as SummarizationType,
+				type: 'stuff',
 			});
 
-			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
-				'Unknown summarization type: unknown',
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.tokenUsage.estimated).toBe(true);
+			expect(result.output.tokenUsage.promptTokens).toBeGreaterThan(0);
+			// "Summary 1" is 3 tokens in cl100k_base
+			expect(result.output.tokenUsage.completionTokens).toBe(3);
+			expect(result.output.tokenUsage.totalTokens).toBe(
+				result.output.tokenUsage.promptTokens + result.output.tokenUsage.completionTokens,
 			);
 		});
 
-		it('should handle model errors gracefully', async () => {
-			const errorModel = {
-				invoke: vi.fn().mockRejectedValue(new Error('Model error')),
+		it('should estimate the cost with the best matching price entry', async () => {
+			const usageModel = {
+				modelName: 'gpt-4o-mini-2024-07-18',
+				invoke: vi.fn().mockResolvedValue(messageWithUsage('Summary', 1000, 500)),
 			} as any;
 
 			const chain = new BatchedSummarizationChain({
-				model: errorModel,
+				model: usageModel,
 				type: 'stuff',
+				pricing: [
+					{ model: '*', promptPricePerMillion: 100, completionPricePerMillion: 100 },
+					{ model: 'gpt-4o', promptPricePerMillion: 2.5, completionPricePerMillion: 10 },
+					{ model: 'gpt-4o-mini', promptPricePerMillion: 0.15, completionPricePerMillion: 0.6 },
+				],
 			});
 
-			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow('Model error');
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.estimatedCost).toBeCloseTo(0.00045, 8);
 		});
 
-		it('should handle errors during map phase in map_reduce', async () => {
-			const errorModel = {
-				invoke: vi
-					.fn()
-					.mockRejectedValueOnce(new Error('Map phase error'))
-					.mockResolvedValue('Recovery response'),
+		it('should fall back to the wildcard price entry', async () => {
+			const usageModel = {
+				modelName: 'claude-3-5-sonnet',
+				invoke: vi.fn().mockResolvedValue(messageWithUsage('Summary', 1000, 1000)),
 			} as any;
 
 			const chain = new BatchedSummarizationChain({
-				model: errorModel,
-				type: 'map_reduce',
-				batchSize: 1,
+				model: usageModel,
+				type: 'stuff',
+				pricing: [
+					{ model: 'gpt-4o', promptPricePerMillion: 2.5, completionPricePerMillion: 10 },
+					{ model: '*', promptPricePerMillion: 3, completionPricePerMillion: 15 },
+				],
 			});
 
-			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow('Map phase error');
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.estimatedCost).toBeCloseTo(0.018, 8);
 		});
+	});
 
-		it('should handle errors during reduce phase in map_reduce', async () => {
-			const errorModel = {
-				invoke: vi
-					.fn()
-					.mockResolvedValueOnce('Map success')
-					.mockResolvedValueOnce('Map success')
-					.mockResolvedValueOnce('Map success')
-					.mockRejectedValueOnce(new Error('Reduce phase error')),
-			} as any;
+	describe('Summary Cache', () => {
+		beforeEach(() => {
+			InMemorySummaryCache.clear();
+		});
+
+		const createEchoModel = () => ({
+			invoke: vi.fn().mockImplementation(async (prompt: string) => `Summary of: ${prompt.length}`),
+		});
 
+		it('should reuse map summaries of unchanged chunks across runs', async () => {
+			const model = createEchoModel();
+			const createChain = () =>
+				new BatchedSummarizationChain({
+					model: model as any,
+					type: 'map_reduce',
+					cache: new InMemorySummaryCache(),
+				});
+
+			const first = await createChain().invoke({ input_documents: documents });
+			expect(first.output.cache).toEqual({ hits: 0, misses: 3 });
+			expect(model.invoke).toHaveBeenCalledTimes(4);
+
+			// One chunk changed: only it and the combine step call the model
+			model.invoke.mockClear();
+			const changed = [...documents.slice(0, 2), { pageContent: 'New content', metadata: {} }];
+			const second = await createChain().invoke({ input_documents: changed });
+
+			expect(second.output.cache).toEqual({ hits: 2, misses: 1 });
+			expect(model.invoke).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not count cached summaries in the token usage', async () => {
+			const model = createEchoModel();
 			const chain = new BatchedSummarizationChain({
-				model: errorModel,
+				model: model as any,
 				type: 'map_reduce',
-				batchSize: 1,
+				cache: new InMemorySummaryCache(),
 			});
 
-			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
-				'Reduce phase error',
+			const first = await chain.invoke({ input_documents: documents });
+			const second = await chain.invoke({ input_documents: documents });
+
+			expect(second.output.text).toBe(first.output.text);
+			expect(second.output.tokenUsage.totalTokens).toBeLessThan(
+				first.output.tokenUsage.totalTokens,
 			);
 		});
 
-		it('should handle errors during initial step in refine', async () => {
-			const errorModel = {
-				invoke: vi.fn().mockRejectedValue(new Error('Initial refine error')),
-			} as any;
+		it('should miss when the prompt template changes', async () => {
+			const model = createEchoModel();
+			const run = async (template: string) =>
+				await new BatchedSummarizationChain({
+					model: model as any,
+					type: 'map_reduce',
+					combineMapPrompt: new PromptTemplate({ template, inputVariables: ['text'] }),
+					cache: new InMemorySummaryCache(),
+				}).invoke({ input_documents: documents });
+
+			await run('Summarize: {text}');
+			const result = await run('Summarize briefly: {text}');
+
+			expect(result.output.cache).toEqual({ hits: 0, misses: 3 });
+		});
+
+		it('should miss when the model changes', async () => {
+			const run = async (modelName: string) =>
+				await new BatchedSummarizationChain({
+					model: { ...createEchoModel(), modelName } as any,
+					type: 'map_reduce',
+					cache: new InMemorySummaryCache(),
+				}).invoke({ input_documents: documents });
+
+			await run('gpt-4o');
+			const sameModel = await run('gpt-4o');
+			const otherModel = await run('gpt-4o-mini');
 
+			expect(sameModel.output.cache).toEqual({ hits: 3, misses: 0 });
+			expect(otherModel.output.cache).toEqual({ hits: 0, misses: 3 });
+		});
+
+		it('should cache the initial and refine steps', async () => {
+			const model = createEchoModel();
+			const run = async () =>
+				await new BatchedSummarizationChain({
+					model: model as any,
+					type: 'refine',
+					cache: new InMemorySummaryCache(),
+				}).invoke({ input_documents: documents });
+
+			const first = await run();
+			model.invoke.mockClear();
+			const second = await run();
+
+			expect(first.output.cache).toEqual({ hits: 0, misses: 3 });
+			expect(second.output.cache).toEqual({ hits: 3, misses: 0 });
+			expect(second.output.text).toBe(first.output.text);
+			expect(model.invoke).not.toHaveBeenCalled();
+		});
+
+		it('should summarize as without a cache when the cache fails', async () => {
+			const model = createEchoModel();
+			const cantOpen = new Error('SQLITE_CANTOPEN: unable to open database file');
 			const chain = new BatchedSummarizationChain({
-				model: errorModel,
-				type: 'refine',
+				model: model as any,
+				type: 'map_reduce',
+				cache: {
+					get: vi.fn().mockRejectedValue(cantOpen),
+					set: vi.fn().mockRejectedValue(cantOpen),
+				},
+				chunkErrorPolicy: 'skip',
 			});
 
-			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
-				'Initial refine error',
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(model.invoke).toHaveBeenCalledTimes(4);
+			expect(result.output.cache).toEqual({ hits: 0, misses: 3 });
+			expect(result.output.failedChunks).toEqual([]);
+		});
+
+		it('should not report cache stats without a cache', async () => {
+			const chain = new BatchedSummarizationChain({ model: mockModel, type: 'map_reduce' });
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.cache).toBeUndefined();
+		});
+	});
+
+	describe('Retry On Transient Errors', () => {
+		it('should retry failed map calls without losing completed summaries', async () => {
+			const flakyModel = new FlakyChatModel(
+				['Summary 1', 'Summary 2', 'Summary 3', 'Final combined summary'],
+				2,
 			);
+
+			const chain = new BatchedSummarizationChain({
+				model: flakyModel,
+				type: 'map_reduce',
+				batchSize: 1,
+				retryPolicy: { maxAttempts: 3, baseDelay: 100, jitter: false },
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Final combined summary');
+			expect(result.output.intermediateSteps.map((step: any) => step.text)).toEqual([
+				'Summary 1',
+				'Summary 2',
+				'Summary 3',
+			]);
+			// Every second call fails: 4 successful calls + 3 failed ones
+			expect(flakyModel.calls).toBe(7);
+			expect(mockSleep).toHaveBeenCalledWith(100);
 		});
 
-		it('should handle errors during refinement steps in refine', async () => {
-			const errorModel = {
-				invoke: vi
-					.fn()
-					.mockResolvedValueOnce('Initial summary')
-					.mockRejectedValue(new Error('Refinement error')),
-			} as any;
+		it('should retry refine steps', async () => {
+			const flakyModel = new FlakyChatModel(['Summary 1', 'Summary 2', 'Summary 3'], 3, 503);
 
 			const chain = new BatchedSummarizationChain({
-				model: errorModel,
+				model: flakyModel,
 				type: 'refine',
-				batchSize: 1,
+				retryPolicy: { maxAttempts: 2, baseDelay: 50, jitter: false },
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Summary 3');
+			expect(flakyModel.calls).toBe(4);
+		});
+
+		it('should fail once all attempts are used', async () => {
+			const flakyModel = new FlakyChatModel(['Summary 1'], 1);
+
+			const chain = new BatchedSummarizationChain({
+				model: flakyModel,
+				type: 'stuff',
+				retryPolicy: { maxAttempts: 2, baseDelay: 50, jitter: false },
 			});
 
 			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
-				'Refinement error',
+				'Provider error 429',
 			);
+			expect(flakyModel.calls).toBe(2);
 		});
-	});
 
-	describe('Large Batch Processing', () => {
-		it('should handle large batches efficiently', async () => {
-			const largeBatchDocuments = Array.from({ length: 10 }, (_, i) => ({
-				pageContent: `Document ${i + 1} content`,
-				metadata: { id: i + 1 },
-			}));
+		it('should not retry non-transient errors', async () => {
+			const errorModel = {
+				invoke: vi.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 })),
+			} as any;
 
-			const manyResponsesModel = new FakeListChatModel({
-				responses: Array.from({ length: 12 }, (_, i) => `Response ${i + 1}`),
+			const chain = new BatchedSummarizationChain({
+				model: errorModel,
+				type: 'stuff',
 			});
 
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow('Bad request');
+			expect(errorModel.invoke).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('Rate Limiter', () => {
+		it('should replace the fixed delay between batches', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: manyResponsesModel,
+				model: mockModel,
 				type: 'map_reduce',
-				batchSize: 3,
-				delayBetweenBatches: 100,
+				batchSize: 1,
+				delayBetweenBatches: 500,
+				rateLimit: { requestsPerMinute: 100 },
 			});
 
-			const result = await chain.invoke({ input_documents: largeBatchDocuments });
+			const result = await chain.invoke({ input_documents: documents });
 
-			expect(result).toHaveProperty('output');
-			expect(mockSleep).toHaveBeenCalledWith(100);
+			expect(result.output.text).toBe('Final combined summary');
+			expect(mockSleep).not.toHaveBeenCalledWith(500);
+			expect(result.output.rateLimit).toEqual({
+				concurrency: 1,
+				rateLimitedCount: 0,
+				waitedMs: 0,
+			});
 		});
-	});
-
-	describe('Performance and Batching Logic', () => {
-		it('should minimize model calls with appropriate batching', async () => {
-			const spyModel = {
-				invoke: vi.fn().mockResolvedValue('test response'),
-			} as any;
 
+		it('should keep map summaries in document order', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: spyModel,
+				model: mockModel,
 				type: 'map_reduce',
-				batchSize: 5, // Larger batch size
+				batchSize: 2,
+				rateLimit: { tokensPerMinute: 100000 },
+				returnIntermediateSteps: true,
 			});
 
-			const manyDocuments = Array.from({ length: 10 }, (_, i) => ({
-				pageContent: `Document ${i + 1}`,
-				metadata: { id: i + 1 },
-			}));
-
-			await chain.invoke({ input_documents: manyDocuments });
+			const result = await chain.invoke({ input_documents: documents });
 
-			// Should be called once per document for map phase + once for reduce phase
-			expect(spyModel.invoke).toHaveBeenCalledTimes(11);
+			expect(result.output.intermediateSteps.map((step: any) => step.chunkIndex)).toEqual([
+				0, 1, 2,
+			]);
 		});
 
-		it('should handle batch size larger than document count', async () => {
+		it('should pace requests once the request budget is used up', async () => {
 			const chain = new BatchedSummarizationChain({
 				model: mockModel,
-				type: 'map_reduce',
-				batchSize: 10, // Larger than document count
+				type: 'refine',
+				rateLimit: { requestsPerMinute: 2 },
 			});
 
 			const result = await chain.invoke({ input_documents: documents });
 
-			expect(result).toHaveProperty('output');
-			expect(mockSleep).not.toHaveBeenCalled(); // No delays needed
+			// The third call has to wait for the budget to refill
+			expect(result.output.rateLimit.waitedMs).toBeGreaterThan(0);
+			expect(mockSleep).toHaveBeenCalled();
 		});
 
-		it('should call sleep with correct delay values in map_reduce', async () => {
+		it('should shrink concurrency after rate limit errors and share the limiter with retries', async () => {
+			const flakyModel = new FlakyChatModel(
+				['Summary 1', 'Summary 2', 'Summary 3', 'Final combined summary'],
+				2,
+			);
+
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
+				model: flakyModel,
 				type: 'map_reduce',
-				batchSize: 2,
-				delayBetweenBatches: 150,
+				batchSize: 4,
+				rateLimit: { requestsPerMinute: 1000 },
+				retryPolicy: { maxAttempts: 3, baseDelay: 10, jitter: false },
 			});
 
-			const manyDocuments = Array.from({ length: 5 }, (_, i) => ({
-				pageContent: `Document ${i + 1}`,
-				metadata: { id: i + 1 },
-			}));
+			const result = await chain.invoke({ input_documents: documents });
 
-			await chain.invoke({ input_documents: manyDocuments });
+			expect(result.output.text).toBe('Final combined summary');
+			expect(result.output.rateLimit.rateLimitedCount).toBeGreaterThan(0);
+			expect(result.output.rateLimit.concurrency).toBeLessThan(4);
+		});
+	});
 
-			// With 5 docs and batch size 2: batch1(2 docs), sleep, batch2(2 docs), sleep, batch3(1 doc)
-			// = 2 sleep calls between 3 batches
-			expect(mockSleep).toHaveBeenCalledWith(150);
-			expect(mockSleep).toHaveBeenCalledTimes(2);
+	describe('Cancellation', () => {
+		it('should not call the model when the signal already fired', async () => {
+			const spyModel = { invoke: vi.fn().mockResolvedValue('test response') } as any;
+			const controller = new AbortController();
+			controller.abort();
+
+			const chain = new BatchedSummarizationChain({ model: spyModel, type: 'map_reduce' });
+
+			await expect(
+				chain.invoke({ input_documents: documents }, { signal: controller.signal }),
+			).rejects.toThrow(SummarizationCancelledError);
+			expect(spyModel.invoke).not.toHaveBeenCalled();
 		});
 
-		it('should validate exact sleep call sequence in refine method', async () => {
+		it('should pass a signal following the caller signal to every model call', async () => {
+			const spyModel = { invoke: vi.fn().mockResolvedValue('test response') } as any;
+			const controller = new AbortController();
+
+			const chain = new BatchedSummarizationChain({ model: spyModel, type: 'map_reduce' });
+			await chain.invoke({ input_documents: documents }, { signal: controller.signal });
+
+			expect(spyModel.invoke).toHaveBeenCalledTimes(4);
+			const signals = spyModel.invoke.mock.calls.map((call: any[]) => call[1].signal);
+			expect(signals[0]).toBeInstanceOf(AbortSignal);
+			expect(new Set(signals).size).toBe(1);
+		});
+
+		it('should stop calls in flight once the run fails', async () => {
+			const signals: AbortSignal[] = [];
 			const spyModel = {
-				invoke: vi.fn().mockResolvedValue('test response'),
+				invoke: vi.fn(async (prompt: string, options: { signal: AbortSignal }) => {
+					signals.push(options.signal);
+					if (prompt.includes('Document 1')) {
+						throw new Error('Invalid request');
+					}
+					return await new Promise(() => {});
+				}),
 			} as any;
 
 			const chain = new BatchedSummarizationChain({
 				model: spyModel,
-				type: 'refine',
-				batchSize: 2,
-				delayBetweenBatches: 250,
+				type: 'map_reduce',
+				schedulingMode: 'pool',
+				retryPolicy: { maxAttempts: 1 },
 			});
 
-			const testDocs = Array.from({ length: 6 }, (_, i) => ({
-				pageContent: `Document ${i + 1} content`,
-				metadata: { id: i + 1 },
-			}));
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				'Invalid request',
+			);
+			expect(signals.every((signal) => signal.aborted)).toBe(true);
+		});
 
-			await chain.invoke({ input_documents: testDocs });
+		it('should stop starting new batches once cancelled', async () => {
+			const controller = new AbortController();
+			const spyModel = {
+				invoke: vi.fn().mockImplementation(async () => {
+					controller.abort();
+					return 'test response';
+				}),
+			} as any;
 
-			// Refine: 1 initial doc + 5 remaining docs
-			// Remaining docs in batches of 2: batch1(2), sleep, batch2(2), sleep, batch3(1)
-			// = 2 sleep calls
-			expect(mockSleep).toHaveBeenCalledWith(250);
-			expect(mockSleep).toHaveBeenCalledTimes(2);
+			const chain = new BatchedSummarizationChain({
+				model: spyModel,
+				type: 'map_reduce',
+				batchSize: 1,
+			});
+
+			await expect(
+				chain.invoke({ input_documents: documents }, { signal: controller.signal }),
+			).rejects.toThrow('Summarization was cancelled');
+			expect(spyModel.invoke).toHaveBeenCalledTimes(1);
 		});
 
-		it('should not call sleep when only one batch needed', async () => {
+		it('should stop refining once cancelled', async () => {
+			const controller = new AbortController();
+			const spyModel = {
+				invoke: vi
+					.fn()
+					.mockResolvedValueOnce('Initial summary')
+					.mockImplementation(async () => {
+						controller.abort();
+						return 'Refined summary';
+					}),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({ model: spyModel, type: 'refine', batchSize: 5 });
+
+			await expect(
+				chain.invoke({ input_documents: documents }, { signal: controller.signal }),
+			).rejects.toThrow(SummarizationCancelledError);
+			expect(spyModel.invoke).toHaveBeenCalledTimes(2);
+		});
+
+		it('should interrupt the delay between batches', async () => {
+			const controller = new AbortController();
+			mockSleep.mockImplementationOnce(() => {
+				controller.abort();
+				return new Promise(() => {});
+			});
+
 			const chain = new BatchedSummarizationChain({
 				model: mockModel,
 				type: 'map_reduce',
-				batchSize: 5,
-				delayBetweenBatches: 100,
+				batchSize: 1,
+				delayBetweenBatches: 60000,
 			});
 
-			const smallDocuments = Array.from({ length: 3 }, (_, i) => ({
-				pageContent: `Document ${i + 1}`,
-				metadata: { id: i + 1 },
-			}));
+			await expect(
+				chain.invoke({ input_documents: documents }, { signal: controller.signal }),
+			).rejects.toThrow(SummarizationCancelledError);
+		});
 
-			await chain.invoke({ input_documents: smallDocuments });
+		it('should not wait for a model call that ignores the signal', async () => {
+			const controller = new AbortController();
+			const hangingModel = {
+				invoke: vi.fn().mockImplementation(() => {
+					setTimeout(() => controller.abort(), 0);
+					return new Promise(() => {});
+				}),
+			} as any;
 
-			// Only one batch (3 docs fit in batch size 5), so no delays
-			expect(mockSleep).not.toHaveBeenCalled();
-		});
-	});
+			const chain = new BatchedSummarizationChain({ model: hangingModel, type: 'stuff' });
 
-	describe('Edge Cases and Context Limits', () => {
-		beforeEach(() => {
-			vi.clearAllMocks();
+			await expect(
+				chain.invoke({ input_documents: documents }, { signal: controller.signal }),
+			).rejects.toThrow(SummarizationCancelledError);
 		});
 
-		it('should handle very large documents in stuff method', async () => {
-			const largeText = 'This is a very long document '.repeat(1000);
-			const largeDocument = {
-				pageContent: largeText,
-				metadata: { id: 'large' },
-			};
+		it('should not retry calls aborted by the signal', async () => {
+			const controller = new AbortController();
+			const abortingModel = {
+				invoke: vi.fn().mockImplementation(async () => {
+					controller.abort();
+					throw Object.assign(new Error('Request timed out'), { status: 503 });
+				}),
+			} as any;
 
+			const chain = new BatchedSummarizationChain({
+				model: abortingModel,
+				type: 'stuff',
+				retryPolicy: { maxAttempts: 5 },
+			});
+
+			await expect(
+				chain.invoke({ input_documents: documents }, { signal: controller.signal }),
+			).rejects.toThrow(SummarizationCancelledError);
+			expect(abortingModel.invoke).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('withConfig method', () => {
+		it('should apply config to model if model has withConfig method', () => {
 			const chain = new BatchedSummarizationChain({
 				model: mockModel,
 				type: 'stuff',
 			});
 
-			const result = await chain.invoke({ input_documents: [largeDocument] });
+			const config = { temperature: 0.5 };
+			const chainWithConfig = chain.withConfig(config);
 
-			expect(result).toHaveProperty('output');
-			expect(result.output.text).toBe('Summary 1');
+			expect(chainWithConfig).toBeInstanceOf(BatchedSummarizationChain);
 		});
 
-		it('should handle zero batch size gracefully', async () => {
+		it('should handle model without withConfig method gracefully', () => {
+			const modelWithoutConfig = {
+				invoke: vi.fn().mockResolvedValue('test response'),
+			} as any;
+
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
+				model: modelWithoutConfig,
+				type: 'stuff',
+			});
+
+			const config = { temperature: 0.5 };
+			const chainWithConfig = chain.withConfig(config);
+
+			expect(chainWithConfig).toBeInstanceOf(BatchedSummarizationChain);
+		});
+	});
+
+	describe('Error Handling', () => {
+		it('should throw error for unknown summarization type', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'unknown' as SummarizationType,
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				'Unknown summarization type: unknown',
+			);
+		});
+
+		it('should handle model errors gracefully', async () => {
+			const errorModel = {
+				invoke: vi.fn().mockRejectedValue(new Error('Model error')),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: errorModel,
+				type: 'stuff',
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow('Model error');
+		});
+
+		it('should handle errors during map phase in map_reduce', async () => {
+			const errorModel = {
+				invoke: vi
+					.fn()
+					.mockRejectedValueOnce(new Error('Map phase error'))
+					.mockResolvedValue('Recovery response'),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: errorModel,
+				type: 'map_reduce',
+				batchSize: 1,
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow('Map phase error');
+		});
+
+		it('should handle errors during reduce phase in map_reduce', async () => {
+			const errorModel = {
+				invoke: vi
+					.fn()
+					.mockResolvedValueOnce('Map success')
+					.mockResolvedValueOnce('Map success')
+					.mockResolvedValueOnce('Map success')
+					.mockRejectedValueOnce(new Error('Reduce phase error')),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: errorModel,
+				type: 'map_reduce',
+				batchSize: 1,
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				'Reduce phase error',
+			);
+		});
+
+		it('should handle errors during initial step in refine', async () => {
+			const errorModel = {
+				invoke: vi.fn().mockRejectedValue(new Error('Initial refine error')),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: errorModel,
+				type: 'refine',
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				'Initial refine error',
+			);
+		});
+
+		it('should handle errors during refinement steps in refine', async () => {
+			const errorModel = {
+				invoke: vi
+					.fn()
+					.mockResolvedValueOnce('Initial summary')
+					.mockRejectedValue(new Error('Refinement error')),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: errorModel,
+				type: 'refine',
+				batchSize: 1,
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				'Refinement error',
+			);
+		});
+	});
+
+	describe('Large Batch Processing', () => {
+		it('should handle large batches efficiently', async () => {
+			const largeBatchDocuments = Array.from({ length: 10 }, (_, i) => ({
+				pageContent: `Document ${i + 1} content`,
+				metadata: { id: i + 1 },
+			}));
+
+			const manyResponsesModel = new FakeListChatModel({
+				responses: Array.from({ length: 12 }, (_, i) => `Response ${i + 1}`),
+			});
+
+			const chain = new BatchedSummarizationChain({
+				model: manyResponsesModel,
+				type: 'map_reduce',
+				batchSize: 3,
+				delayBetweenBatches: 100,
+			});
+
+			const result = await chain.invoke({ input_documents: largeBatchDocuments });
+
+			expect(result).toHaveProperty('output');
+			expect(mockSleep).toHaveBeenCalledWith(100);
+		});
+	});
+
+	describe('Performance and Batching Logic', () => {
+		it('should minimize model calls with appropriate batching', async () => {
+			const spyModel = {
+				invoke: vi.fn().mockResolvedValue('test response'),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: spyModel,
+				type: 'map_reduce',
+				batchSize: 5, // Larger batch size
+			});
+
+			const manyDocuments = Array.from({ length: 10 }, (_, i) => ({
+				pageContent: `Document ${i + 1}`,
+				metadata: { id: i + 1 },
+			}));
+
+			await chain.invoke({ input_documents: manyDocuments });
+
+			// Should be called once per document for map phase + once for reduce phase
+			expect(spyModel.invoke).toHaveBeenCalledTimes(11);
+		});
+
+		it('should handle batch size larger than document count', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 10, // Larger than document count
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result).toHaveProperty('output');
+			expect(mockSleep).not.toHaveBeenCalled(); // No delays needed
+		});
+
+		it('should call sleep with correct delay values in map_reduce', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 2,
+				delayBetweenBatches: 150,
+			});
+
+			const manyDocuments = Array.from({ length: 5 }, (_, i) => ({
+				pageContent: `Document ${i + 1}`,
+				metadata: { id: i + 1 },
+			}));
+
+			await chain.invoke({ input_documents: manyDocuments });
+
+			// With 5 docs and batch size 2: batch1(2 docs), sleep, batch2(2 docs), sleep, batch3(1 doc)
+			// = 2 sleep calls between 3 batches
+			expect(mockSleep).toHaveBeenCalledWith(150);
+			expect(mockSleep).toHaveBeenCalledTimes(2);
+		});
+
+		it('should validate exact sleep call sequence in refine method', async () => {
+			const spyModel = {
+				invoke: vi.fn().mockResolvedValue('test response'),
+			} as any;
+
+			const chain = new BatchedSummarizationChain({
+				model: spyModel,
+				type: 'refine',
+				batchSize: 2,
+				delayBetweenBatches: 250,
+			});
+
+			const testDocs = Array.from({ length: 6 }, (_, i) => ({
+				pageContent: `Document ${i + 1} content`,
+				metadata: { id: i + 1 },
+			}));
+
+			await chain.invoke({ input_documents: testDocs });
+
+			// Refine: 1 initial doc + 5 remaining docs
+			// Remaining docs in batches of 2: batch1(2), sleep, batch2(2), sleep, batch3(1)
+			// = 2 sleep calls
+			expect(mockSleep).toHaveBeenCalledWith(250);
+			expect(mockSleep).toHaveBeenCalledTimes(2);
+		});
+
+		it('should not call sleep when only one batch needed', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 5,
+				delayBetweenBatches: 100,
+			});
+
+			const smallDocuments = Array.from({ length: 3 }, (_, i) => ({
+				pageContent: `Document ${i + 1}`,
+				metadata: { id: i + 1 },
+			}));
+
+			await chain.invoke({ input_documents: smallDocuments });
+
+			// Only one batch (3 docs fit in batch size 5), so no delays
+			expect(mockSleep).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Edge Cases and Context Limits', () => {
+		beforeEach(() => {
+			vi.clearAllMocks();
+		});
+
+		it('should handle very large documents in stuff method', async () => {
+			const largeText = 'This is a very long document '.repeat(1000);
+			const largeDocument = {
+				pageContent: largeText,
+				metadata: { id: 'large' },
+			};
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'stuff',
+			});
+
+			const result = await chain.invoke({ input_documents: [largeDocument] });
+
+			expect(result).toHaveProperty('output');
+			expect(result.output.text).toBe('Summary 1');
+		});
+
+		it('should handle zero batch size gracefully', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 0, // Invalid batch size
+			});
+
+			// Should still work, treating 0 as 1
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result).toHaveProperty('output');
+		});
+
+		it('should handle negative batch size gracefully', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'refine',
+				batchSize: -1, // Invalid batch size
+			});
+
+			// Should still work with some default behavior
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result).toHaveProperty('output');
+		});
+
+		it('should handle very long delay times with mocked sleep', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 1,
+				delayBetweenBatches: 10000, // Very long delay (but mocked)
+			});
+
+			await chain.invoke({ input_documents: documents.slice(0, 2) });
+
+			expect(mockSleep).toHaveBeenCalledWith(10000);
+			expect(mockSleep).toHaveBeenCalledTimes(1);
+		});
+
+		it('should handle documents with complex metadata', async () => {
+			const complexDocuments = [
+				{
+					pageContent: 'Document with complex metadata',
+					metadata: {
+						id: 1,
+						nested: { property: 'value' },
+						array: [1, 2, 3],
+						nullValue: null,
+						undefinedValue: undefined,
+					},
+				},
+			];
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'stuff',
+			});
+
+			const result = await chain.invoke({ input_documents: complexDocuments });
+
+			expect(result).toHaveProperty('output');
+		});
+
+		it('should handle documents with special characters', async () => {
+			const specialCharDocuments = [
+				{
+					pageContent: 'Document with émojis 🚀 and special chars: áéíóú ñ ç §±∞',
+					metadata: { id: 'special' },
+				},
+			];
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'stuff',
+			});
+
+			const result = await chain.invoke({ input_documents: specialCharDocuments });
+
+			expect(result).toHaveProperty('output');
+		});
+
+		it('should handle very small documents with batching', async () => {
+			const tinyDocuments = [
+				{ pageContent: 'A', metadata: { id: 1 } },
+				{ pageContent: 'B', metadata: { id: 2 } },
+				{ pageContent: 'C', metadata: { id: 3 } },
+			];
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				batchSize: 2,
+				delayBetweenBatches: 100,
+			});
+
+			const result = await chain.invoke({ input_documents: tinyDocuments });
+
+			expect(result).toHaveProperty('output');
+			// Should call sleep once (between 2 batches: first with 2 docs, second with 1 doc)
+			expect(mockSleep).toHaveBeenCalledWith(100);
+			expect(mockSleep).toHaveBeenCalledTimes(1);
+		});
+
+		it('should handle documents with only whitespace', async () => {
+			const whitespaceDocuments = [
+				{ pageContent: '   ', metadata: { id: 1 } },
+				{ pageContent: '\n\n\n', metadata: { id: 2 } },
+				{ pageContent: '\t\t\t', metadata: { id: 3 } },
+			];
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'refine',
+				batchSize: 2,
+				delayBetweenBatches: 50,
+			});
+
+			const result = await chain.invoke({ input_documents: whitespaceDocuments });
+
+			expect(result).toHaveProperty('output');
+			// Refine: 1 initial + 2 remaining docs in 1 batch = no sleep needed
+			expect(mockSleep).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Output Size Validation', () => {
+		it('should include size validation in output when outputSize is set', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'stuff',
+				outputSize: 50,
+				sizeMeasurement: 'characters',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result).toHaveProperty('output');
+			expect(result.output).toHaveProperty('text');
+			expect(result.output).toHaveProperty('sizeValidation');
+			expect(result.output.sizeValidation).toHaveProperty('isValid');
+			expect(result.output.sizeValidation).toHaveProperty('actualSize');
+			expect(result.output.sizeValidation).toHaveProperty('maxSize', 50);
+			expect(result.output.sizeValidation).toHaveProperty('unit', 'characters');
+		});
+
+		it('should include size validation for token measurement', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				outputSize: 100,
+				sizeMeasurement: 'tokens',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.sizeValidation).toHaveProperty('unit', 'tokens');
+		});
+
+		it('should measure tokens with the encoding of the connected model', async () => {
+			// Emoji take more tokens with cl100k than with o200k
+			const response = '📈📊📉 '.repeat(10);
+			const createModel = (modelName: string) => ({
+				modelName,
+				invoke: vi.fn().mockResolvedValue(response),
+			});
+
+			const run = async (model: any, tokenizer?: 'o200k_base' | 'cl100k_base') =>
+				await new BatchedSummarizationChain({
+					model,
+					type: 'stuff',
+					outputSize: 1000,
+					sizeMeasurement: 'tokens',
+					tokenizer,
+				}).invoke({ input_documents: documents });
+
+			const gpt4o = await run(createModel('gpt-4o'));
+			const gpt4 = await run(createModel('gpt-4'));
+			const overridden = await run(createModel('gpt-4o'), 'cl100k_base');
+
+			expect(gpt4o.output.sizeValidation.tokenizer).toBe('o200k_base');
+			expect(gpt4.output.sizeValidation.tokenizer).toBe('cl100k_base');
+			expect(gpt4o.output.sizeValidation.actualSize).not.toBe(
+				gpt4.output.sizeValidation.actualSize,
+			);
+			expect(overridden.output.sizeValidation).toMatchObject({
+				tokenizer: 'cl100k_base',
+				actualSize: gpt4.output.sizeValidation.actualSize,
+			});
+		});
+
+		it('should measure tokens with the encoding of the combine model', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: { modelName: 'gpt-4', invoke: vi.fn().mockResolvedValue('Chunk summary') } as any,
+				combineModel: {
+					modelName: 'gpt-4o',
+					invoke: vi.fn().mockResolvedValue('Final summary'),
+				} as any,
+				type: 'map_reduce',
+				outputSize: 1000,
+				sizeMeasurement: 'tokens',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.sizeValidation.tokenizer).toBe('o200k_base');
+		});
+
+		it('should include warning when output exceeds size limit', async () => {
+			const longResponse = 'A'.repeat(200); // Long response
+			const mockLongModel = new FakeListChatModel({
+				responses: [longResponse, longResponse, longResponse, longResponse],
+			});
+
+			// Only the prompt strategy keeps answers that exceed the limit
+			const chain = new BatchedSummarizationChain({
+				model: mockLongModel,
+				type: 'stuff',
+				outputSize: 50,
+				sizeMeasurement: 'characters',
+				sizeEnforcement: 'prompt',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.sizeValidation.isValid).toBe(false);
+			expect(result.output.sizeValidation.actualSize).toBeGreaterThan(50);
+			expect(result.output.sizeValidation).toHaveProperty('warning');
+			expect(result.output.sizeValidation.warning).toContain('exceeds limit');
+		});
+
+		it('should work without outputSize set', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'stuff',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.sizeValidation.isValid).toBe(true);
+			expect(result.output.sizeValidation).not.toHaveProperty('maxSize');
+			expect(result.output.sizeValidation).not.toHaveProperty('warning');
+		});
+
+		it('should retry with shorter prompts when output exceeds limit', async () => {
+			// Create a model that first returns long text, then shorter text on retry
+			const mockRetryModel = new FakeListChatModel({
+				responses: [
+					'A'.repeat(200), // First response is too long
+					'Short summary', // Retry response fits
+				],
+			});
+
+			const chain = new BatchedSummarizationChain({
+				model: mockRetryModel,
+				type: 'stuff',
+				outputSize: 50,
+				sizeMeasurement: 'characters',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Short summary');
+			expect(result.output.sizeValidation.isValid).toBe(true);
+			expect(result.output.sizeValidation.retryCount).toBe(1);
+			expect(result.output.sizeValidation.actualSize).toBeLessThanOrEqual(50);
+		});
+
+		it('should include retryCount in sizeValidation when no retry needed', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'stuff',
+				outputSize: 500, // Large enough to not trigger retry
+				sizeMeasurement: 'characters',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.sizeValidation.retryCount).toBe(0);
+		});
+
+		it('should include system guidelines in prompts when outputSize is set', async () => {
+			const mockModelWithPromptCapture = {
+				invoke: vi.fn().mockResolvedValue('Short summary'),
+			};
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModelWithPromptCapture as any,
+				type: 'stuff',
+				outputSize: 100,
+				sizeMeasurement: 'tokens',
+			});
+
+			await chain.invoke({ input_documents: documents });
+
+			// Verify that the model was called with a prompt containing system guidelines
+			expect(mockModelWithPromptCapture.invoke).toHaveBeenCalled();
+			const calledPrompt = mockModelWithPromptCapture.invoke.mock.calls[0][0];
+
+			expect(calledPrompt).toContain('CRITICAL SIZE LIMIT');
+			expect(calledPrompt).toContain('100 tokens');
+			expect(calledPrompt).toContain('STRICT LIMIT');
+			expect(calledPrompt).toContain('automatically validated');
+		});
+
+		it('should use agent with counting tools when useAgent is true', async () => {
+			const mockModelWithAgent = {
+				invoke: vi.fn().mockResolvedValue('Agent-generated summary within limit'),
+			};
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModelWithAgent as any,
+				type: 'stuff',
+				outputSize: 100,
+				sizeMeasurement: 'characters',
+				useAgent: true, // Enable agent mode
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Agent-generated summary within limit');
+			expect(result.output.sizeValidation.actualSize).toBeLessThanOrEqual(100);
+		});
+
+		it('should fallback to traditional approach when useAgent is false', async () => {
+			const mockModelTraditional = {
+				invoke: vi.fn().mockResolvedValue('Traditional summary'),
+			};
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModelTraditional as any,
+				type: 'stuff',
+				outputSize: 100,
+				sizeMeasurement: 'characters',
+				useAgent: false, // Disable agent mode (default)
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Traditional summary');
+			// Should still have size validation but use traditional retry if needed
+			expect(result.output.sizeValidation).toHaveProperty('actualSize');
+		});
+
+		it('should use progressively stricter retry prompts', async () => {
+			const mockModelWithStrictPrompts = {
+				invoke: vi.fn()
+					.mockResolvedValueOnce('A'.repeat(200)) // First response too long
+					.mockResolvedValueOnce('B'.repeat(150)) // Second response still too long
+					.mockResolvedValueOnce('Short final'), // Third response fits
+			};
+
+			const chain = new BatchedSummarizationChain({
+				model: mockModelWithStrictPrompts as any,
+				type: 'stuff',
+				outputSize: 50,
+				sizeMeasurement: 'characters',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			// Should have made 3 calls (initial + 2 retries)
+			expect(mockModelWithStrictPrompts.invoke).toHaveBeenCalledTimes(3);
+
+			// Verify retry prompts get progressively stricter
+			const calls = mockModelWithStrictPrompts.invoke.mock.calls;
+
+			// Second call should be retry attempt 1
+			expect(calls[1][0]).toContain('SIZE VIOLATION');
+			expect(calls[1][0]).toContain('RETRY ATTEMPT 1');
+
+			// Third call should be retry attempt 2
+			expect(calls[2][0]).toContain('FINAL WARNING');
+			expect(calls[2][0]).toContain('RETRY ATTEMPT 2');
+
+			expect(result.output.text).toBe('Short final');
+			expect(result.output.sizeValidation.retryCount).toBe(1);
+		});
+	});
+	describe('Size Enforcement Strategy', () => {
+		const longText = 'The quarter closed with strong growth. '.repeat(10);
+
+		const createModel = (...responses: string[]) => {
+			const invoke = vi.fn();
+			responses.forEach((response) => invoke.mockResolvedValueOnce(response));
+			return { invoke };
+		};
+
+		const runStuff = async (model: any, sizeEnforcement?: any, extra: object = {}) =>
+			await new BatchedSummarizationChain({
+				model,
+				type: 'stuff',
+				outputSize: 50,
+				sizeMeasurement: 'characters',
+				sizeEnforcement,
+				...extra,
+			}).invoke({ input_documents: documents });
+
+		it('should default to retry and report the prompt when the first answer fits', async () => {
+			const result = await runStuff(createModel('Short summary'));
+
+			expect(result.output.sizeValidation).toMatchObject({
+				strategy: 'retry',
+				appliedStrategy: 'prompt',
+				retryCount: 0,
+			});
+		});
+
+		it('should report retry when a stricter prompt produced the text', async () => {
+			const model = createModel(longText, 'Short summary');
+
+			const result = await runStuff(model, 'retry');
+
+			expect(result.output.text).toBe('Short summary');
+			expect(result.output.sizeValidation).toMatchObject({
+				strategy: 'retry',
+				appliedStrategy: 'retry',
+				retryCount: 1,
+			});
+		});
+
+		it('should leave the prompt untouched and accept long answers with none', async () => {
+			const model = createModel(longText);
+
+			const result = await runStuff(model, 'none');
+
+			expect(model.invoke.mock.calls[0][0]).not.toContain('CRITICAL SIZE LIMIT');
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+			expect(result.output.text).toBe(longText);
+			expect(result.output.sizeValidation).toMatchObject({
+				isValid: false,
+				strategy: 'none',
+				appliedStrategy: 'none',
+			});
+		});
+
+		it('should only instruct the model with prompt', async () => {
+			const model = createModel(longText);
+
+			const result = await runStuff(model, 'prompt');
+
+			expect(model.invoke.mock.calls[0][0]).toContain('CRITICAL SIZE LIMIT');
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+			expect(result.output.sizeValidation).toMatchObject({
+				isValid: false,
+				strategy: 'prompt',
+				appliedStrategy: 'prompt',
+			});
+		});
+
+		it('should cut the text with truncate', async () => {
+			const model = createModel(longText);
+
+			const result = await runStuff(model, 'truncate');
+
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+			expect(result.output.text).toBe('The quarter closed with strong growth.');
+			expect(result.output.sizeValidation).toMatchObject({
+				isValid: true,
+				actualSize: 38,
+				truncated: true,
+				strategy: 'truncate',
+				appliedStrategy: 'truncate',
+			});
+		});
+
+		it('should truncate by tokens', async () => {
+			const model = createModel(longText);
+
+			const result = await runStuff(model, 'truncate', { sizeMeasurement: 'tokens', outputSize: 12 });
+
+			// Two sentences take 14 tokens, the cut keeps the first one
+			expect(result.output.text).toBe('The quarter closed with strong growth.');
+			expect(result.output.sizeValidation).toMatchObject({ isValid: true, truncated: true });
+			expect(result.output.sizeValidation.actualSize).toBeLessThanOrEqual(12);
+		});
+
+		it('should truncate the refined summary', async () => {
+			const model = { invoke: vi.fn().mockResolvedValue(longText) };
+			const chain = new BatchedSummarizationChain({
+				model: model as any,
+				type: 'refine',
+				outputSize: 50,
+				sizeEnforcement: 'truncate',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('The quarter closed with strong growth.');
+			expect(result.output.sizeValidation.appliedStrategy).toBe('truncate');
+		});
+
+		it('should truncate when the retries still exceed the limit', async () => {
+			const model = { invoke: vi.fn().mockResolvedValue(longText) };
+
+			const result = await runStuff(model, 'retry');
+
+			// Initial answer and three stricter prompts
+			expect(model.invoke).toHaveBeenCalledTimes(4);
+			expect(result.output.text).toBe('The quarter closed with strong growth.');
+			expect(result.output.sizeValidation).toMatchObject({
+				isValid: true,
+				retryCount: 1,
+				truncated: true,
+				strategy: 'retry',
+				appliedStrategy: 'truncate',
+			});
+		});
+
+		it('should not truncate when the answer fits', async () => {
+			const result = await runStuff(createModel('Short summary'), 'truncate');
+
+			expect(result.output.text).toBe('Short summary');
+			expect(result.output.sizeValidation.truncated).toBe(false);
+		});
+
+		it('should map useAgent to the agent strategy', () => {
+			const chain = new BatchedSummarizationChain({ model: mockModel, type: 'stuff', useAgent: true });
+
+			expect(chain['sizeEnforcement']).toBe('agent');
+		});
+
+		it('should fall back to the prompt when the model cannot run the agent', async () => {
+			const model = { invoke: vi.fn().mockResolvedValue('Short summary') };
+
+			const result = await runStuff(model, 'agent');
+
+			expect(result.output.text).toBe('Short summary');
+			expect(result.output.sizeValidation).toMatchObject({
+				strategy: 'agent',
+				appliedStrategy: 'prompt',
+			});
+		});
+
+		it('should report the agent when it produced the text', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'stuff',
+				outputSize: 50,
+				sizeEnforcement: 'agent',
+			});
+			vi.spyOn(chain as any, 'invokeSummarizationWithAgent').mockResolvedValue('Agent summary');
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Agent summary');
+			expect(result.output.sizeValidation).toMatchObject({
+				strategy: 'agent',
+				appliedStrategy: 'agent',
+			});
+		});
+	});
+
+	describe('Chunk Error Policy', () => {
+		/**
+		 * Model that refuses every prompt containing one of the given texts, like a content filter.
+		 */
+		const createFilteringModel = (refused: string[]) =>
+			({
+				invoke: vi.fn().mockImplementation(async (prompt: string) => {
+					if (refused.some((text) => prompt.includes(text))) {
+						throw Object.assign(new Error('Content filtered'), { status: 400 });
+					}
+					return `Summary of ${prompt.length} characters`;
+				}),
+			}) as any;
+
+		it('should fail the item by default', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createFilteringModel(['Document 2']),
+				type: 'map_reduce',
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				'Content filtered',
+			);
+		});
+
+		it('should not report coverage with the fail policy', async () => {
+			const chain = new BatchedSummarizationChain({ model: mockModel, type: 'map_reduce' });
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output).not.toHaveProperty('partial');
+			expect(result.output).not.toHaveProperty('failedChunks');
+		});
+
+		it.each(['batch', 'pool'] as const)(
+			'should skip failed map chunks in %s mode',
+			async (schedulingMode) => {
+				const model = createFilteringModel(['Document 2']);
+				const chain = new BatchedSummarizationChain({
+					model,
+					type: 'map_reduce',
+					schedulingMode,
+					chunkErrorPolicy: 'skip',
+				});
+
+				const result = await chain.invoke({ input_documents: documents });
+
+				expect(result.output.partial).toBe(true);
+				expect(result.output.coverage).toBeCloseTo(2 / 3);
+				expect(result.output.failedChunks).toEqual([
+					{ chunkIndex: 1, step: 'map', metadata: { id: 2 }, error: 'Content filtered' },
+				]);
+				// The combine step only sees the summaries of the remaining chunks
+				const combinePrompt = model.invoke.mock.calls.at(-1)[0];
+				expect(model.invoke).toHaveBeenCalledTimes(4);
+				expect(combinePrompt.split('Summary of').length - 1).toBe(2);
+			},
+		);
+
+		it('should report full coverage when no chunk fails', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: mockModel,
+				type: 'map_reduce',
+				chunkErrorPolicy: 'skip',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.partial).toBe(false);
+			expect(result.output.coverage).toBe(1);
+			expect(result.output.failedChunks).toEqual([]);
+		});
+
+		it('should fail when every chunk fails', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createFilteringModel(['Document']),
+				type: 'map_reduce',
+				chunkErrorPolicy: 'skip',
+			});
+
+			const error = await chain.invoke({ input_documents: documents }).catch((e) => e);
+
+			expect(error).toBeInstanceOf(AllChunksFailedError);
+			expect(error.message).toBe('All 3 chunks failed to summarize. First error: Content filtered');
+			expect(error.failedChunks).toHaveLength(3);
+		});
+
+		it('should not skip cancelled chunks', async () => {
+			const controller = new AbortController();
+			const model = {
+				invoke: vi.fn().mockImplementation(async () => {
+					controller.abort();
+					return 'test response';
+				}),
+			} as any;
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'map_reduce',
+				batchSize: 1,
+				chunkErrorPolicy: 'skip',
+			});
+
+			await expect(
+				chain.invoke({ input_documents: documents }, { signal: controller.signal }),
+			).rejects.toThrow(SummarizationCancelledError);
+		});
+
+		it('should keep the summary so far when a refine step fails', async () => {
+			const model = createFilteringModel(['Document 2']);
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'refine',
+				chunkErrorPolicy: 'skip',
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.coverage).toBeCloseTo(2 / 3);
+			expect(result.output.failedChunks).toEqual([
+				{ chunkIndex: 1, step: 'refine', metadata: { id: 2 }, error: 'Content filtered' },
+			]);
+			expect(
+				result.output.intermediateSteps.map((step: any) => [step.step, step.chunkIndex]),
+			).toEqual([
+				['initial', 0],
+				['refine', 2],
+			]);
+		});
+
+		it('should start refine from the first chunk that succeeds', async () => {
+			const model = createFilteringModel(['Document 1']);
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'refine',
+				chunkErrorPolicy: 'skip',
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.failedChunks).toEqual([
+				{ chunkIndex: 0, step: 'initial', metadata: { id: 1 }, error: 'Content filtered' },
+			]);
+			expect(
+				result.output.intermediateSteps.map((step: any) => [step.step, step.chunkIndex]),
+			).toEqual([
+				['initial', 1],
+				['refine', 2],
+			]);
+		});
+
+		it('should fail refine when every chunk fails', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createFilteringModel(['Document']),
+				type: 'refine',
+				chunkErrorPolicy: 'skip',
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				AllChunksFailedError,
+			);
+		});
+
+		it('should leave out hierarchical sections whose chunks all failed', async () => {
+			const sectionDocs: Document[] = [
+				{ pageContent: 'Intro one', metadata: { section: 'Intro' } },
+				{ pageContent: 'Intro two', metadata: { section: 'Intro' } },
+				{ pageContent: 'Refused body', metadata: { section: 'Body' } },
+			];
+			const chain = new BatchedSummarizationChain({
+				model: createFilteringModel(['Refused']),
+				type: 'hierarchical',
+				hierarchyKeys: ['section'],
+				chunkErrorPolicy: 'skip',
+			});
+
+			const result = await chain.invoke({ input_documents: sectionDocs });
+
+			expect(result.output.coverage).toBeCloseTo(2 / 3);
+			expect(result.output.outline.map((section: any) => section.value)).toEqual([
+				'Intro',
+				'Body',
+			]);
+			expect(result.output.outline[1].summary).toBe('');
+		});
+	});
+
+	describe('Refine Checkpoint', () => {
+		/**
+		 * Model that answers with the refined chunk number and fails on the given chunks.
+		 */
+		const createRefineModel = (failing: string[] = []) =>
+			({
+				invoke: vi.fn().mockImplementation(async (prompt: string) => {
+					if (failing.some((text) => prompt.includes(text))) {
+						throw Object.assign(new Error('Bad request'), { status: 400 });
+					}
+					return `Summary up to ${prompt.match(/Document (\d) content/g)!.at(-1)}`;
+				}),
+			}) as any;
+
+		it('should save progress and resume from the last step', async () => {
+			const checkpointStore = new StaticDataCheckpointStore({});
+			const failingChain = new BatchedSummarizationChain({
+				model: createRefineModel(['Document 3']),
+				type: 'refine',
+				checkpointStore,
+			});
+
+			await expect(failingChain.invoke({ input_documents: documents })).rejects.toThrow(
+				'Bad request',
+			);
+
+			const model = createRefineModel();
+			const chain = new BatchedSummarizationChain({ model, type: 'refine', checkpointStore });
+			const result = await chain.invoke({ input_documents: documents });
+
+			// Only the third document is left, refined on top of the saved summary
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+			expect(model.invoke.mock.calls[0][0]).toContain('Summary up to Document 2 content');
+			expect(result.output.text).toBe('Summary up to Document 3 content');
+			expect(result.output.checkpoint).toEqual({ resumedFrom: 2 });
+		});
+
+		it('should remove the checkpoint once the run completes', async () => {
+			const staticData: Record<string, any> = {};
+			const chain = new BatchedSummarizationChain({
+				model: createRefineModel(),
+				type: 'refine',
+				checkpointStore: new StaticDataCheckpointStore(staticData),
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.checkpoint).toEqual({ resumedFrom: 0 });
+			expect(staticData.refineCheckpoints).toEqual({});
+		});
+
+		it('should start over when the settings changed', async () => {
+			const checkpointStore = new StaticDataCheckpointStore({});
+			await new BatchedSummarizationChain({
+				model: createRefineModel(['Document 3']),
+				type: 'refine',
+				checkpointStore,
+			})
+				.invoke({ input_documents: documents })
+				.catch(() => {});
+
+			const model = createRefineModel();
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'refine',
+				refinePrompt: new PromptTemplate({
+					template: 'New refine prompt: {existing_answer} {text}',
+					inputVariables: ['existing_answer', 'text'],
+				}),
+				checkpointStore,
+			});
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(model.invoke).toHaveBeenCalledTimes(3);
+			expect(result.output.checkpoint).toEqual({ resumedFrom: 0 });
+		});
+
+		it('should restore the failed chunks of the previous run', async () => {
+			const checkpointStore = new StaticDataCheckpointStore({});
+			const controller = new AbortController();
+			await new BatchedSummarizationChain({
+				model: {
+					invoke: vi
+						.fn()
+						.mockResolvedValueOnce('Initial summary')
+						.mockRejectedValueOnce(Object.assign(new Error('Content filtered'), { status: 400 }))
+						.mockImplementationOnce(async () => {
+							controller.abort();
+							return 'Never used';
+						}),
+				} as any,
+				type: 'refine',
+				chunkErrorPolicy: 'skip',
+				checkpointStore,
+			})
+				.invoke({ input_documents: documents }, { signal: controller.signal })
+				.catch(() => {});
+
+			// The first run was cancelled on the last document
+			const chain = new BatchedSummarizationChain({
+				model: createRefineModel(),
+				type: 'refine',
+				chunkErrorPolicy: 'skip',
+				checkpointStore,
+			});
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.checkpoint).toEqual({ resumedFrom: 2 });
+			expect(result.output.failedChunks).toEqual([
+				{ chunkIndex: 1, step: 'refine', metadata: { id: 2 }, error: 'Content filtered' },
+			]);
+		});
+
+		it('should save the failed chunks of each step', async () => {
+			const saved: RefineCheckpoint[] = [];
+			const chain = new BatchedSummarizationChain({
+				model: createRefineModel(['Document 2']),
+				type: 'refine',
+				chunkErrorPolicy: 'skip',
+				checkpointStore: {
+					get: async () => undefined,
+					set: async (_key, checkpoint) => {
+						saved.push(checkpoint);
+					},
+					delete: async () => {},
+				},
+			});
+
+			await chain.invoke({ input_documents: documents });
+
+			expect(saved[0].failedChunks).toEqual([]);
+			expect(saved.at(-1)!.failedChunks.map((chunk) => chunk.chunkIndex)).toEqual([1]);
+		});
+
+		it('should refine without checkpoints when the store fails', async () => {
+			const storeError = async () => {
+				throw new Error('Disk full');
+			};
+			const chain = new BatchedSummarizationChain({
+				model: createRefineModel(),
+				type: 'refine',
+				checkpointStore: { get: storeError, set: storeError, delete: storeError },
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Summary up to Document 3 content');
+			expect(result.output.checkpoint).toEqual({ resumedFrom: 0 });
+		});
+	});
+
+	describe('Parallel Refine', () => {
+		const manyDocuments: Document[] = Array.from({ length: 7 }, (_, index) => ({
+			pageContent: `Chunk ${index}`,
+			metadata: { index },
+		}));
+
+		/**
+		 * Model that names the chunks its answer covers, so merges show the order of the parts.
+		 */
+		const createSegmentModel = () =>
+			({
+				invoke: vi.fn().mockImplementation(async (prompt: string) => {
+					const covered = prompt.match(/\[[^\]]*\]/g) ?? [];
+					const chunks = prompt.replace(/\[[^\]]*\]/g, '').match(/(Chunk|Document) \d/g) ?? [];
+					return `[${[...covered.map((part) => part.slice(1, -1)), ...chunks].join(', ')}]`;
+				}),
+			}) as any;
+
+		it('should refine contiguous segments and merge them in order', async () => {
+			const model = createSegmentModel();
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'parallel_refine',
+				refineSegments: 3,
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: manyDocuments });
+
+			expect(result.output.text).toBe(
+				'[Chunk 0, Chunk 1, Chunk 2, Chunk 3, Chunk 4, Chunk 5, Chunk 6]',
+			);
+			expect(result.output.segmentCount).toBe(3);
+			// 7 chunk steps plus 2 merges of the 3 segment summaries
+			expect(model.invoke).toHaveBeenCalledTimes(9);
+			expect(
+				result.output.intermediateSteps.map((step: any) => [step.step, step.chunkIndex]),
+			).toEqual([
+				['initial', 0],
+				['refine', 1],
+				['refine', 2],
+				['initial', 3],
+				['refine', 4],
+				['initial', 5],
+				['refine', 6],
+				['merge', 3],
+				['merge', 5],
+			]);
+		});
+
+		it('should refine the segments at the same time', async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+			const model = {
+				invoke: vi.fn().mockImplementation(async () => {
+					inFlight++;
+					maxInFlight = Math.max(maxInFlight, inFlight);
+					await new Promise((resolve) => setTimeout(resolve, 1));
+					inFlight--;
+					return 'Summary';
+				}),
+			} as any;
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'parallel_refine',
+				refineSegments: 4,
+			});
+
+			await chain.invoke({ input_documents: manyDocuments });
+
+			expect(maxInFlight).toBe(4);
+		});
+
+		it('should not use more segments than documents', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createSegmentModel(),
+				type: 'parallel_refine',
+				refineSegments: 10,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.segmentCount).toBe(3);
+			expect(result.output.text).toBe('[Document 1, Document 2, Document 3]');
+		});
+
+		it('should return an empty summary without documents', async () => {
+			const chain = new BatchedSummarizationChain({ model: mockModel, type: 'parallel_refine' });
+
+			const result = await chain.invoke({ input_documents: [] });
+
+			expect(result.output.text).toBe('');
+		});
+
+		it('should leave out segments whose chunks were all skipped', async () => {
+			const model = createSegmentModel();
+			const invoke = model.invoke.getMockImplementation();
+			model.invoke.mockImplementation(async (prompt: string) => {
+				if (prompt.includes('Chunk 3') || prompt.includes('Chunk 4')) {
+					throw Object.assign(new Error('Content filtered'), { status: 400 });
+				}
+				return await invoke(prompt);
+			});
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'parallel_refine',
+				refineSegments: 3,
+				chunkErrorPolicy: 'skip',
+			});
+
+			const result = await chain.invoke({ input_documents: manyDocuments });
+
+			expect(result.output.text).toBe('[Chunk 0, Chunk 1, Chunk 2, Chunk 5, Chunk 6]');
+			expect(result.output.coverage).toBeCloseTo(5 / 7);
+			expect(result.output.failedChunks.map((chunk: any) => chunk.chunkIndex)).toEqual([3, 4]);
+		});
+	});
+
+	describe('Incremental Summary', () => {
+		const existingSummary = 'Summary of yesterday';
+
+		const createEchoModel = () =>
+			({
+				invoke: vi.fn().mockImplementation(async (prompt: string) => `Answer ${prompt.length}`),
+			}) as any;
+
+		it('should merge the map summaries of the new documents into the existing summary', async () => {
+			const model = createEchoModel();
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'map_reduce',
+				existingSummary,
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			// 3 map calls and a single merge, no combine step
+			expect(model.invoke).toHaveBeenCalledTimes(4);
+			const mergePrompt = model.invoke.mock.calls[3][0] as string;
+			expect(mergePrompt).toContain(existingSummary);
+			expect(mergePrompt).not.toContain('Document 1 content');
+			expect(result.output.updatedExistingSummary).toBe(true);
+			expect(result.output.intermediateSteps.map((step: any) => step.step)).toEqual([
+				'map',
+				'map',
+				'map',
+				'merge',
+			]);
+		});
+
+		it.each(['stuff', 'parallel_refine', 'hierarchical'] as const)(
+			'should update the existing summary with %s',
+			async (type) => {
+				const model = createEchoModel();
+				const chain = new BatchedSummarizationChain({ model, type, existingSummary });
+
+				const result = await chain.invoke({ input_documents: documents });
+
+				expect(model.invoke).toHaveBeenCalledTimes(4);
+				expect(model.invoke.mock.calls[3][0]).toContain(existingSummary);
+				expect(result.output.text).toBe(await model.invoke.mock.results[3].value);
+			},
+		);
+
+		it('should refine the existing summary with every new document', async () => {
+			const model = createEchoModel();
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'refine',
+				existingSummary,
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(model.invoke).toHaveBeenCalledTimes(3);
+			expect(model.invoke.mock.calls[0][0]).toContain(existingSummary);
+			expect(model.invoke.mock.calls[0][0]).toContain('Document 1 content');
+			expect(result.output.intermediateSteps.map((step: any) => step.step)).toEqual([
+				'refine',
+				'refine',
+				'refine',
+			]);
+		});
+
+		it('should keep the existing summary without new documents', async () => {
+			const model = createEchoModel();
+			const chain = new BatchedSummarizationChain({ model, type: 'map_reduce', existingSummary });
+
+			const result = await chain.invoke({ input_documents: [] });
+
+			expect(model.invoke).not.toHaveBeenCalled();
+			expect(result.output.text).toBe(existingSummary);
+		});
+
+		it('should summarize from scratch when the existing summary is blank', async () => {
+			const model = createEchoModel();
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'map_reduce',
+				existingSummary: '  ',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.updatedExistingSummary).toBeUndefined();
+			expect(model.invoke.mock.calls[3][0]).not.toContain('existing summary');
+		});
+
+		it('should fail when every new document fails', async () => {
+			const model = {
+				invoke: vi.fn().mockRejectedValue(new Error('Model error')),
+			} as any;
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'refine',
+				existingSummary,
+				chunkErrorPolicy: 'skip',
+				retryPolicy: { maxAttempts: 1 },
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				AllChunksFailedError,
+			);
+		});
+	});
+
+	describe('Combine Model', () => {
+		const createUsageModel = (modelName: string, content: string) =>
+			({
+				modelName,
+				invoke: vi.fn().mockImplementation(
+					async () =>
+						new AIMessage({
+							content,
+							usage_metadata: { input_tokens: 100, output_tokens: 10, total_tokens: 110 },
+						}),
+				),
+			}) as any;
+
+		it('should summarize chunks with the model and combine them with the combine model', async () => {
+			const model = createUsageModel('gpt-4o-mini', 'Chunk summary');
+			const combineModel = createUsageModel('gpt-4o', 'Final summary');
+			const chain = new BatchedSummarizationChain({ model, combineModel, type: 'map_reduce' });
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(model.invoke).toHaveBeenCalledTimes(3);
+			expect(combineModel.invoke).toHaveBeenCalledTimes(1);
+			expect(result.output.text).toBe('Final summary');
+		});
+
+		it('should report the token usage of each model', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createUsageModel('gpt-4o-mini', 'Chunk summary'),
+				combineModel: createUsageModel('gpt-4o', 'Final summary'),
+				type: 'map_reduce',
+				pricing: [
+					{ model: 'gpt-4o-mini', promptPricePerMillion: 0.15, completionPricePerMillion: 0.6 },
+					{ model: 'gpt-4o', promptPricePerMillion: 2.5, completionPricePerMillion: 10 },
+				],
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.modelUsage).toEqual([
+				{
+					role: 'map',
+					model: 'gpt-4o-mini',
+					tokenUsage: {
+						promptTokens: 300,
+						completionTokens: 30,
+						totalTokens: 330,
+						estimated: false,
+					},
+					estimatedCost: 0.000063,
+				},
+				{
+					role: 'combine',
+					model: 'gpt-4o',
+					tokenUsage: {
+						promptTokens: 100,
+						completionTokens: 10,
+						totalTokens: 110,
+						estimated: false,
+					},
+					estimatedCost: 0.00035,
+				},
+			]);
+			expect(result.output.tokenUsage.totalTokens).toBe(440);
+			expect(result.output.estimatedCost).toBe(0.000413);
+		});
+
+		it('should collapse with the combine model', async () => {
+			// Three summaries of about 60 tokens do not fit into 100 tokens
+			const model = createUsageModel('gpt-4o-mini', 'word '.repeat(60));
+			const combineModel = createUsageModel('gpt-4o', 'Collapsed');
+			const chain = new BatchedSummarizationChain({
+				model,
+				combineModel,
+				type: 'map_reduce',
+				tokenMax: 100,
+				returnIntermediateSteps: true,
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			const collapseSteps = result.output.intermediateSteps.filter(
+				(step: any) => step.step === 'collapse',
+			);
+			expect(collapseSteps.length).toBeGreaterThan(0);
+			expect(model.invoke).toHaveBeenCalledTimes(3);
+			expect(combineModel.invoke).toHaveBeenCalledTimes(collapseSteps.length + 1);
+		});
+
+		it('should refine with the model', async () => {
+			const model = createUsageModel('gpt-4o-mini', 'Refined summary');
+			const combineModel = createUsageModel('gpt-4o', 'Final summary');
+			const chain = new BatchedSummarizationChain({ model, combineModel, type: 'refine' });
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(model.invoke).toHaveBeenCalledTimes(3);
+			expect(combineModel.invoke).not.toHaveBeenCalled();
+			expect(result.output.text).toBe('Refined summary');
+		});
+
+		it('should retry oversized summaries with the combine model', async () => {
+			const model = createUsageModel('gpt-4o-mini', 'Refined summary that is far too long');
+			const combineModel = createUsageModel('gpt-4o', 'Short');
+			const chain = new BatchedSummarizationChain({
+				model,
+				combineModel,
+				type: 'refine',
+				outputSize: 10,
+				sizeEnforcement: 'retry',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(combineModel.invoke).toHaveBeenCalledTimes(1);
+			expect(result.output.text).toBe('Short');
+		});
+
+		it('should not report usage per model without a combine model', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createUsageModel('gpt-4o-mini', 'Summary'),
+				type: 'map_reduce',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.modelUsage).toBeUndefined();
+		});
+	});
+
+	describe('Fallback Models', () => {
+		const createFailingModel = (modelName: string) =>
+			({
+				modelName,
+				invoke: vi
+					.fn()
+					.mockRejectedValue(
+						Object.assign(new Error(`${modelName} is unavailable`), { status: 503 }),
+					),
+			}) as any;
+
+		const createAnsweringModel = (modelName: string) =>
+			({
+				modelName,
+				invoke: vi.fn().mockResolvedValue(`Summary by ${modelName}`),
+			}) as any;
+
+		it('should move to the fallback model after the failures in a row', async () => {
+			const primary = createFailingModel('primary');
+			const fallback = createAnsweringModel('fallback');
+			const chain = new BatchedSummarizationChain({
+				model: primary,
+				fallbackModels: [fallback],
+				fallbackAfterFailures: 2,
+				type: 'map_reduce',
+				batchSize: 1,
+				retryPolicy: { maxAttempts: 1 },
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			// The first chunk is tried twice, then the fallback takes over for the rest of the run
+			expect(primary.invoke).toHaveBeenCalledTimes(2);
+			expect(fallback.invoke).toHaveBeenCalledTimes(4);
+			expect(result.output.text).toBe('Summary by fallback');
+			expect(result.output.modelFallback).toEqual({
+				chunkModels: [
+					{ chunkIndex: 0, step: 'map', model: 'fallback' },
+					{ chunkIndex: 1, step: 'map', model: 'fallback' },
+					{ chunkIndex: 2, step: 'map', model: 'fallback' },
+				],
+				finalModel: 'fallback',
+				switches: [
+					{ from: 'primary', to: 'fallback', failures: 2, error: 'primary is unavailable' },
+				],
+			});
+		});
+
+		it('should price the usage of each model that answered', async () => {
+			const usageMessage = (content: string) =>
+				new AIMessage({
+					content,
+					usage_metadata: { input_tokens: 100, output_tokens: 10, total_tokens: 110 },
+				});
+			const primary = {
+				modelName: 'gpt-4o',
+				invoke: vi
+					.fn()
+					.mockResolvedValueOnce(usageMessage('Summary by gpt-4o'))
+					.mockRejectedValue(Object.assign(new Error('gpt-4o is unavailable'), { status: 503 })),
+			} as any;
+			const fallback = {
+				modelName: 'gpt-4o-mini',
+				invoke: vi.fn().mockResolvedValue(usageMessage('Summary by gpt-4o-mini')),
+			} as any;
+			const chain = new BatchedSummarizationChain({
+				model: primary,
+				fallbackModels: [fallback],
+				fallbackAfterFailures: 1,
+				type: 'map_reduce',
+				batchSize: 1,
+				retryPolicy: { maxAttempts: 1 },
+				pricing: [
+					{ model: 'gpt-4o-mini', promptPricePerMillion: 0.15, completionPricePerMillion: 0.6 },
+					{ model: 'gpt-4o', promptPricePerMillion: 2.5, completionPricePerMillion: 10 },
+				],
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			// One chunk by the primary model, two chunks and the combine step by the fallback
+			expect(
+				result.output.modelUsage.map((usage: any) => [usage.model, usage.estimatedCost]),
+			).toEqual([
+				['gpt-4o', 0.00035],
+				['gpt-4o-mini', 0.000063],
+			]);
+			expect(result.output.estimatedCost).toBe(0.000413);
+		});
+
+		it('should not count a bad request against the model', async () => {
+			const primary = createAnsweringModel('primary');
+			primary.invoke.mockRejectedValueOnce(
+				Object.assign(new Error('Content filtered'), { status: 400 }),
+			);
+			const fallback = createAnsweringModel('fallback');
+			const chain = new BatchedSummarizationChain({
+				model: primary,
+				fallbackModels: [fallback],
+				fallbackAfterFailures: 1,
+				type: 'map_reduce',
+				batchSize: 1,
+				retryPolicy: { maxAttempts: 1 },
+				chunkErrorPolicy: 'skip',
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(fallback.invoke).not.toHaveBeenCalled();
+			expect(result.output.failedChunks).toHaveLength(1);
+			expect(result.output.modelFallback.switches).toEqual([]);
+		});
+
+		it('should record the model of every refine step', async () => {
+			const primary = createAnsweringModel('primary');
+			primary.invoke
+				.mockResolvedValueOnce('Summary by primary')
+				.mockRejectedValueOnce(Object.assign(new Error('Quota exhausted'), { status: 429 }));
+			const fallback = createAnsweringModel('fallback');
+			const chain = new BatchedSummarizationChain({
+				model: primary,
+				fallbackModels: [fallback],
+				fallbackAfterFailures: 1,
+				type: 'refine',
+				retryPolicy: { maxAttempts: 1 },
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.modelFallback.chunkModels).toEqual([
+				{ chunkIndex: 0, step: 'initial', model: 'primary' },
+				{ chunkIndex: 1, step: 'refine', model: 'fallback' },
+				{ chunkIndex: 2, step: 'refine', model: 'fallback' },
+			]);
+			expect(result.output.modelFallback.finalModel).toBe('fallback');
+		});
+
+		it('should report the model of a summary kept after a NOT_RELEVANT answer', async () => {
+			const primary = createAnsweringModel('primary');
+			primary.invoke
+				.mockResolvedValueOnce('Summary by primary')
+				.mockRejectedValue(Object.assign(new Error('Quota exhausted'), { status: 429 }));
+			const fallback = createAnsweringModel('fallback');
+			fallback.invoke.mockResolvedValue('NOT_RELEVANT');
+			const chain = new BatchedSummarizationChain({
+				model: primary,
+				fallbackModels: [fallback],
+				fallbackAfterFailures: 1,
+				type: 'refine',
+				question: 'Who won the match?',
+				retryPolicy: { maxAttempts: 1 },
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Summary by primary');
+			expect(result.output.modelFallback.finalModel).toBe('primary');
+		});
+
+		it('should not report a final model for the extractive fallback', async () => {
+			const primary = createAnsweringModel('primary');
+			primary.invoke
+				.mockResolvedValueOnce('Summary by primary')
+				.mockRejectedValue(Object.assign(new Error('Invalid request'), { status: 400 }));
+			const chain = new BatchedSummarizationChain({
+				model: primary,
+				fallbackModels: [createAnsweringModel('fallback')],
+				type: 'refine',
+				retryPolicy: { maxAttempts: 1 },
+				extractive: { fallback: true },
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.extractiveFallback).toEqual({ error: 'Invalid request' });
+			expect(result.output.modelFallback.finalModel).toBeUndefined();
+		});
+
+		it('should try the fallback models in order', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createFailingModel('primary'),
+				fallbackModels: [createFailingModel('first'), createAnsweringModel('second')],
+				fallbackAfterFailures: 1,
+				type: 'stuff',
+				retryPolicy: { maxAttempts: 1 },
+			});
+
+			const result = await chain.invoke({ input_documents: documents });
+
+			expect(result.output.text).toBe('Summary by second');
+			expect(
+				result.output.modelFallback.switches.map((change: any) => [change.from, change.to]),
+			).toEqual([
+				['primary', 'first'],
+				['first', 'second'],
+			]);
+		});
+
+		it('should fail once the last model keeps failing', async () => {
+			const chain = new BatchedSummarizationChain({
+				model: createFailingModel('primary'),
+				fallbackModels: [createFailingModel('fallback')],
+				fallbackAfterFailures: 1,
+				type: 'stuff',
+				retryPolicy: { maxAttempts: 1 },
+			});
+
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				'fallback is unavailable',
+			);
+		});
+
+		it('should fall back from the combine model separately', async () => {
+			const model = createAnsweringModel('map');
+			const combineModel = createFailingModel('combine');
+			const fallback = createAnsweringModel('fallback');
+			const chain = new BatchedSummarizationChain({
+				model,
+				combineModel,
+				fallbackModels: [fallback],
+				fallbackAfterFailures: 1,
 				type: 'map_reduce',
-				batchSize: 0, // Invalid batch size
+				retryPolicy: { maxAttempts: 1 },
 			});
 
-			// Should still work, treating 0 as 1
 			const result = await chain.invoke({ input_documents: documents });
 
-			expect(result).toHaveProperty('output');
+			expect(model.invoke).toHaveBeenCalledTimes(3);
+			expect(result.output.modelFallback.finalModel).toBe('fallback');
+			expect(result.output.modelFallback.switches).toEqual([
+				{ from: 'combine', to: 'fallback', failures: 1, error: 'combine is unavailable' },
+			]);
 		});
 
-		it('should handle negative batch size gracefully', async () => {
+		it('should not report models without fallbacks', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'refine',
-				batchSize: -1, // Invalid batch size
+				model: createAnsweringModel('primary'),
+				type: 'map_reduce',
 			});
 
-			// Should still work with some default behavior
 			const result = await chain.invoke({ input_documents: documents });
 
-			expect(result).toHaveProperty('output');
+			expect(result.output.modelFallback).toBeUndefined();
 		});
+	});
 
-		it('should handle very long delay times with mocked sleep', async () => {
+	describe('Map Rerank', () => {
+		const scores: Record<string, string> = {
+			'Document 1 content': '2',
+			'Document 2 content': '9',
+			'Document 3 content': 'Score: 7/10',
+		};
+
+		// Answers score prompts with the score of the chunk and everything else with a summary
+		const createScoringModel = () =>
+			({
+				invoke: vi.fn(async (prompt: string) => {
+					if (prompt.includes('Summary of')) {
+						return 'Final summary';
+					}
+					const chunk = Object.keys(scores).find((text) => prompt.includes(text));
+					if (prompt.includes('SCORE:')) {
+						if (chunk === 'Document 3 content') {
+							throw Object.assign(new Error('Provider error 500'), { status: 500 });
+						}
+						return scores[chunk!];
+					}
+					return `Summary of ${chunk}`;
+				}),
+			}) as any;
+
+		const getPrompts = (model: any): string[] =>
+			model.invoke.mock.calls.map(([prompt]: [string]) => prompt);
+
+		it('should only summarize the best scored chunks', async () => {
+			const model = createScoringModel();
+			model.invoke.mockResolvedValueOnce('2').mockResolvedValueOnce('9').mockResolvedValueOnce('7');
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'map_reduce',
-				batchSize: 1,
-				delayBetweenBatches: 10000, // Very long delay (but mocked)
+				model,
+				type: 'map_rerank',
+				preselection: { topK: 2 },
 			});
 
-			await chain.invoke({ input_documents: documents.slice(0, 2) });
+			const result = await chain.invoke({ input_documents: documents });
 
-			expect(mockSleep).toHaveBeenCalledWith(10000);
-			expect(mockSleep).toHaveBeenCalledTimes(1);
+			const summaryPrompts = getPrompts(model).filter((prompt) => !prompt.includes('SCORE:'));
+			expect(summaryPrompts).toHaveLength(3);
+			expect(summaryPrompts[0]).toContain('Document 2 content');
+			expect(summaryPrompts[1]).toContain('Document 3 content');
+			expect(summaryPrompts[2]).toContain('Summary of Document 2 content');
+			expect(result.output.text).toBe('Final summary');
+			expect(result.output.preselection).toEqual({
+				scoring: 'llm',
+				summarizedWith: 'map_reduce',
+				chunkCount: 3,
+				keptChunks: [1, 2],
+				scores: [2, 9, 7],
+			});
 		});
 
-		it('should handle documents with complex metadata', async () => {
-			const complexDocuments = [
-				{
-					pageContent: 'Document with complex metadata',
-					metadata: {
-						id: 1,
-						nested: { property: 'value' },
-						array: [1, 2, 3],
-						nullValue: null,
-						undefinedValue: undefined,
-					},
-				},
-			];
-
+		it('should score with a custom prompt', async () => {
+			const model = createScoringModel();
+			model.invoke.mockResolvedValue('5');
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'stuff',
+				model,
+				type: 'map_rerank',
+				scorePrompt: new PromptTemplate({
+					template: 'Rate {text}',
+					inputVariables: ['text'],
+				}),
 			});
 
-			const result = await chain.invoke({ input_documents: complexDocuments });
+			await chain.invoke({ input_documents: documents });
 
-			expect(result).toHaveProperty('output');
+			expect(getPrompts(model).slice(0, 3)).toEqual([
+				'Rate Document 1 content',
+				'Rate Document 2 content',
+				'Rate Document 3 content',
+			]);
 		});
 
-		it('should handle documents with special characters', async () => {
-			const specialCharDocuments = [
-				{
-					pageContent: 'Document with émojis 🚀 and special chars: áéíóú ñ ç §±∞',
-					metadata: { id: 'special' },
-				},
-			];
-
+		it('should record the scores as intermediate steps', async () => {
+			const model = createScoringModel();
+			model.invoke.mockResolvedValueOnce('2').mockResolvedValueOnce('9').mockResolvedValueOnce('7');
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'stuff',
+				model,
+				type: 'map_rerank',
+				preselection: { topK: 1 },
+				returnIntermediateSteps: true,
 			});
 
-			const result = await chain.invoke({ input_documents: specialCharDocuments });
+			const result = await chain.invoke({ input_documents: documents });
 
-			expect(result).toHaveProperty('output');
+			const steps = result.output.intermediateSteps;
+			expect(steps.filter((step: any) => step.step === 'score')).toEqual([
+				expect.objectContaining({ chunkIndex: 0, metadata: { id: 1 }, text: '2' }),
+				expect.objectContaining({ chunkIndex: 1, metadata: { id: 2 }, text: '9' }),
+				expect.objectContaining({ chunkIndex: 2, metadata: { id: 3 }, text: '7' }),
+			]);
+			// Map steps are numbered within the kept chunks
+			expect(steps.filter((step: any) => step.step === 'map')).toEqual([
+				expect.objectContaining({ chunkIndex: 0, metadata: { id: 2 } }),
+			]);
 		});
 
-		it('should handle very small documents with batching', async () => {
-			const tinyDocuments = [
-				{ pageContent: 'A', metadata: { id: 1 } },
-				{ pageContent: 'B', metadata: { id: 2 } },
-				{ pageContent: 'C', metadata: { id: 3 } },
-			];
-
+		it('should leave out chunks that fail to be scored under the skip policy', async () => {
+			const model = createScoringModel();
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'map_reduce',
-				batchSize: 2,
-				delayBetweenBatches: 100,
+				model,
+				type: 'map_rerank',
+				chunkErrorPolicy: 'skip',
+				retryPolicy: { maxAttempts: 1 },
 			});
 
-			const result = await chain.invoke({ input_documents: tinyDocuments });
+			const result = await chain.invoke({ input_documents: documents });
 
-			expect(result).toHaveProperty('output');
-			// Should call sleep once (between 2 batches: first with 2 docs, second with 1 doc)
-			expect(mockSleep).toHaveBeenCalledWith(100);
-			expect(mockSleep).toHaveBeenCalledTimes(1);
+			expect(result.output.preselection.keptChunks).toEqual([0, 1]);
+			expect(result.output.preselection.scores).toEqual([2, 9, undefined]);
+			// The unscored chunk might have been kept, so it is missing from the summary
+			expect(result.output.partial).toBe(true);
+			expect(result.output.coverage).toBeCloseTo(2 / 3);
+			expect(result.output.failedChunks).toEqual([
+				{ chunkIndex: 2, step: 'score', metadata: { id: 3 }, error: 'Provider error 500' },
+			]);
 		});
 
-		it('should handle documents with only whitespace', async () => {
-			const whitespaceDocuments = [
-				{ pageContent: '   ', metadata: { id: 1 } },
-				{ pageContent: '\n\n\n', metadata: { id: 2 } },
-				{ pageContent: '\t\t\t', metadata: { id: 3 } },
-			];
-
+		it('should fail when a chunk cannot be scored without the skip policy', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'refine',
-				batchSize: 2,
-				delayBetweenBatches: 50,
+				model: createScoringModel(),
+				type: 'map_rerank',
+				retryPolicy: { maxAttempts: 1 },
 			});
 
-			const result = await chain.invoke({ input_documents: whitespaceDocuments });
-
-			expect(result).toHaveProperty('output');
-			// Refine: 1 initial + 2 remaining docs in 1 batch = no sleep needed
-			expect(mockSleep).not.toHaveBeenCalled();
+			await expect(chain.invoke({ input_documents: documents })).rejects.toThrow(
+				'Provider error 500',
+			);
 		});
-	});
 
-	describe('Output Size Validation', () => {
-		it('should include size validation in output when outputSize is set', async () => {
+		it('should stuff the chunks within the token budget without scoring calls', async () => {
+			const model = createScoringModel();
+			const rankedDocuments = [
+				{ pageContent: 'Cookie settings. Accept all cookies to continue.', metadata: {} },
+				{ pageContent: 'The banks agreed on a merger that closes in March.', metadata: {} },
+				{ pageContent: 'Regulators approved the merger of the banks.', metadata: {} },
+			];
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'stuff',
-				outputSize: 50,
-				sizeMeasurement: 'characters',
+				model,
+				type: 'map_rerank',
+				preselection: { scoring: 'tfidf', topK: 0, tokenBudget: 1, summarizeWith: 'stuff' },
 			});
 
-			const result = await chain.invoke({ input_documents: documents });
+			const result = await chain.invoke({ input_documents: rankedDocuments });
 
-			expect(result).toHaveProperty('output');
-			expect(result.output).toHaveProperty('text');
-			expect(result.output).toHaveProperty('sizeValidation');
-			expect(result.output.sizeValidation).toHaveProperty('isValid');
-			expect(result.output.sizeValidation).toHaveProperty('actualSize');
-			expect(result.output.sizeValidation).toHaveProperty('maxSize', 50);
-			expect(result.output.sizeValidation).toHaveProperty('unit', 'characters');
+			// The best chunk is kept even though it exceeds the budget on its own
+			const { keptChunks, scores: chunkScores } = result.output.preselection;
+			expect(keptChunks).toEqual([chunkScores.indexOf(Math.max(...chunkScores))]);
+			expect(keptChunks).not.toContain(0);
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+			expect(getPrompts(model)[0]).toContain(rankedDocuments[keptChunks[0]].pageContent);
+			expect(result.output.preselection.summarizedWith).toBe('stuff');
 		});
 
-		it('should include size validation for token measurement', async () => {
+		it('should rank the chunks with TextRank', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'map_reduce',
-				outputSize: 100,
-				sizeMeasurement: 'tokens',
+				model: createScoringModel(),
+				type: 'map_rerank',
+				preselection: { scoring: 'textrank', topK: 2 },
 			});
 
 			const result = await chain.invoke({ input_documents: documents });
 
-			expect(result.output.sizeValidation).toHaveProperty('unit', 'tokens');
+			expect(result.output.preselection.scoring).toBe('textrank');
+			expect(result.output.preselection.scores).toHaveLength(3);
+			expect(result.output.preselection.keptChunks).toHaveLength(2);
 		});
+	});
 
-		it('should include warning when output exceeds size limit', async () => {
-			const longResponse = 'A'.repeat(200); // Long response
-			const mockLongModel = new FakeListChatModel({
-				responses: [longResponse, longResponse, longResponse, longResponse],
+	describe('Extractive', () => {
+		const articles: Document[] = [
+			{
+				pageContent:
+					'Cookie settings. The banks agreed on a merger. The merger closes in March.',
+				metadata: {},
+			},
+			{
+				pageContent: 'Regulators approved the merger of the banks. Cookie settings.',
+				metadata: {},
+			},
+		];
+
+		const createFailingModel = () =>
+			({
+				invoke: vi.fn().mockRejectedValue(new Error('Model is unavailable')),
+			}) as any;
+
+		it('should pick the central sentences up to the output size without a model', async () => {
+			const chain = new BatchedSummarizationChain({ type: 'extractive', outputSize: 80 });
+
+			const result = await chain.invoke({ input_documents: articles });
+
+			expect(result.output.text.length).toBeLessThanOrEqual(80);
+			expect(result.output.text).toContain('merger');
+			expect(result.output.text).not.toContain('Cookie');
+			expect(result.output.sizeValidation).toMatchObject({
+				isValid: true,
+				retryCount: 0,
+				truncated: false,
+				strategy: 'retry',
+				appliedStrategy: 'none',
 			});
+			expect(result.output.extractive).toMatchObject({ ranking: 'textrank', sentenceCount: 4 });
+			expect(result.output.tokenUsage.totalTokens).toBe(0);
+		});
 
+		it('should keep the sentences in document order', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: mockLongModel,
-				type: 'stuff',
-				outputSize: 50,
-				sizeMeasurement: 'characters',
+				type: 'extractive',
+				extractive: { ranking: 'tfidf' },
 			});
 
-			const result = await chain.invoke({ input_documents: documents });
+			const result = await chain.invoke({ input_documents: articles });
 
-			expect(result.output.sizeValidation.isValid).toBe(false);
-			expect(result.output.sizeValidation.actualSize).toBeGreaterThan(50);
-			expect(result.output.sizeValidation).toHaveProperty('warning');
-			expect(result.output.sizeValidation.warning).toContain('exceeds limit');
+			const { selectedSentences } = result.output.extractive;
+			expect(selectedSentences).toEqual([...selectedSentences].sort());
+			expect(selectedSentences).toHaveLength(4);
 		});
 
-		it('should work without outputSize set', async () => {
+		it('should measure the output size in tokens', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'stuff',
+				type: 'extractive',
+				outputSize: 8,
+				sizeMeasurement: 'tokens',
 			});
 
-			const result = await chain.invoke({ input_documents: documents });
+			const result = await chain.invoke({ input_documents: articles });
 
-			expect(result.output.sizeValidation.isValid).toBe(true);
-			expect(result.output.sizeValidation).not.toHaveProperty('maxSize');
-			expect(result.output.sizeValidation).not.toHaveProperty('warning');
+			expect(result.output.sizeValidation).toMatchObject({ isValid: true, unit: 'tokens' });
+			expect(result.output.sizeValidation.actualSize).toBeLessThanOrEqual(8);
 		});
 
-		it('should retry with shorter prompts when output exceeds limit', async () => {
-			// Create a model that first returns long text, then shorter text on retry
-			const mockRetryModel = new FakeListChatModel({
-				responses: [
-					'A'.repeat(200), // First response is too long
-					'Short summary', // Retry response fits
-				],
+		it('should truncate the best sentence when no sentence fits', async () => {
+			const chain = new BatchedSummarizationChain({ type: 'extractive', outputSize: 10 });
+
+			const result = await chain.invoke({ input_documents: articles });
+
+			expect(result.output.text.length).toBeLessThanOrEqual(10);
+			expect(result.output.text.length).toBeGreaterThan(0);
+			expect(result.output.sizeValidation).toMatchObject({
+				truncated: true,
+				appliedStrategy: 'truncate',
 			});
+			expect(result.output.extractive.selectedSentences).toEqual([]);
+		});
+
+		it('should need a model for the other types', () => {
+			expect(() => new BatchedSummarizationChain({ type: 'map_reduce' })).toThrow(
+				'The map_reduce summarization type needs a model',
+			);
+		});
 
+		it('should answer with an extractive summary when the model fails', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: mockRetryModel,
-				type: 'stuff',
-				outputSize: 50,
-				sizeMeasurement: 'characters',
+				model: createFailingModel(),
+				type: 'map_reduce',
+				retryPolicy: { maxAttempts: 1 },
+				extractive: { fallback: true },
 			});
 
-			const result = await chain.invoke({ input_documents: documents });
+			const result = await chain.invoke({ input_documents: articles });
 
-			expect(result.output.text).toBe('Short summary');
-			expect(result.output.sizeValidation.isValid).toBe(true);
-			expect(result.output.sizeValidation.retryCount).toBe(1);
-			expect(result.output.sizeValidation.actualSize).toBeLessThanOrEqual(50);
+			expect(result.output.text).toContain('merger');
+			expect(result.output.extractiveFallback).toEqual({ error: 'Model is unavailable' });
 		});
 
-		it('should include retryCount in sizeValidation when no retry needed', async () => {
+		it('should report full coverage after falling back from skipped chunks', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: mockModel,
-				type: 'stuff',
-				outputSize: 500, // Large enough to not trigger retry
-				sizeMeasurement: 'characters',
+				model: createFailingModel(),
+				type: 'map_reduce',
+				retryPolicy: { maxAttempts: 1 },
+				chunkErrorPolicy: 'skip',
+				extractive: { fallback: true },
 			});
 
-			const result = await chain.invoke({ input_documents: documents });
+			const result = await chain.invoke({ input_documents: articles });
 
-			expect(result.output.sizeValidation.retryCount).toBe(0);
+			expect(result.output.extractiveFallback.error).toContain('chunks failed');
+			expect(result.output).toMatchObject({ partial: false, coverage: 1, failedChunks: [] });
 		});
 
-		it('should include system guidelines in prompts when outputSize is set', async () => {
-			const mockModelWithPromptCapture = {
-				invoke: vi.fn().mockResolvedValue('Short summary'),
-			};
-
+		it('should fail without the fallback', async () => {
 			const chain = new BatchedSummarizationChain({
-				model: mockModelWithPromptCapture as any,
-				type: 'stuff',
-				outputSize: 100,
-				sizeMeasurement: 'tokens',
+				model: createFailingModel(),
+				type: 'map_reduce',
+				retryPolicy: { maxAttempts: 1 },
 			});
 
-			await chain.invoke({ input_documents: documents });
+			await expect(chain.invoke({ input_documents: articles })).rejects.toThrow(
+				'Model is unavailable',
+			);
+		});
+	});
 
-			// Verify that the model was called with a prompt containing system guidelines
-			expect(mockModelWithPromptCapture.invoke).toHaveBeenCalled();
-			const calledPrompt = mockModelWithPromptCapture.invoke.mock.calls[0][0];
+	describe('Focus Question', () => {
+		const question = 'What happened to the refund?';
+		const emails: Document[] = [
+			{ pageContent: 'The refund was approved on Monday.', metadata: { id: 1 } },
+			{ pageContent: 'The newsletter moves to Fridays.', metadata: { id: 2 } },
+			{ pageContent: 'The refund arrived on Thursday.', metadata: { id: 3 } },
+		];
 
-			expect(calledPrompt).toContain('CRITICAL SIZE LIMIT');
-			expect(calledPrompt).toContain('100 tokens');
-			expect(calledPrompt).toContain('STRICT LIMIT');
-			expect(calledPrompt).toContain('automatically validated');
+		// Declares the chunks without 'refund' not relevant and answers combine steps
+		const createFocusedModel = () =>
+			({
+				invoke: vi.fn(async (prompt: string) => {
+					// Quoted, so a chunk inside the existing summary of a refine step does not count
+					const chunk = emails.find((email) => prompt.includes(`"${email.pageContent}"`));
+					const relevant = chunk?.pageContent.includes('refund');
+					if (prompt.includes('RELEVANT SUMMARY:')) {
+						return relevant ? `Summary: ${chunk!.pageContent}` : 'NOT_RELEVANT';
+					}
+					if (prompt.includes('REFINED SUMMARY:') && chunk) {
+						return relevant ? `Refined with: ${chunk.pageContent}` : 'NOT_RELEVANT';
+					}
+					return 'Final answer';
+				}),
+			}) as any;
+
+		const getPrompts = (model: any): string[] =>
+			model.invoke.mock.calls.map(([prompt]: [string]) => prompt);
+
+		it('should drop the chunks that are not relevant before the combine step', async () => {
+			const model = createFocusedModel();
+			const chain = new BatchedSummarizationChain({ model, type: 'map_reduce', question });
+
+			const result = await chain.invoke({ input_documents: emails });
+
+			const combinePrompt = getPrompts(model)[3];
+			expect(combinePrompt).toContain(question);
+			expect(combinePrompt).toContain('Summary: The refund was approved on Monday.');
+			expect(combinePrompt).toContain('Summary: The refund arrived on Thursday.');
+			expect(combinePrompt).not.toContain('NOT_RELEVANT');
+			expect(result.output.text).toBe('Final answer');
+			expect(result.output.focus).toEqual({ question, irrelevantChunks: [1] });
 		});
 
-		it('should use agent with counting tools when useAgent is true', async () => {
-			const mockModelWithAgent = {
-				invoke: vi.fn().mockResolvedValue('Agent-generated summary within limit'),
-			};
-
+		it('should skip the combine step when no chunk is relevant', async () => {
+			const model = createFocusedModel();
 			const chain = new BatchedSummarizationChain({
-				model: mockModelWithAgent as any,
-				type: 'stuff',
-				outputSize: 100,
-				sizeMeasurement: 'characters',
-				useAgent: true, // Enable agent mode
+				model,
+				type: 'map_reduce',
+				question: 'Who won the match?',
 			});
 
-			const result = await chain.invoke({ input_documents: documents });
+			const result = await chain.invoke({ input_documents: [emails[1]] });
 
-			expect(result.output.text).toBe('Agent-generated summary within limit');
-			expect(result.output.sizeValidation.actualSize).toBeLessThanOrEqual(100);
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+			expect(result.output.text).toBe('');
+			expect(result.output.focus.irrelevantChunks).toEqual([0]);
 		});
 
-		it('should fallback to traditional approach when useAgent is false', async () => {
-			const mockModelTraditional = {
-				invoke: vi.fn().mockResolvedValue('Traditional summary'),
-			};
-
+		it('should fill the question into custom prompts', async () => {
+			const model = createFocusedModel();
 			const chain = new BatchedSummarizationChain({
-				model: mockModelTraditional as any,
+				model,
 				type: 'stuff',
-				outputSize: 100,
-				sizeMeasurement: 'characters',
-				useAgent: false, // Disable agent mode (default)
+				question,
+				prompt: new PromptTemplate({
+					template: 'Answer {question} from {text}',
+					inputVariables: ['text', 'question'],
+				}),
 			});
 
-			const result = await chain.invoke({ input_documents: documents });
+			await chain.invoke({ input_documents: [emails[0]] });
 
-			expect(result.output.text).toBe('Traditional summary');
-			// Should still have size validation but use traditional retry if needed
-			expect(result.output.sizeValidation).toHaveProperty('actualSize');
+			expect(getPrompts(model)).toEqual([
+				`Answer ${question} from The refund was approved on Monday.`,
+			]);
 		});
 
-		it('should use progressively stricter retry prompts', async () => {
-			const mockModelWithStrictPrompts = {
-				invoke: vi.fn()
-					.mockResolvedValueOnce('A'.repeat(200)) // First response too long
-					.mockResolvedValueOnce('B'.repeat(150)) // Second response still too long
-					.mockResolvedValueOnce('Short final'), // Third response fits
-			};
+		it('should not let stuff declare the text not relevant', async () => {
+			const model = createFocusedModel();
+			const chain = new BatchedSummarizationChain({ model, type: 'stuff', question });
+
+			await chain.invoke({ input_documents: emails });
+
+			expect(getPrompts(model)[0]).toContain(question);
+			expect(getPrompts(model)[0]).not.toContain('NOT_RELEVANT');
+		});
+
+		it('should focus the refine steps on the question', async () => {
+			const model = createFocusedModel();
+			const chain = new BatchedSummarizationChain({ model, type: 'refine', question });
+
+			await chain.invoke({ input_documents: emails });
+
+			expect(getPrompts(model).every((prompt) => prompt.includes(question))).toBe(true);
+		});
 
+		it('should keep the summary so far when a refine step is not relevant', async () => {
+			const model = createFocusedModel();
 			const chain = new BatchedSummarizationChain({
-				model: mockModelWithStrictPrompts as any,
-				type: 'stuff',
-				outputSize: 50,
-				sizeMeasurement: 'characters',
+				model,
+				type: 'refine',
+				question,
+				returnIntermediateSteps: true,
 			});
 
-			const result = await chain.invoke({ input_documents: documents });
+			const result = await chain.invoke({
+				input_documents: [emails[1], emails[0], emails[1], emails[2]],
+			});
 
-			// Should have made 3 calls (initial + 2 retries)
-			expect(mockModelWithStrictPrompts.invoke).toHaveBeenCalledTimes(3);
+			// The second refine step builds on the first summary, not on the NOT_RELEVANT answer
+			const refinePrompts = getPrompts(model).filter((prompt) =>
+				prompt.includes('REFINED SUMMARY:'),
+			);
+			expect(refinePrompts).toHaveLength(2);
+			expect(refinePrompts[1]).toContain('"Summary: The refund was approved on Monday."');
+			expect(result.output.text).toBe('Refined with: The refund arrived on Thursday.');
+			expect(result.output.focus.irrelevantChunks).toEqual([0, 2]);
+		});
 
-			// Verify retry prompts get progressively stricter
-			const calls = mockModelWithStrictPrompts.invoke.mock.calls;
+		it.each(['refine', 'parallel_refine', 'map_reduce'] as const)(
+			'should return an empty summary from %s when no chunk is relevant',
+			async (type) => {
+				const model = createFocusedModel();
+				const chain = new BatchedSummarizationChain({
+					model,
+					type,
+					question,
+					outputSize: 100,
+				});
+
+				const result = await chain.invoke({ input_documents: [emails[1], emails[1]] });
+
+				expect(result.output.text).toBe('');
+				expect(result.output.focus.irrelevantChunks).toEqual([0, 1]);
+				expect(Object.keys(result.output.sizeValidation).sort()).toEqual([
+					'actualSize',
+					'appliedStrategy',
+					'isValid',
+					'maxSize',
+					'retryCount',
+					'strategy',
+					'truncated',
+					'unit',
+				]);
+			},
+		);
+
+		it('should keep the existing summary when no new document is relevant', async () => {
+			const model = createFocusedModel();
+			const chain = new BatchedSummarizationChain({
+				model,
+				type: 'map_reduce',
+				question,
+				existingSummary: 'The refund was requested.',
+			});
 
-			// Second call should be retry attempt 1
-			expect(calls[1][0]).toContain('SIZE VIOLATION');
-			expect(calls[1][0]).toContain('RETRY ATTEMPT 1');
+			const result = await chain.invoke({ input_documents: [emails[1]] });
 
-			// Third call should be retry attempt 2
-			expect(calls[2][0]).toContain('FINAL WARNING');
-			expect(calls[2][0]).toContain('RETRY ATTEMPT 2');
+			expect(model.invoke).toHaveBeenCalledTimes(1);
+			expect(result.output.text).toBe('The refund was requested.');
+			expect(result.output.updatedExistingSummary).toBe(true);
+		});
 
-			expect(result.output.text).toBe('Short final');
-			expect(result.output.sizeValidation.retryCount).toBe(1);
+		it('should keep every answer without a question', async () => {
+			const model = { invoke: vi.fn().mockResolvedValue('NOT_RELEVANT') } as any;
+			const chain = new BatchedSummarizationChain({ model, type: 'map_reduce' });
+
+			const result = await chain.invoke({ input_documents: emails });
+
+			expect(getPrompts(model)[3]).toContain('NOT_RELEVANT');
+			expect(result.output.focus).toBeUndefined();
 		});
 	});
 });
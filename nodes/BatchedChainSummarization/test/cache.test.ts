@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+	createCacheKey,
+	createSummaryCache,
+	InMemorySummaryCache,
+	SqliteSummaryCache,
+} from '../cache';
+
+// Database files of the fake sqlite3 module, kept across module reloads like files on disk
+const sqliteFiles = vi.hoisted(() => new Map<string, Map<string, string>>());
+
+vi.mock('sqlite3', () => ({
+	Database: class {
+		private readonly rows: Map<string, string>;
+
+		constructor(filePath: string, callback: (error: Error | null) => void) {
+			if (filePath.startsWith('/readonly/')) {
+				this.rows = new Map();
+				setImmediate(() => callback(new Error('SQLITE_CANTOPEN: unable to open database file')));
+				return;
+			}
+			if (!sqliteFiles.has(filePath)) {
+				sqliteFiles.set(filePath, new Map());
+			}
+			this.rows = sqliteFiles.get(filePath)!;
+			setImmediate(() => callback(null));
+		}
+
+		run(sql: string, params: unknown[], callback: (error: Error | null) => void) {
+			if (sql.startsWith('INSERT OR REPLACE')) {
+				this.rows.set(params[0] as string, params[1] as string);
+			}
+			setImmediate(() => callback(null));
+		}
+
+		get(sql: string, params: unknown[], callback: (error: Error | null, row?: unknown) => void) {
+			const summary = this.rows.get(params[0] as string);
+			setImmediate(() => callback(null, summary === undefined ? undefined : { summary }));
+		}
+	},
+}));
+
+describe('Summary Cache', () => {
+	beforeEach(() => {
+		InMemorySummaryCache.clear();
+	});
+
+	describe('createCacheKey', () => {
+		it('should return the same key for the same inputs', () => {
+			const key = createCacheKey('gpt-4o', 'Summarize: {text}', { text: 'Chunk' });
+
+			expect(key).toMatch(/^[0-9a-f]{64}$/);
+			expect(createCacheKey('gpt-4o', 'Summarize: {text}', { text: 'Chunk' })).toBe(key);
+		});
+
+		it('should change with the model, the template and the text', () => {
+			const key = createCacheKey('gpt-4o', 'Summarize: {text}', { text: 'Chunk' });
+
+			expect(createCacheKey('gpt-4o-mini', 'Summarize: {text}', { text: 'Chunk' })).not.toBe(key);
+			expect(createCacheKey('gpt-4o', 'Shorten: {text}', { text: 'Chunk' })).not.toBe(key);
+			expect(createCacheKey('gpt-4o', 'Summarize: {text}', { text: 'Other chunk' })).not.toBe(key);
+			expect(
+				createCacheKey('gpt-4o', 'Summarize: {text}', { text: 'Chunk', existing_answer: 'Old' }),
+			).not.toBe(key);
+		});
+	});
+
+	describe('InMemorySummaryCache', () => {
+		it('should return stored summaries', async () => {
+			const cache = new InMemorySummaryCache();
+
+			expect(await cache.get('key')).toBeUndefined();
+			await cache.set('key', 'Summary');
+			expect(await cache.get('key')).toBe('Summary');
+		});
+
+		it('should share entries between instances', async () => {
+			await new InMemorySummaryCache().set('key', 'Summary');
+
+			expect(await new InMemorySummaryCache().get('key')).toBe('Summary');
+		});
+
+		it('should drop the oldest entries once full', async () => {
+			const cache = new InMemorySummaryCache(2);
+
+			await cache.set('first', 'Summary 1');
+			await cache.set('second', 'Summary 2');
+			await cache.set('third', 'Summary 3');
+
+			expect(await cache.get('first')).toBeUndefined();
+			expect(await cache.get('second')).toBe('Summary 2');
+			expect(await cache.get('third')).toBe('Summary 3');
+		});
+	});
+
+	describe('SqliteSummaryCache', () => {
+		beforeEach(() => {
+			sqliteFiles.clear();
+		});
+
+		it('should return stored summaries', async () => {
+			const cache = new SqliteSummaryCache('/data/cache.sqlite');
+
+			expect(await cache.get('key')).toBeUndefined();
+			await cache.set('key', 'Summary');
+			await cache.set('key', 'Newer summary');
+			expect(await cache.get('key')).toBe('Newer summary');
+		});
+
+		it('should keep summaries across restarts', async () => {
+			await new SqliteSummaryCache('/data/restart.sqlite').set('key', 'Summary');
+
+			// A fresh module has no open connections, like a restarted n8n process
+			vi.resetModules();
+			const { SqliteSummaryCache: RestartedCache } = await import('../cache');
+
+			expect(await new RestartedCache('/data/restart.sqlite').get('key')).toBe('Summary');
+			expect(await new RestartedCache('/data/other.sqlite').get('key')).toBeUndefined();
+		});
+
+		it('should reject when the file cannot be opened', async () => {
+			const cache = new SqliteSummaryCache('/readonly/cache.sqlite');
+
+			await expect(cache.get('key')).rejects.toThrow('SQLITE_CANTOPEN');
+			await expect(cache.set('key', 'Summary')).rejects.toThrow('SQLITE_CANTOPEN');
+		});
+	});
+
+	describe('createSummaryCache', () => {
+		it('should create the configured backend', () => {
+			expect(createSummaryCache({ backend: 'memory' })).toBeInstanceOf(InMemorySummaryCache);
+			expect(createSummaryCache({ backend: 'sqlite', filePath: 'cache.sqlite' })).toBeInstanceOf(
+				SqliteSummaryCache,
+			);
+		});
+
+		it('should return undefined without a backend', () => {
+			expect(createSummaryCache()).toBeUndefined();
+			expect(createSummaryCache({})).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,165 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+	createCheckpointKey,
+	createCheckpointStore,
+	createSettingsHash,
+	FileCheckpointStore,
+	StaticDataCheckpointStore,
+	type RefineCheckpoint,
+} from '../checkpoint';
+
+const checkpoint: RefineCheckpoint = {
+	settingsHash: 'settings',
+	summary: 'Summary so far',
+	nextIndex: 3,
+	failedChunks: [],
+	updatedAt: 1700000000000,
+};
+
+describe('Refine Checkpoint', () => {
+	describe('keys', () => {
+		it('should identify the documents by their content', () => {
+			const key = createCheckpointKey([{ pageContent: 'Page 1', metadata: {} }]);
+
+			expect(key).toMatch(/^[0-9a-f]{64}$/);
+			expect(createCheckpointKey([{ pageContent: 'Page 1', metadata: { page: 1 } }])).toBe(key);
+			expect(createCheckpointKey([{ pageContent: 'Page 2', metadata: {} }])).not.toBe(key);
+		});
+
+		it('should change the settings hash with the settings', () => {
+			const hash = createSettingsHash({ model: 'gpt-4o', refinePrompt: 'Refine: {text}' });
+
+			expect(createSettingsHash({ model: 'gpt-4o', refinePrompt: 'Refine: {text}' })).toBe(hash);
+			expect(createSettingsHash({ model: 'gpt-4o-mini', refinePrompt: 'Refine: {text}' })).not.toBe(
+				hash,
+			);
+		});
+	});
+
+	describe('StaticDataCheckpointStore', () => {
+		it('should store checkpoints in the static data', async () => {
+			const staticData = {};
+			const store = new StaticDataCheckpointStore(staticData);
+
+			expect(await store.get('key')).toBeUndefined();
+			await store.set('key', checkpoint);
+
+			expect(await store.get('key')).toEqual(checkpoint);
+			expect(staticData).toEqual({ refineCheckpoints: { key: checkpoint } });
+		});
+
+		it('should replace the static data property on every change', async () => {
+			const staticData: Record<string, unknown> = {};
+			const store = new StaticDataCheckpointStore(staticData);
+
+			await store.set('key', checkpoint);
+			const saved = staticData.refineCheckpoints;
+			await store.set('other', checkpoint);
+
+			expect(staticData.refineCheckpoints).not.toBe(saved);
+		});
+
+		it('should delete checkpoints', async () => {
+			const staticData = {};
+			const store = new StaticDataCheckpointStore(staticData);
+
+			await store.set('key', checkpoint);
+			await store.set('other', checkpoint);
+			await store.delete('key');
+
+			expect(await store.get('key')).toBeUndefined();
+			expect(await store.get('other')).toEqual(checkpoint);
+		});
+	});
+
+	describe('FileCheckpointStore', () => {
+		let parent: string;
+		let directory: string;
+
+		beforeEach(async () => {
+			parent = await mkdtemp(path.join(tmpdir(), 'checkpoints-'));
+			directory = path.join(parent, 'checkpoints');
+		});
+
+		afterEach(async () => {
+			await rm(parent, { recursive: true, force: true });
+		});
+
+		it('should return undefined before the directory exists', async () => {
+			expect(await new FileCheckpointStore(directory).get('key')).toBeUndefined();
+		});
+
+		it('should keep checkpoints across instances', async () => {
+			await new FileCheckpointStore(directory).set('key', checkpoint);
+
+			expect(await new FileCheckpointStore(directory).get('key')).toEqual(checkpoint);
+			expect(JSON.parse(await readFile(path.join(directory, 'key.json'), 'utf8'))).toEqual(
+				checkpoint,
+			);
+		});
+
+		it('should only rewrite the file of the changed checkpoint', async () => {
+			const store = new FileCheckpointStore(directory);
+			await store.set('a', checkpoint);
+			await store.set('b', checkpoint);
+			await writeFile(
+				path.join(directory, 'a.json'),
+				JSON.stringify({ ...checkpoint, summary: 'Edited' }),
+			);
+
+			await store.set('b', { ...checkpoint, nextIndex: 4 });
+
+			expect((await store.get('a'))?.summary).toBe('Edited');
+			expect((await store.get('b'))?.nextIndex).toBe(4);
+		});
+
+		it('should not lose concurrent writes', async () => {
+			const store = new FileCheckpointStore(directory);
+
+			await Promise.all(
+				['a', 'b', 'c'].map(async (key) => await store.set(key, { ...checkpoint, summary: key })),
+			);
+
+			expect((await store.get('a'))?.summary).toBe('a');
+			expect((await store.get('b'))?.summary).toBe('b');
+			expect((await store.get('c'))?.summary).toBe('c');
+		});
+
+		it('should delete checkpoints', async () => {
+			const store = new FileCheckpointStore(directory);
+
+			await store.set('key', checkpoint);
+			await store.set('other', checkpoint);
+			await store.delete('key');
+
+			expect(await store.get('key')).toBeUndefined();
+			expect(await readdir(directory)).toEqual(['other.json']);
+		});
+	});
+
+	describe('createCheckpointStore', () => {
+		it('should create the configured storage', () => {
+			const staticData = {};
+
+			expect(createCheckpointStore({ storage: 'staticData' }, () => staticData)).toBeInstanceOf(
+				StaticDataCheckpointStore,
+			);
+			expect(
+				createCheckpointStore({ storage: 'file', directory: 'checkpoints' }, () => staticData),
+			).toBeInstanceOf(FileCheckpointStore);
+		});
+
+		it('should return undefined without a storage', () => {
+			const getStaticData = () => {
+				throw new Error('Static data should not be requested');
+			};
+
+			expect(createCheckpointStore(undefined, getStaticData)).toBeUndefined();
+			expect(createCheckpointStore({}, getStaticData)).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+	cosineSimilarity,
+	createTfIdfVectors,
+	parseRelevanceScore,
+	scoreByTextRank,
+	scoreByTfIdf,
+	selectTopChunks,
+} from '../chunkScoring';
+
+const chunks = [
+	'Cookie settings. Accept all cookies to continue.',
+	'The merger of the two banks closes in March and both banks keep their brands.',
+	'Regulators approved the merger after the banks sold branches.',
+	'The banks expect the merger to cut costs by a billion.',
+];
+
+describe('Chunk Scoring', () => {
+	describe('createTfIdfVectors', () => {
+		it('should give no weight to terms found in every text', () => {
+			const [first, second] = createTfIdfVectors(['Page 1 header intro', 'Page 2 header body']);
+
+			expect(first.has('header')).toBe(false);
+			expect(first.get('intro')).toBeGreaterThan(0);
+			expect(second.get('body')).toBeGreaterThan(0);
+		});
+
+		it('should match words of any script case-insensitively', () => {
+			const [vector] = createTfIdfVectors(['Über Straße', 'other']);
+
+			expect([...vector.keys()]).toEqual(['über', 'straße']);
+		});
+	});
+
+	describe('cosineSimilarity', () => {
+		it('should compare the shared terms', () => {
+			const a = new Map([['bank', 1]]);
+			const b = new Map([
+				['bank', 1],
+				['merger', 1],
+			]);
+
+			expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+			expect(cosineSimilarity(a, b)).toBeCloseTo(Math.SQRT1_2);
+			expect(cosineSimilarity(a, new Map([['cookie', 1]]))).toBe(0);
+			expect(cosineSimilarity(a, new Map())).toBe(0);
+		});
+	});
+
+	describe('scoreByTfIdf', () => {
+		it('should score boilerplate below the main topic', () => {
+			const scores = scoreByTfIdf(chunks);
+
+			expect(scores).toHaveLength(4);
+			expect(Math.min(...scores)).toBe(scores[0]);
+		});
+
+		it('should score text without distinctive words zero', () => {
+			expect(scoreByTfIdf(['Header', 'Header text', 'Header words'])[0]).toBe(0);
+		});
+
+		it('should compare each text with the centroid of the others', () => {
+			const vectors = createTfIdfVectors(chunks);
+
+			const expected = vectors.map((vector, index) => {
+				const others = new Map<string, number>();
+				vectors
+					.filter((_, otherIndex) => otherIndex !== index)
+					.forEach((other) =>
+						other.forEach((weight, term) => others.set(term, (others.get(term) ?? 0) + weight)),
+					);
+				return cosineSimilarity(vector, others);
+			});
+
+			scoreByTfIdf(chunks).forEach((score, index) => expect(score).toBeCloseTo(expected[index]));
+		});
+
+		it('should score text sharing no term with the others zero', () => {
+			expect(scoreByTfIdf(['Bank merger news', 'Weather forecast today'])).toEqual([0, 0]);
+		});
+	});
+
+	describe('scoreByTextRank', () => {
+		it('should rank the texts others resemble highest', () => {
+			const scores = scoreByTextRank(chunks);
+
+			expect(Math.min(...scores)).toBe(scores[0]);
+			expect(scores.reduce((sum, score) => sum + score, 0)).toBeCloseTo(1);
+		});
+
+		it('should handle no and single texts', () => {
+			expect(scoreByTextRank([])).toEqual([]);
+			expect(scoreByTextRank(['Only text'])).toEqual([expect.any(Number)]);
+		});
+	});
+
+	describe('parseRelevanceScore', () => {
+		it.each([
+			['7', 7],
+			['Score: 8/10', 8],
+			['6.5', 6.5],
+			['15', 10],
+			['-3', 0],
+			['Not relevant', 0],
+		])('should read %j as %d', (answer, score) => {
+			expect(parseRelevanceScore(answer)).toBe(score);
+		});
+	});
+
+	describe('selectTopChunks', () => {
+		it('should keep the top K chunks in document order', () => {
+			expect(selectTopChunks([3, 9, 1, 7], [10, 10, 10, 10], 2, 0)).toEqual([1, 3]);
+		});
+
+		it('should keep the document order for equal scores', () => {
+			expect(selectTopChunks([5, 5, 5], [10, 10, 10], 2, 0)).toEqual([0, 1]);
+		});
+
+		it('should keep the best chunks within the token budget', () => {
+			// The second best chunk does not fit, the third still does
+			expect(selectTopChunks([9, 8, 7, 1], [50, 60, 30, 10], 0, 100)).toEqual([0, 2, 3]);
+		});
+
+		it('should always keep the best chunk', () => {
+			expect(selectTopChunks([1, 9], [10, 500], 0, 100)).toEqual([1]);
+		});
+
+		it('should keep every chunk without limits', () => {
+			expect(selectTopChunks([1, 2, 3], [10, 10, 10], 0, 0)).toEqual([0, 1, 2]);
+		});
+
+		it('should leave out chunks without a score', () => {
+			expect(selectTopChunks([undefined, 2, undefined], [10, 10, 10], 0, 0)).toEqual([1]);
+		});
+	});
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+	joinSentences,
+	rankSentences,
+	selectSentences,
+	splitSentences,
+	type RankedSentence,
+} from '../extractiveSummary';
+
+const measure = async (text: string) => text.length;
+
+const ranked = (texts: string[]): RankedSentence[] =>
+	texts.map((text, index) => ({ text, index, score: texts.length - index }));
+
+describe('Extractive Summary', () => {
+	describe('splitSentences', () => {
+		it('should split at sentence ends and line breaks', () => {
+			expect(
+				splitSentences('First one. Second "quoted!" Third?\n- Bullet point\nLast line'),
+			).toEqual(['First one.', 'Second "quoted!"', 'Third?', '- Bullet point', 'Last line']);
+		});
+
+		it('should drop fragments without words and collapse whitespace', () => {
+			expect(splitSentences('Spread   over\tspace.\n\n-\n...')).toEqual(['Spread over space.']);
+		});
+	});
+
+	describe('rankSentences', () => {
+		const texts = [
+			'Cookie settings. The banks agreed on a merger.',
+			'Regulators approved the merger of the banks. Cookie settings.',
+			'The merger of the banks closes in March.',
+		];
+
+		it.each(['textrank', 'tfidf'] as const)(
+			'should rank the central sentences first with %s',
+			(ranking) => {
+				const sentences = rankSentences(texts, ranking);
+
+				expect(sentences.at(-1)?.text).toBe('Cookie settings.');
+				expect(sentences[0].text).toContain('merger');
+			},
+		);
+
+		it('should rank repeated sentences once and number them in document order', () => {
+			const sentences = rankSentences(texts, 'textrank');
+
+			expect(sentences).toHaveLength(4);
+			expect(sentences.find((sentence) => sentence.text === 'Cookie settings.')?.index).toBe(0);
+			expect(sentences.map((sentence) => sentence.index).sort()).toEqual([0, 1, 2, 3]);
+		});
+	});
+
+	describe('selectSentences', () => {
+		it('should keep the best sentences that fit in document order', async () => {
+			const sentences = ranked(['Best one.', 'A much longer second sentence.', 'Third.']);
+
+			const selected = await selectSentences([...sentences].reverse(), measure, 16, 5);
+
+			expect(joinSentences(selected)).toBe('Best one. Third.');
+		});
+
+		it('should skip sentences that do not fit for shorter ones', async () => {
+			const sentences = ranked(['A sentence that is far too long.', 'Short.']);
+
+			expect(joinSentences(await selectSentences(sentences, measure, 10, 5))).toBe('Short.');
+		});
+
+		it('should keep the best sentences without a size', async () => {
+			const sentences = ranked(['One.', 'Two.', 'Three.']);
+
+			expect(joinSentences(await selectSentences(sentences, measure, undefined, 2))).toBe(
+				'One. Two.',
+			);
+		});
+	});
+});
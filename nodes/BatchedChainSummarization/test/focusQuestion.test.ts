@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+
+import { isNotRelevantAnswer, withQuestion } from '../focusQuestion';
+
+describe('Focus Question', () => {
+	describe('isNotRelevantAnswer', () => {
+		it.each(['NOT_RELEVANT', ' not relevant. ', '"Not-Relevant"', '**NOT_RELEVANT**'])(
+			'should recognize %j',
+			(answer) => {
+				expect(isNotRelevantAnswer(answer)).toBe(true);
+			},
+		);
+
+		it.each(['', 'The refund is not relevant to the delivery.', 'RELEVANT'])(
+			'should not recognize %j',
+			(answer) => {
+				expect(isNotRelevantAnswer(answer)).toBe(false);
+			},
+		);
+	});
+
+	describe('withQuestion', () => {
+		it('should only add a set question', () => {
+			expect(withQuestion({ text: 'A' }, 'Why?')).toEqual({ text: 'A', question: 'Why?' });
+			expect(withQuestion({ text: 'A' }, undefined)).toEqual({ text: 'A' });
+		});
+	});
+});
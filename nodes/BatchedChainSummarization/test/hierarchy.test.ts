@@ -0,0 +1,136 @@
+import type { Document } from '@langchain/core/documents';
+import { describe, it, expect } from 'vitest';
+
+import {
+	buildOutline,
+	getGroupsBottomUp,
+	getMetadataValue,
+	getPresentKeys,
+	groupBy,
+	groupDocumentsByMetadata,
+} from '../hierarchy';
+
+const createDocument = (metadata: Record<string, unknown>): Document => ({
+	pageContent: 'Content',
+	metadata,
+});
+
+describe('Hierarchy', () => {
+	const documents = [
+		createDocument({ source: 'a.pdf', loc: { pageNumber: 1 } }),
+		createDocument({ source: 'a.pdf', loc: { pageNumber: 1 } }),
+		createDocument({ source: 'a.pdf', loc: { pageNumber: 2 } }),
+		createDocument({ source: 'b.pdf', loc: { pageNumber: 1 } }),
+	];
+
+	describe('getMetadataValue', () => {
+		it('should read top-level and nested values', () => {
+			expect(getMetadataValue({ source: 'a.pdf' }, 'source')).toBe('a.pdf');
+			expect(getMetadataValue({ loc: { pageNumber: 3 } }, 'loc.pageNumber')).toBe(3);
+		});
+
+		it('should return undefined for missing paths', () => {
+			expect(getMetadataValue({}, 'source')).toBeUndefined();
+			expect(getMetadataValue({ loc: 5 }, 'loc.pageNumber')).toBeUndefined();
+		});
+	});
+
+	describe('groupBy', () => {
+		it('should group equal keys in order of appearance', () => {
+			const values = [{ id: 2 }, { id: '1' }, { id: 2 }, {}, { id: null }];
+
+			expect(groupBy(values, (value) => (value as { id?: unknown }).id)).toEqual([
+				{ key: 2, values: [values[0], values[2]] },
+				{ key: '1', values: [values[1]] },
+				{ key: undefined, values: [values[3], values[4]] },
+			]);
+		});
+	});
+
+	describe('getPresentKeys', () => {
+		it('should skip keys missing from every document', () => {
+			expect(getPresentKeys(documents, ['source', 'section', 'loc.pageNumber'])).toEqual([
+				'source',
+				'loc.pageNumber',
+			]);
+		});
+	});
+
+	describe('groupDocumentsByMetadata', () => {
+		it('should nest the chunks by key in document order', () => {
+			const groups = groupDocumentsByMetadata(documents, ['source', 'loc.pageNumber']);
+
+			expect(groups.map((group) => [group.value, group.chunkIndices])).toEqual([
+				['a.pdf', [0, 1, 2]],
+				['b.pdf', [3]],
+			]);
+			expect(groups[0].children.map((group) => [group.value, group.chunkIndices])).toEqual([
+				[1, [0, 1]],
+				[2, [2]],
+			]);
+			expect(groups[0].children[0]).toMatchObject({
+				key: 'loc.pageNumber',
+				depth: 1,
+				children: [],
+			});
+		});
+
+		it('should group chunks without a value together', () => {
+			const groups = groupDocumentsByMetadata(
+				[createDocument({ section: 'Intro' }), createDocument({}), createDocument({})],
+				['section'],
+			);
+
+			expect(groups.map((group) => [group.value, group.chunkIndices])).toEqual([
+				['Intro', [0]],
+				[undefined, [1, 2]],
+			]);
+		});
+	});
+
+	describe('getGroupsBottomUp', () => {
+		it('should list the deepest level first', () => {
+			const groups = groupDocumentsByMetadata(documents, ['source', 'loc.pageNumber']);
+
+			const levels = getGroupsBottomUp(groups);
+
+			expect(levels.map((level) => level.map((group) => group.key))).toEqual([
+				['loc.pageNumber', 'loc.pageNumber', 'loc.pageNumber'],
+				['source', 'source'],
+			]);
+		});
+	});
+
+	describe('buildOutline', () => {
+		it('should nest the group summaries', () => {
+			const groups = groupDocumentsByMetadata(documents, ['source', 'loc.pageNumber']);
+			const summaries = new Map(
+				getGroupsBottomUp(groups)
+					.flat()
+					.map((group) => [group, `${group.key}=${group.value}`]),
+			);
+
+			expect(buildOutline(groups, summaries)).toEqual([
+				{
+					key: 'source',
+					value: 'a.pdf',
+					summary: 'source=a.pdf',
+					chunkCount: 3,
+					sections: [
+						{ key: 'loc.pageNumber', value: 1, summary: 'loc.pageNumber=1', chunkCount: 2 },
+						{ key: 'loc.pageNumber', value: 2, summary: 'loc.pageNumber=2', chunkCount: 1 },
+					],
+				},
+				{
+					key: 'source',
+					value: 'b.pdf',
+					summary: 'source=b.pdf',
+					chunkCount: 1,
+					sections: [
+						{ key: 'loc.pageNumber', value: 1, summary: 'loc.pageNumber=1', chunkCount: 1 },
+					],
+				},
+			]);
+		});
+	});
+});
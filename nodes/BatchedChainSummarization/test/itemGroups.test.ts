@@ -0,0 +1,43 @@
+import type { INodeExecutionData } from 'n8n-workflow';
+import { describe, it, expect } from 'vitest';
+
+import { groupItemsByField } from '../itemGroups';
+
+describe('groupItemsByField', () => {
+	it('should group the items by a nested field in order of appearance', () => {
+		const items: INodeExecutionData[] = [
+			{ json: { customer: { id: 'b' } } },
+			{ json: { customer: { id: 'a' } } },
+			{ json: { customer: { id: 'b' } } },
+		];
+
+		expect(groupItemsByField(items, 'customer.id')).toEqual([
+			{ key: 'b', itemIndices: [0, 2] },
+			{ key: 'a', itemIndices: [1] },
+		]);
+	});
+
+	it('should put the items without the field in one group', () => {
+		const items: INodeExecutionData[] = [
+			{ json: { thread: 1 } },
+			{ json: {} },
+			{ json: { thread: null } },
+		];
+
+		expect(groupItemsByField(items, 'thread')).toEqual([
+			{ key: 1, itemIndices: [0] },
+			{ key: null, itemIndices: [1, 2] },
+		]);
+	});
+
+	it('should group equal object values together', () => {
+		const items: INodeExecutionData[] = [
+			{ json: { owner: { team: 'support', region: 'eu' } } },
+			{ json: { owner: { team: 'support', region: 'eu' } } },
+		];
+
+		expect(groupItemsByField(items, 'owner')).toEqual([
+			{ key: { team: 'support', region: 'eu' }, itemIndices: [0, 1] },
+		]);
+	});
+});
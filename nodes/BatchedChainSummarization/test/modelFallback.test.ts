@@ -0,0 +1,87 @@
+import type { BaseLanguageModel } from '@langchain/core/language_models/base';
+import { describe, it, expect } from 'vitest';
+
+import { SummarizationCancelledError } from '../cancellation';
+import { ModelFallbackChain } from '../modelFallback';
+
+const createModel = (modelName: string) => ({ modelName }) as unknown as BaseLanguageModel;
+
+const providerError = (message: string, status = 503) =>
+	Object.assign(new Error(message), { status });
+
+describe('ModelFallbackChain', () => {
+	const primary = createModel('primary');
+	const fallback = createModel('fallback');
+
+	it('should move to the next model after the failures in a row', () => {
+		const modelChain = new ModelFallbackChain([primary, fallback], 2);
+
+		expect(modelChain.onFailure(0, providerError('Service unavailable'))).toBe(true);
+		expect(modelChain.active).toEqual({ model: primary, index: 0 });
+
+		expect(modelChain.onFailure(0, providerError('Service unavailable'))).toBe(true);
+		expect(modelChain.active).toEqual({ model: fallback, index: 1 });
+		expect(modelChain.switches).toEqual([
+			{ from: 'primary', to: 'fallback', failures: 2, error: 'Service unavailable' },
+		]);
+	});
+
+	it('should start counting again after a success', () => {
+		const modelChain = new ModelFallbackChain([primary, fallback], 2);
+
+		modelChain.onFailure(0, providerError('Timeout', 504));
+		modelChain.onSuccess(0);
+		modelChain.onFailure(0, providerError('Timeout', 504));
+
+		expect(modelChain.active.index).toBe(0);
+	});
+
+	it('should give up once the last model keeps failing', () => {
+		const modelChain = new ModelFallbackChain([primary, fallback], 1);
+
+		expect(modelChain.onFailure(0, providerError('Outage'))).toBe(true);
+		expect(modelChain.onFailure(1, providerError('Outage'))).toBe(false);
+	});
+
+	it('should repeat calls of a model another call already moved past', () => {
+		const modelChain = new ModelFallbackChain([primary, fallback], 1);
+
+		modelChain.onFailure(0, providerError('Outage'));
+
+		expect(modelChain.onFailure(0, providerError('Outage'))).toBe(true);
+		expect(modelChain.switches).toHaveLength(1);
+	});
+
+	it('should not count errors caused by the request', () => {
+		const modelChain = new ModelFallbackChain([primary, fallback], 1);
+
+		expect(modelChain.onFailure(0, providerError('Bad request', 400))).toBe(false);
+		expect(modelChain.active.index).toBe(0);
+		expect(modelChain.switches).toEqual([]);
+	});
+
+	it('should count rejected credentials and network errors', () => {
+		expect(
+			new ModelFallbackChain([primary, fallback], 1).onFailure(
+				0,
+				providerError('Unauthorized', 401),
+			),
+		).toBe(true);
+		expect(
+			new ModelFallbackChain([primary, fallback], 1).onFailure(
+				0,
+				Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+			),
+		).toBe(true);
+	});
+
+	it('should not repeat cancelled calls or calls without fallbacks', () => {
+		expect(
+			new ModelFallbackChain([primary, fallback], 1).onFailure(
+				0,
+				new SummarizationCancelledError(),
+			),
+		).toBe(false);
+		expect(new ModelFallbackChain([primary], 1).onFailure(0, providerError('Outage'))).toBe(false);
+	});
+});
@@ -0,0 +1,377 @@
+import type { BaseLanguageModel } from '@langchain/core/language_models/base';
+import type { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import { describe, it, expect, vi } from 'vitest';
+
+import { BatchedChainSummarization } from '../BatchedChainSummarization.node';
+import { BatchedSummarizationChain } from '../batchedSummarizationChain';
+import { InMemorySummaryCache } from '../cache';
+import { StaticDataCheckpointStore } from '../checkpoint';
+import { createRateLimiter, getChainParameters, getPromptParameters } from '../parameters';
+import { DEFAULT_PROMPT_TEMPLATE, REFINE_PROMPT_TEMPLATE } from '../prompt';
+import { AdaptiveRateLimiter } from '../rateLimiter';
+import {
+	DEFAULT_BATCH_SIZE,
+	DEFAULT_CHUNK_ERROR_POLICY,
+	DEFAULT_DELAY_BETWEEN_BATCHES,
+	DEFAULT_FALLBACK_AFTER_FAILURES,
+	DEFAULT_REFINE_SEGMENTS,
+	DEFAULT_SCHEDULING_MODE,
+	DEFAULT_SIZE_ENFORCEMENT,
+	DEFAULT_TOKEN_MAX,
+} from '../constants';
+
+const model = { invoke: vi.fn() } as unknown as BaseLanguageModel;
+
+const createContext = (
+	parameters: Record<string, unknown> = {},
+	items: INodeExecutionData[] = [{ json: {} }],
+) =>
+	({
+		getNode: vi.fn().mockReturnValue({ name: 'Batched Summarization Chain' }),
+		getInputData: vi.fn().mockReturnValue(items),
+		getWorkflowStaticData: vi.fn().mockReturnValue({}),
+		getNodeParameter: vi.fn((name: string, _itemIndex: number, defaultValue: unknown) =>
+			parameters[name] !== undefined ? parameters[name] : defaultValue,
+		),
+	}) as unknown as IExecuteFunctions;
+
+/**
+ * Lists the parameter paths the node description defines, the way getNodeParameter reads
+ * them: top level names, 'options.<name>' and 'options.<name>.<group>' for fixed collections.
+ */
+function getDescriptionPaths(): string[] {
+	const paths: string[] = [];
+	for (const property of new BatchedChainSummarization().description.properties) {
+		paths.push(property.name);
+		if (property.type !== 'collection') {
+			continue;
+		}
+		for (const option of property.options as INodeProperties[]) {
+			const path = `${property.name}.${option.name}`;
+			paths.push(path);
+			if (option.type === 'fixedCollection') {
+				for (const group of option.options as Array<{ name: string }>) {
+					paths.push(`${path}.${group.name}`);
+				}
+			}
+		}
+	}
+	return paths;
+}
+
+describe('Chain Parameters', () => {
+	describe('getChainParameters', () => {
+		it('should only read parameters defined in the node description', () => {
+			const ctx = createContext();
+			getChainParameters(ctx, 0, model);
+
+			const readPaths = vi.mocked(ctx.getNodeParameter).mock.calls.map(([name]) => name);
+			expect(readPaths.length).toBeGreaterThan(0);
+			expect(getDescriptionPaths()).toEqual(expect.arrayContaining(readPaths));
+		});
+
+		it('should use the defaults when no option is set', () => {
+			const params = getChainParameters(createContext(), 0, model);
+
+			expect(params).toMatchObject({
+				model,
+				type: 'map_reduce',
+				batchSize: DEFAULT_BATCH_SIZE,
+				delayBetweenBatches: DEFAULT_DELAY_BETWEEN_BATCHES,
+				schedulingMode: DEFAULT_SCHEDULING_MODE,
+				sizeMeasurement: 'characters',
+				sizeEnforcement: DEFAULT_SIZE_ENFORCEMENT,
+				tokenizer: 'auto',
+				tokenMax: DEFAULT_TOKEN_MAX,
+				hierarchyKeys: [],
+				refineSegments: DEFAULT_REFINE_SEGMENTS,
+				returnIntermediateSteps: false,
+				pricing: [],
+				retryPolicy: {},
+				rateLimit: {},
+				chunkErrorPolicy: DEFAULT_CHUNK_ERROR_POLICY,
+				fallbackAfterFailures: DEFAULT_FALLBACK_AFTER_FAILURES,
+				preselection: {},
+				extractive: {},
+			});
+			expect(params.outputSize).toBeUndefined();
+			expect(params.outputSchema).toBeUndefined();
+			expect(params.cache).toBeUndefined();
+			expect(params.existingSummary).toBeUndefined();
+			expect(params.combineMapPrompt).toBeUndefined();
+			expect(params.combinePrompt).toBeUndefined();
+			expect(params.scorePrompt).toBeUndefined();
+			expect(params.question).toBeUndefined();
+		});
+
+		it.each([
+			['batchSize', 3, 'batchSize', 3],
+			['delayBetweenBatches', 250, 'delayBetweenBatches', 250],
+			['outputSize', 400, 'outputSize', 400],
+			['sizeMeasurement', 'tokens', 'sizeMeasurement', 'tokens'],
+			['sizeEnforcement', 'truncate', 'sizeEnforcement', 'truncate'],
+			['options.schedulingMode', 'pool', 'schedulingMode', 'pool'],
+			['options.tokenizer', 'o200k_base', 'tokenizer', 'o200k_base'],
+			['options.tokenMax', 2000, 'tokenMax', 2000],
+			['options.refineSegments', 8, 'refineSegments', 8],
+			['options.chunkErrorPolicy', 'skip', 'chunkErrorPolicy', 'skip'],
+			['options.fallbackAfterFailures', 4, 'fallbackAfterFailures', 4],
+			['options.focusQuestion', ' Why was it late? ', 'question', 'Why was it late?'],
+			[
+				'options.hierarchyKeys',
+				' source, loc.pageNumber ,',
+				'hierarchyKeys',
+				['source', 'loc.pageNumber'],
+			],
+			['options.outputSchema', '{ "type": "object" }', 'outputSchema', { type: 'object' }],
+			['options.returnIntermediateSteps', true, 'returnIntermediateSteps', true],
+			[
+				'options.modelPricing.prices',
+				[{ model: 'gpt-4o', promptPricePerMillion: 2.5, completionPricePerMillion: 10 }],
+				'pricing',
+				[{ model: 'gpt-4o', promptPricePerMillion: 2.5, completionPricePerMillion: 10 }],
+			],
+			['options.retryPolicy.values', { maxAttempts: 2 }, 'retryPolicy', { maxAttempts: 2 }],
+			[
+				'options.extractive.values',
+				{ ranking: 'tfidf', fallback: true },
+				'extractive',
+				{ ranking: 'tfidf', fallback: true },
+			],
+			[
+				'options.preselection.values',
+				{ scoring: 'tfidf', topK: 5, tokenBudget: 2000, summarizeWith: 'stuff' },
+				'preselection',
+				{ scoring: 'tfidf', topK: 5, tokenBudget: 2000, summarizeWith: 'stuff' },
+			],
+			[
+				'options.rateLimit.values',
+				{ requestsPerMinute: 30 },
+				'rateLimit',
+				{ requestsPerMinute: 30 },
+			],
+		])('should pass %s to the chain', (path, value, param, expected) => {
+			const params = getChainParameters(createContext({ [path]: value }), 0, model);
+
+			expect(params[param as keyof typeof params]).toEqual(expected);
+		});
+
+		it('should create the configured cache', () => {
+			const params = getChainParameters(
+				createContext({ 'options.cache.values': { backend: 'memory' } }),
+				0,
+				model,
+			);
+
+			expect(params.cache).toBeInstanceOf(InMemorySummaryCache);
+		});
+
+		it('should keep refine checkpoints in the node static data', () => {
+			const ctx = createContext({ 'options.refineCheckpoint.values': { storage: 'staticData' } });
+			const params = getChainParameters(ctx, 0, model);
+
+			expect(params.checkpointStore).toBeInstanceOf(StaticDataCheckpointStore);
+			expect(ctx.getWorkflowStaticData).toHaveBeenCalledWith('node');
+		});
+
+		it('should not touch the static data without checkpoints', () => {
+			const ctx = createContext();
+			const params = getChainParameters(ctx, 0, model);
+
+			expect(params.checkpointStore).toBeUndefined();
+			expect(ctx.getWorkflowStaticData).not.toHaveBeenCalled();
+		});
+
+		it('should read the existing summary from the item field', () => {
+			const ctx = createContext({ 'options.previousSummary.values': { source: 'field' } }, [
+				{ json: { text: 'New email' } },
+				{ json: { summary: 'Summary of yesterday' } },
+			]);
+
+			expect(getChainParameters(ctx, 1, model).existingSummary).toBe('Summary of yesterday');
+			expect(getChainParameters(ctx, 0, model).existingSummary).toBeUndefined();
+		});
+
+		it('should pass the method and prompts to the chain', async () => {
+			const params = getChainParameters(
+				createContext({
+					'options.summarizationMethodAndPrompts.values': {
+						summarizationMethod: 'stuff',
+						prompt: 'Stuff prompt: {text}',
+					},
+				}),
+				0,
+				model,
+			);
+
+			expect(params.type).toBe('stuff');
+			expect(await params.prompt?.format({ text: 'Text' })).toBe('Stuff prompt: Text');
+		});
+
+		it('should keep the output size guidelines with the stock prompts of the UI', async () => {
+			const sizeModel = { invoke: vi.fn().mockResolvedValue('Short summary') } as any;
+			const params = getChainParameters(
+				createContext({
+					'options.summarizationMethodAndPrompts.values': {
+						summarizationMethod: 'stuff',
+						prompt: DEFAULT_PROMPT_TEMPLATE,
+					},
+					outputSize: 200,
+					sizeEnforcement: 'prompt',
+				}),
+				0,
+				sizeModel,
+			);
+
+			await new BatchedSummarizationChain(params).invoke({
+				input_documents: [{ pageContent: 'Text', metadata: {} }],
+			});
+
+			expect(sizeModel.invoke.mock.calls[0][0]).toContain(
+				'Your response MUST NOT exceed 200 characters',
+			);
+		});
+
+		it('should pass the score prompt apart from the preselection', async () => {
+			const params = getChainParameters(
+				createContext({
+					'options.preselection.values': { scoring: 'llm', scorePrompt: 'Rate: {text}' },
+				}),
+				0,
+				model,
+			);
+
+			expect(params.preselection).toEqual({ scoring: 'llm' });
+			expect(await params.scorePrompt?.format({ text: 'Text' })).toBe('Rate: Text');
+		});
+
+		it('should reject a schema that is not valid JSON', () => {
+			expect(() =>
+				getChainParameters(createContext({ 'options.outputSchema': '{ "type": ' }), 0, model),
+			).toThrow('Output JSON Schema is not valid JSON');
+		});
+	});
+
+	describe('createRateLimiter', () => {
+		it('should only create a limiter when a budget is set', () => {
+			expect(createRateLimiter(createContext())).toBeUndefined();
+			expect(
+				createRateLimiter(createContext({ 'options.rateLimit.values': { requestsPerMinute: 0 } })),
+			).toBeUndefined();
+		});
+
+		it('should allow batch size requests in flight', () => {
+			const rateLimiter = createRateLimiter(
+				createContext({ 'options.rateLimit.values': { requestsPerMinute: 30 }, batchSize: 3 }),
+			);
+
+			expect(rateLimiter).toBeInstanceOf(AdaptiveRateLimiter);
+			expect(rateLimiter?.getStats().concurrency).toBe(3);
+		});
+	});
+
+	describe('getPromptParameters', () => {
+		it('should default to map_reduce with the chain prompts', () => {
+			expect(getPromptParameters({})).toEqual({
+				type: 'map_reduce',
+				combineMapPrompt: undefined,
+				combinePrompt: undefined,
+			});
+		});
+
+		it.each(['map_reduce', 'hierarchical'] as const)(
+			'should use the prompt as the combine prompt for %s',
+			async (summarizationMethod) => {
+				const params = getPromptParameters({
+					summarizationMethod,
+					combineMapPrompt: 'Map: {text}',
+					prompt: 'Combine: {text}',
+				});
+
+				expect(params.type).toBe(summarizationMethod);
+				expect(await params.combineMapPrompt?.format({ text: 'A' })).toBe('Map: A');
+				expect(await params.combinePrompt?.format({ text: 'B' })).toBe('Combine: B');
+				expect(params.prompt).toBeUndefined();
+			},
+		);
+
+		it('should use the prompt as the stuff prompt', async () => {
+			const params = getPromptParameters({
+				summarizationMethod: 'stuff',
+				combineMapPrompt: 'Map: {text}',
+				prompt: 'Stuff: {text}',
+			});
+
+			expect(await params.prompt?.format({ text: 'A' })).toBe('Stuff: A');
+			expect(params.combineMapPrompt).toBeUndefined();
+			expect(params.combinePrompt).toBeUndefined();
+		});
+
+		it('should use the prompt for both paths of map_rerank', async () => {
+			const params = getPromptParameters({
+				summarizationMethod: 'map_rerank',
+				combineMapPrompt: 'Map: {text}',
+				prompt: 'Final: {text}',
+			});
+
+			expect(params.type).toBe('map_rerank');
+			expect(await params.combineMapPrompt?.format({ text: 'A' })).toBe('Map: A');
+			expect(await params.combinePrompt?.format({ text: 'B' })).toBe('Final: B');
+			expect(await params.prompt?.format({ text: 'C' })).toBe('Final: C');
+		});
+
+		it.each(['refine', 'parallel_refine'] as const)(
+			'should map the %s prompts',
+			async (summarizationMethod) => {
+				const params = getPromptParameters({
+					summarizationMethod,
+					prompt: 'Ignored: {text}',
+					refineQuestionPrompt: 'First: {text}',
+					refinePrompt: 'Refine {existing_answer} with {text}',
+				});
+
+				expect(await params.questionPrompt?.format({ text: 'A' })).toBe('First: A');
+				expect(await params.refinePrompt?.format({ existing_answer: 'A', text: 'B' })).toBe(
+					'Refine A with B',
+				);
+				expect(params.prompt).toBeUndefined();
+			},
+		);
+
+		it('should leave the stock prompts of the UI to the chain defaults', () => {
+			expect(
+				getPromptParameters({
+					summarizationMethod: 'refine',
+					refineQuestionPrompt: DEFAULT_PROMPT_TEMPLATE,
+					refinePrompt: REFINE_PROMPT_TEMPLATE,
+				}),
+			).toEqual({ type: 'refine', questionPrompt: undefined, refinePrompt: undefined });
+			expect(
+				getPromptParameters({
+					summarizationMethod: 'map_reduce',
+					combineMapPrompt: DEFAULT_PROMPT_TEMPLATE,
+					prompt: DEFAULT_PROMPT_TEMPLATE,
+				}),
+			).toEqual({ type: 'map_reduce', combineMapPrompt: undefined, combinePrompt: undefined });
+		});
+
+		it('should fill in an empty question for prompts that use it', async () => {
+			const params = getPromptParameters({
+				summarizationMethod: 'stuff',
+				prompt: 'Answer {question} from {text}',
+			});
+
+			expect(await params.prompt?.format({ text: 'A' })).toBe('Answer  from A');
+			expect(await params.prompt?.format({ text: 'A', question: 'Why?' })).toBe(
+				'Answer Why? from A',
+			);
+		});
+
+		it('should leave empty prompts to the chain defaults', () => {
+			const params = getPromptParameters({ summarizationMethod: 'refine', refinePrompt: '' });
+
+			expect(params.refinePrompt).toBeUndefined();
+			expect(params.questionPrompt).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,77 @@
+import type { IDataObject } from 'n8n-workflow';
+import { describe, it, expect } from 'vitest';
+
+import { getPreviousSummary, savePreviousSummary } from '../previousSummary';
+
+describe('Previous Summary', () => {
+	describe('getPreviousSummary', () => {
+		it('should read the summary from a nested item field', () => {
+			const item = { json: { digest: { summary: 'Summary of yesterday' } } };
+
+			expect(
+				getPreviousSummary({ source: 'field', field: 'digest.summary' }, item, () => ({})),
+			).toBe('Summary of yesterday');
+		});
+
+		it('should default to the summary field', () => {
+			const item = { json: { summary: 'Summary of yesterday' } };
+
+			expect(getPreviousSummary({ source: 'field' }, item, () => ({}))).toBe(
+				'Summary of yesterday',
+			);
+		});
+
+		it('should ignore values that are not text', () => {
+			const item = { json: { summary: { text: 'Summary of yesterday' } } };
+
+			expect(getPreviousSummary({ source: 'field' }, item, () => ({}))).toBeUndefined();
+		});
+
+		it('should read the summary saved under the key', () => {
+			const staticData = { previousSummaries: { support: 'Support digest' } };
+
+			expect(
+				getPreviousSummary({ source: 'staticData', key: 'support' }, undefined, () => staticData),
+			).toBe('Support digest');
+			expect(
+				getPreviousSummary({ source: 'staticData', key: 'sales' }, undefined, () => staticData),
+			).toBeUndefined();
+		});
+
+		it('should return undefined without a source', () => {
+			const getStaticData = () => {
+				throw new Error('Static data should not be requested');
+			};
+
+			expect(getPreviousSummary({}, { json: { summary: 'Text' } }, getStaticData)).toBeUndefined();
+		});
+	});
+
+	describe('savePreviousSummary', () => {
+		it('should save the summary under the key', () => {
+			const staticData: IDataObject = { previousSummaries: { sales: 'Sales digest' } };
+			const saved = staticData.previousSummaries;
+
+			savePreviousSummary(
+				{ source: 'staticData', key: 'support' },
+				'Support digest',
+				() => staticData,
+			);
+
+			expect(staticData.previousSummaries).toEqual({
+				sales: 'Sales digest',
+				support: 'Support digest',
+			});
+			// Replaced so n8n notices the change
+			expect(staticData.previousSummaries).not.toBe(saved);
+		});
+
+		it('should not save summaries read from a field', () => {
+			const staticData: IDataObject = {};
+
+			savePreviousSummary({ source: 'field' }, 'Summary', () => staticData);
+
+			expect(staticData).toEqual({});
+		});
+	});
+});
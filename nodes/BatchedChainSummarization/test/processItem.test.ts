@@ -5,7 +5,7 @@ import type { IExecuteFunctions, INode, INodeExecutionData } from 'n8n-workflow'
 import { NodeConnectionType } from 'n8n-workflow';
 import { describe, it, expect, vi } from 'vitest';
 
-import { processItem } from '../processItem';
+import { processItem, processItems } from '../processItem';
 
 vi.mock('@utils/tracing', () => ({
 	getTracingConfig: vi.fn().mockReturnValue({}),
@@ -46,6 +46,7 @@ const createExecuteFunctionsMock = (
 		getInputConnectionData: vi.fn(),
 		getNodeParameter: vi.fn(),
 		getExecutionCancelSignal: vi.fn(),
+		getWorkflowStaticData: vi.fn().mockReturnValue({}),
 	} as unknown as IExecuteFunctions;
 	const mockLlm = {
 		invoke: vi.fn().mockResolvedValue({ content: 'Summary of chunk 1' }),
@@ -73,14 +74,24 @@ const createExecuteFunctionsMock = (
 
 	mockExecuteFunctions.getNodeParameter.mockImplementation((param, _itemIndex, defaultValue) => {
 		const paramMap: Record<string, any> = {
-			summarizationMethod: parameters.summarizationMethod || 'map_reduce',
 			batchSize: parameters.batchSize || 5,
 			delayBetweenBatches: parameters.delayBetweenBatches || 0,
 			chunkSize: parameters.chunkSize || 1000,
 			chunkOverlap: parameters.chunkOverlap || 200,
-			'options.customPrompts.values': parameters.customPrompts || {},
+			'options.summarizationMethodAndPrompts.values': {
+				summarizationMethod: parameters.summarizationMethod || 'map_reduce',
+				...parameters.customPrompts,
+			},
 			'options.textKey': parameters.textKey || 'text',
 			'options.binaryDataKey': parameters.binaryDataKey || 'data',
+			'options.returnIntermediateSteps': parameters.returnIntermediateSteps,
+			'options.cache.values': parameters.cache,
+			'options.previousSummary.values': parameters.previousSummary,
+			'options.extractive.values': parameters.extractive,
+			useCombineModel: parameters.useCombineModel,
+			'options.outputSchema': parameters.outputSchema,
+			outputSize: parameters.outputSize,
+			sizeEnforcement: parameters.sizeEnforcement,
 		};
 
 		return paramMap[param] !== undefined ? paramMap[param] : defaultValue;
@@ -289,8 +300,7 @@ describe('processItem', () => {
 		it('should use custom prompts when provided', async () => {
 			const customPrompts = {
 				combineMapPrompt: 'Custom map prompt: {text}',
-				combinePrompt: 'Custom combine prompt: {text}',
-				stuffPrompt: 'Custom stuff prompt: {text}',
+				prompt: 'Custom combine prompt: {text}',
 				refineQuestionPrompt: 'Custom question prompt: {text}',
 				refinePrompt: 'Custom refine prompt: {existing_answer} + {text}',
 			};
@@ -306,7 +316,7 @@ describe('processItem', () => {
 
 			expect(result).toHaveProperty('output');
 			expect(mockExecuteFunctions.getNodeParameter).toHaveBeenCalledWith(
-				'options.customPrompts.values',
+				'options.summarizationMethodAndPrompts.values',
 				0,
 				{},
 			);
@@ -374,19 +384,128 @@ describe('processItem', () => {
 		});
 	});
 
+	describe('Cancellation', () => {
+		it('should pass the execution cancel signal on to the model', async () => {
+			const controller = new AbortController();
+			const mockExecuteFunctions = createExecuteFunctionsMock({});
+			mockExecuteFunctions.getExecutionCancelSignal.mockReturnValue(controller.signal);
+			const mockLlm = await mockExecuteFunctions.getInputConnectionData(
+				NodeConnectionType.AiLanguageModel,
+				0,
+			);
+			// The model gets the run's signal, which fires with the execution signal
+			let modelSignal: AbortSignal | undefined;
+			mockLlm.invoke.mockImplementationOnce(async (_prompt: string, options: any) => {
+				modelSignal = options.signal;
+				controller.abort();
+				return { content: 'Summary' };
+			});
+
+			const item = { json: { text: 'test' } };
+			await expect(
+				processItem(mockExecuteFunctions, 0, item, 'documentLoader', 'simple'),
+			).rejects.toThrow('Summarization was cancelled');
+
+			expect(modelSignal?.aborted).toBe(true);
+		});
+	});
+
+	describe('Intermediate Steps', () => {
+		it('should attach intermediate steps when the option is enabled', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({
+				returnIntermediateSteps: true,
+			});
+
+			const item = { json: { text: 'test' } };
+			const result = await processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'simple');
+
+			expect(result?.output.intermediateSteps).toEqual([
+				expect.objectContaining({ step: 'map', chunkIndex: 0, text: 'Summary of chunk 1' }),
+			]);
+		});
+	});
+
+	describe('Size Enforcement', () => {
+		it('should pass the size enforcement strategy to the chain', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({
+				outputSize: 10,
+				sizeEnforcement: 'truncate',
+			});
+
+			const item = { json: { text: 'test' } };
+			const result = await processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'none');
+
+			// 'Summary of chunk 1' cut at the last whole word within 10 characters
+			expect(result?.output.text).toBe('Summary');
+			expect(result?.output.sizeValidation).toMatchObject({
+				strategy: 'truncate',
+				appliedStrategy: 'truncate',
+			});
+		});
+	});
+
+	describe('Output Schema', () => {
+		it('should return structured fields for a JSON schema string', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({
+				outputSchema: '{ "type": "object", "required": ["title"] }',
+			});
+			const mockLlm = await mockExecuteFunctions.getInputConnectionData(
+				NodeConnectionType.AiLanguageModel,
+				0,
+			);
+			mockLlm.invoke.mockResolvedValue({ content: '{"title": "Summary"}' });
+
+			const item = { json: { text: 'test' } };
+			const result = await processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'none');
+
+			expect(result?.output.structured).toEqual({ title: 'Summary' });
+		});
+
+		it('should reject a schema that is not valid JSON', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({ outputSchema: '{ "type": ' });
+
+			const item = { json: { text: 'test' } };
+			await expect(
+				processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'none'),
+			).rejects.toThrow('Output JSON Schema is not valid JSON');
+		});
+	});
+
+	describe('Cache', () => {
+		it('should reuse chunk summaries from the configured cache', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({
+				cache: { backend: 'memory' },
+			});
+
+			const item = { json: { text: 'A document that is only summarized once per process.' } };
+			const first = await processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'none');
+			const second = await processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'none');
+
+			expect(first?.output.cache).toEqual({ hits: 0, misses: 1 });
+			expect(second?.output.cache).toEqual({ hits: 1, misses: 0 });
+		});
+	});
+
 	describe('Custom Prompts Coverage', () => {
 		it('should handle stuff method custom prompt', async () => {
 			const mockExecuteFunctions = createExecuteFunctionsMock({
+				summarizationMethod: 'stuff',
 				customPrompts: {
-					stuffPrompt: 'Custom stuff prompt: {text}',
+					prompt: 'Custom stuff prompt: {text}',
 				},
 			});
 
 			const item = { json: { text: 'test' } };
 			await processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'simple');
 
+			const model = await mockExecuteFunctions.getInputConnectionData(
+				NodeConnectionType.AiLanguageModel,
+				0,
+			);
+			expect((model as any).invoke.mock.calls[0][0]).toContain('Custom stuff prompt: test');
+
 			expect(mockExecuteFunctions.getNodeParameter).toHaveBeenCalledWith(
-				'options.customPrompts.values',
+				'options.summarizationMethodAndPrompts.values',
 				0,
 				{},
 			);
@@ -394,6 +513,7 @@ describe('processItem', () => {
 
 		it('should handle refine method custom prompts', async () => {
 			const mockExecuteFunctions = createExecuteFunctionsMock({
+				summarizationMethod: 'refine',
 				customPrompts: {
 					refinePrompt: 'Custom refine prompt: {existing_answer} + {text}',
 					refineQuestionPrompt: 'Custom question prompt: {text}',
@@ -404,7 +524,7 @@ describe('processItem', () => {
 			await processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'simple');
 
 			expect(mockExecuteFunctions.getNodeParameter).toHaveBeenCalledWith(
-				'options.customPrompts.values',
+				'options.summarizationMethodAndPrompts.values',
 				0,
 				{},
 			);
@@ -414,7 +534,7 @@ describe('processItem', () => {
 			const mockExecuteFunctions = createExecuteFunctionsMock({
 				customPrompts: {
 					combineMapPrompt: 'Custom map prompt: {text}',
-					combinePrompt: 'Custom combine prompt: {text}',
+					prompt: 'Custom combine prompt: {text}',
 				},
 			});
 
@@ -422,10 +542,264 @@ describe('processItem', () => {
 			await processItem(mockExecuteFunctions, 0, item, 'nodeInputJson', 'simple');
 
 			expect(mockExecuteFunctions.getNodeParameter).toHaveBeenCalledWith(
-				'options.customPrompts.values',
+				'options.summarizationMethodAndPrompts.values',
 				0,
 				{},
 			);
 		});
 	});
+
+	describe('Combine Model', () => {
+		it('should pass the second connected model to the chain as the combine model', async () => {
+			const mapModel = new FakeListChatModel({ responses: ['Chunk summary'] });
+			const combineModel = new FakeListChatModel({ responses: ['Final summary'] });
+			const mockExecuteFunctions = createExecuteFunctionsMock({ useCombineModel: true });
+			// Connected models arrive in reverse order of the inputs
+			mockExecuteFunctions.getInputConnectionData.mockResolvedValue([combineModel, mapModel]);
+
+			const result = await processItem(
+				mockExecuteFunctions,
+				0,
+				{ json: { text: 'A short email' } },
+				'nodeInputJson',
+				'none',
+			);
+
+			expect(result?.output.text).toBe('Final summary');
+			expect(result?.output.modelUsage.map((usage: any) => usage.role)).toEqual([
+				'map',
+				'combine',
+			]);
+		});
+	});
+
+	describe('Fallback Models', () => {
+		it('should pass the models after the first as fallbacks in input order', async () => {
+			const failingModel = {
+				modelName: 'primary',
+				invoke: vi
+					.fn()
+					.mockRejectedValue(Object.assign(new Error('Quota exhausted'), { status: 429 })),
+			};
+			const firstFallback = Object.assign(new FakeListChatModel({ responses: ['Summary'] }), {
+				modelName: 'first-fallback',
+			});
+			const secondFallback = Object.assign(new FakeListChatModel({ responses: ['Unused'] }), {
+				modelName: 'second-fallback',
+			});
+			const mockExecuteFunctions = createExecuteFunctionsMock({});
+			mockExecuteFunctions.getInputConnectionData.mockResolvedValue([
+				secondFallback,
+				firstFallback,
+				failingModel,
+			]);
+
+			const result = await processItem(
+				mockExecuteFunctions,
+				0,
+				{ json: { text: 'A short email' } },
+				'nodeInputJson',
+				'none',
+			);
+
+			expect(result?.output.text).toBe('Summary');
+			expect(result?.output.modelFallback.finalModel).toBe('first-fallback');
+		});
+	});
+
+	describe('Extractive', () => {
+		it('should summarize without a connected model', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({
+				summarizationMethod: 'extractive',
+			});
+			mockExecuteFunctions.getInputConnectionData.mockResolvedValue(undefined);
+
+			const result = await processItem(
+				mockExecuteFunctions,
+				0,
+				mockExecuteFunctions.getInputData()[0],
+				'nodeInputJson',
+				'simple',
+			);
+
+			expect(result?.output.text).toBe('This is a test document that needs summarization.');
+			expect(result?.output.extractive.selectedSentences).toEqual([0]);
+		});
+
+		it('should still need a model for the other methods', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({});
+			mockExecuteFunctions.getInputConnectionData.mockResolvedValue(undefined);
+
+			await expect(
+				processItem(
+					mockExecuteFunctions,
+					0,
+					mockExecuteFunctions.getInputData()[0],
+					'nodeInputJson',
+					'simple',
+				),
+			).rejects.toThrow('The map_reduce summarization type needs a model');
+		});
+	});
+
+	describe('Previous Summary', () => {
+		it('should update the summary saved in the static data and save the new one', async () => {
+			const staticData = { previousSummaries: { default: 'Summary of yesterday' } };
+			const mockExecuteFunctions = createExecuteFunctionsMock({
+				previousSummary: { source: 'staticData' },
+			});
+			vi.mocked(mockExecuteFunctions.getWorkflowStaticData).mockReturnValue(staticData);
+
+			const result = await processItem(
+				mockExecuteFunctions,
+				0,
+				mockExecuteFunctions.getInputData()[0],
+				'nodeInputJson',
+				'simple',
+			);
+
+			expect(result?.output.updatedExistingSummary).toBe(true);
+			expect(staticData.previousSummaries.default).toBe(result?.output.text);
+		});
+
+		it('should keep the saved summary when the extractive fallback answers', async () => {
+			const staticData = { previousSummaries: { default: 'Summary of yesterday' } };
+			const mockExecuteFunctions = createExecuteFunctionsMock({
+				previousSummary: { source: 'staticData' },
+				extractive: { fallback: true },
+			});
+			vi.mocked(mockExecuteFunctions.getWorkflowStaticData).mockReturnValue(staticData);
+			const mockLlm = await mockExecuteFunctions.getInputConnectionData(
+				NodeConnectionType.AiLanguageModel,
+				0,
+			);
+			mockLlm.invoke.mockRejectedValue(new Error('Invalid request'));
+
+			const result = await processItem(
+				mockExecuteFunctions,
+				0,
+				mockExecuteFunctions.getInputData()[0],
+				'nodeInputJson',
+				'simple',
+			);
+
+			expect(result?.output.extractiveFallback).toEqual({ error: 'Invalid request' });
+			expect(staticData.previousSummaries.default).toBe('Summary of yesterday');
+		});
+
+		it('should keep the saved summary for structured output', async () => {
+			const staticData = { previousSummaries: { default: 'Summary of yesterday' } };
+			const mockExecuteFunctions = createExecuteFunctionsMock({
+				previousSummary: { source: 'staticData' },
+				outputSchema: '{ "type": "object", "required": ["title"] }',
+			});
+			vi.mocked(mockExecuteFunctions.getWorkflowStaticData).mockReturnValue(staticData);
+			const mockLlm = await mockExecuteFunctions.getInputConnectionData(
+				NodeConnectionType.AiLanguageModel,
+				0,
+			);
+			mockLlm.invoke.mockResolvedValue({ content: '{"title": "Summary"}' });
+
+			const result = await processItem(
+				mockExecuteFunctions,
+				0,
+				mockExecuteFunctions.getInputData()[0],
+				'nodeInputJson',
+				'simple',
+			);
+
+			expect(result?.output.structured).toEqual({ title: 'Summary' });
+			expect(staticData.previousSummaries.default).toBe('Summary of yesterday');
+		});
+
+		it('should not touch the static data when the summary comes from a field', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock(
+				{ previousSummary: { source: 'field' } },
+				[{ json: { text: 'New email', summary: 'Summary of yesterday' } }],
+			);
+
+			const result = await processItem(
+				mockExecuteFunctions,
+				0,
+				mockExecuteFunctions.getInputData()[0],
+				'nodeInputJson',
+				'simple',
+			);
+
+			expect(result?.output.updatedExistingSummary).toBe(true);
+			expect(mockExecuteFunctions.getWorkflowStaticData).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Aggregate Items', () => {
+		const items: INodeExecutionData[] = [
+			{ json: { text: 'First email about the launch' } },
+			{ json: { text: 'Second email about the budget' } },
+		];
+
+		it('should summarize the documents of all items in one run', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({ returnIntermediateSteps: true });
+
+			const result = await processItems(mockExecuteFunctions, items, 'nodeInputJson', 'none');
+
+			expect(result?.output.sourceItems).toEqual([
+				{ itemIndex: 0, chunkCount: 1 },
+				{ itemIndex: 1, chunkCount: 1 },
+			]);
+			// Each document is tagged with the item it came from
+			expect(
+				result?.output.intermediateSteps.map((step: any) => step.metadata.itemIndex),
+			).toEqual([0, 1]);
+		});
+
+		it('should only summarize the picked items', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({});
+
+			const result = await processItems(mockExecuteFunctions, items, 'nodeInputJson', 'none', [1]);
+
+			expect(result?.output.sourceItems).toEqual([{ itemIndex: 1, chunkCount: 1 }]);
+		});
+
+		it('should load static loader documents only once', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({});
+
+			const result = await processItems(mockExecuteFunctions, items, 'documentLoader', 'none');
+
+			expect(result?.output.sourceItems).toEqual([{ itemIndex: 0, chunkCount: 1 }]);
+		});
+
+		it('should read the document loader input once for all items', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({});
+			const getInputConnectionData = mockExecuteFunctions.getInputConnectionData;
+			const defaultImplementation = getInputConnectionData.getMockImplementation()!;
+			const loader = {
+				processItem: vi.fn(async (item: INodeExecutionData) => [
+					{ pageContent: item.json.text as string, metadata: {} },
+				]),
+			};
+			getInputConnectionData.mockImplementation(async (connectionType, index) =>
+				connectionType === NodeConnectionType.AiDocument
+					? loader
+					: await defaultImplementation(connectionType, index),
+			);
+
+			const result = await processItems(mockExecuteFunctions, items, 'documentLoader', 'none');
+
+			expect(result?.output.sourceItems).toHaveLength(2);
+			expect(loader.processItem).toHaveBeenCalledTimes(2);
+			expect(
+				getInputConnectionData.mock.calls.filter(
+					([connectionType]) => connectionType === NodeConnectionType.AiDocument,
+				),
+			).toHaveLength(1);
+		});
+
+		it('should return undefined for unsupported operation mode', async () => {
+			const mockExecuteFunctions = createExecuteFunctionsMock({});
+
+			const result = await processItems(mockExecuteFunctions, items, 'unsupportedMode', 'none');
+
+			expect(result).toBeUndefined();
+		});
+	});
 });
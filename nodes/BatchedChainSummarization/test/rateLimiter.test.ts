@@ -0,0 +1,123 @@
+import { sleep } from 'n8n-workflow';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { AdaptiveRateLimiter } from '../rateLimiter';
+
+vi.mock('n8n-workflow', () => ({
+	sleep: vi.fn().mockResolvedValue(undefined),
+}));
+
+const mockSleep = vi.mocked(sleep);
+
+describe('AdaptiveRateLimiter', () => {
+	let now: number;
+	const clock = () => now;
+
+	beforeEach(() => {
+		now = 0;
+		vi.clearAllMocks();
+	});
+
+	it('should only be enabled with a positive budget', () => {
+		expect(AdaptiveRateLimiter.isEnabled(undefined)).toBe(false);
+		expect(AdaptiveRateLimiter.isEnabled({ requestsPerMinute: 0, tokensPerMinute: 0 })).toBe(false);
+		expect(AdaptiveRateLimiter.isEnabled({ requestsPerMinute: 10 })).toBe(true);
+		expect(AdaptiveRateLimiter.isEnabled({ tokensPerMinute: 1000 })).toBe(true);
+	});
+
+	it('should let requests through while the request budget lasts', async () => {
+		const limiter = new AdaptiveRateLimiter({ requestsPerMinute: 2 }, 5, clock);
+
+		await limiter.acquire(0);
+		limiter.release();
+		await limiter.acquire(0);
+		limiter.release();
+
+		expect(mockSleep).not.toHaveBeenCalled();
+	});
+
+	it('should wait for the request budget to refill', async () => {
+		const limiter = new AdaptiveRateLimiter({ requestsPerMinute: 2 }, 5, clock);
+
+		for (let i = 0; i < 3; i++) {
+			await limiter.acquire(0);
+			limiter.release();
+		}
+
+		// 2 requests per minute refill one request every 30 seconds
+		expect(mockSleep).toHaveBeenCalledWith(30000);
+		expect(limiter.getStats().waitedMs).toBe(30000);
+	});
+
+	it('should not wait once the clock has refilled the budget', async () => {
+		const limiter = new AdaptiveRateLimiter({ requestsPerMinute: 2 }, 5, clock);
+
+		await limiter.acquire(0);
+		await limiter.acquire(0);
+		now = 30000;
+		await limiter.acquire(0);
+
+		expect(mockSleep).not.toHaveBeenCalled();
+	});
+
+	it('should wait for the token budget of large requests', async () => {
+		const limiter = new AdaptiveRateLimiter({ tokensPerMinute: 1000 }, 5, clock);
+
+		await limiter.acquire(800);
+		limiter.release();
+		await limiter.acquire(400);
+		limiter.release();
+
+		// 200 tokens of debt at 1000 tokens per minute
+		expect(mockSleep).toHaveBeenCalledWith(12000);
+	});
+
+	it('should correct the token budget with the actual usage', async () => {
+		const limiter = new AdaptiveRateLimiter({ tokensPerMinute: 1000 }, 5, clock);
+
+		await limiter.acquire(900);
+		limiter.release();
+		limiter.recordUsage(900, 300);
+		await limiter.acquire(600);
+		limiter.release();
+
+		expect(mockSleep).not.toHaveBeenCalled();
+	});
+
+	it('should cap the requests in flight at the concurrency', async () => {
+		const limiter = new AdaptiveRateLimiter({ requestsPerMinute: 1000 }, 2, clock);
+		const started: number[] = [];
+
+		const requests = [0, 1, 2].map(async (id) => {
+			await limiter.acquire(0);
+			started.push(id);
+		});
+		await Promise.resolve();
+		await Promise.resolve();
+
+		expect(started).toEqual([0, 1]);
+
+		limiter.release();
+		await Promise.all(requests);
+
+		expect(started).toEqual([0, 1, 2]);
+	});
+
+	it('should halve the concurrency after rate limit responses and grow it back', () => {
+		const limiter = new AdaptiveRateLimiter({ requestsPerMinute: 1000 }, 8, clock);
+
+		limiter.onRateLimited();
+		expect(limiter.getStats().concurrency).toBe(4);
+		limiter.onRateLimited();
+		limiter.onRateLimited();
+		limiter.onRateLimited();
+		expect(limiter.getStats().concurrency).toBe(1);
+		expect(limiter.getStats().rateLimitedCount).toBe(4);
+
+		limiter.onSuccess();
+		expect(limiter.getStats().concurrency).toBe(2);
+		limiter.onSuccess();
+		limiter.onSuccess();
+		expect(limiter.getStats().concurrency).toBe(3);
+	});
+});
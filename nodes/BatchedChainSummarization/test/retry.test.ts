@@ -0,0 +1,164 @@
+import { sleep } from 'n8n-workflow';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+	createRetryPolicy,
+	getRetryAfterMs,
+	getRetryDelay,
+	isRetryableError,
+	withRetry,
+} from '../retry';
+
+vi.mock('n8n-workflow', () => ({
+	sleep: vi.fn().mockResolvedValue(undefined),
+}));
+
+const mockSleep = vi.mocked(sleep);
+
+const providerError = (status: number, headers?: Record<string, string>) =>
+	Object.assign(new Error(`Provider error ${status}`), { status, headers });
+
+describe('retry', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe('createRetryPolicy', () => {
+		it('should apply defaults', () => {
+			expect(createRetryPolicy()).toEqual({
+				maxAttempts: 3,
+				baseDelay: 1000,
+				maxDelay: 30000,
+				jitter: true,
+			});
+		});
+
+		it('should clamp invalid values', () => {
+			const policy = createRetryPolicy({ maxAttempts: 0, baseDelay: -5, maxDelay: 10_000_000 });
+
+			expect(policy.maxAttempts).toBe(1);
+			expect(policy.baseDelay).toBe(0);
+			expect(policy.maxDelay).toBe(600000);
+		});
+	});
+
+	describe('isRetryableError', () => {
+		it('should retry rate limits and server errors', () => {
+			expect(isRetryableError(providerError(429))).toBe(true);
+			expect(isRetryableError(providerError(500))).toBe(true);
+			expect(isRetryableError(providerError(503))).toBe(true);
+			expect(isRetryableError({ response: { status: 502 } })).toBe(true);
+		});
+
+		it('should retry network errors and rate limit messages', () => {
+			expect(isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(
+				true,
+			);
+			expect(isRetryableError(new Error('Rate limit reached for requests'))).toBe(true);
+		});
+
+		it('should not retry client errors', () => {
+			expect(isRetryableError(providerError(400))).toBe(false);
+			expect(isRetryableError(providerError(401))).toBe(false);
+			expect(isRetryableError(new Error('Model error'))).toBe(false);
+		});
+
+		it('should not retry values that are not errors', () => {
+			expect(isRetryableError(undefined)).toBe(false);
+			expect(isRetryableError('Rate limit reached')).toBe(false);
+			expect(isRetryableError({ status: '503', code: 42, message: null })).toBe(false);
+		});
+	});
+
+	describe('getRetryAfterMs', () => {
+		it('should read seconds from a plain header object', () => {
+			expect(getRetryAfterMs(providerError(429, { 'retry-after': '7' }))).toBe(7000);
+		});
+
+		it('should prefer retry-after-ms', () => {
+			expect(
+				getRetryAfterMs(providerError(429, { 'retry-after-ms': '1500', 'retry-after': '7' })),
+			).toBe(1500);
+		});
+
+		it('should read an HTTP date from a Headers instance', () => {
+			const now = Date.parse('2025-01-01T00:00:00Z');
+			const error = {
+				status: 429,
+				headers: new Headers({ 'retry-after': 'Wed, 01 Jan 2025 00:00:05 GMT' }),
+			};
+
+			expect(getRetryAfterMs(error, now)).toBe(5000);
+		});
+
+		it('should return undefined without headers', () => {
+			expect(getRetryAfterMs(providerError(429))).toBeUndefined();
+		});
+	});
+
+	describe('getRetryDelay', () => {
+		const policy = createRetryPolicy({ baseDelay: 1000, maxDelay: 5000, jitter: false });
+
+		it('should back off exponentially up to maxDelay', () => {
+			expect(getRetryDelay(1, policy)).toBe(1000);
+			expect(getRetryDelay(2, policy)).toBe(2000);
+			expect(getRetryDelay(3, policy)).toBe(4000);
+			expect(getRetryDelay(4, policy)).toBe(5000);
+		});
+
+		it('should keep jittered delays between half and the full backoff', () => {
+			const jittered = createRetryPolicy({ baseDelay: 1000, jitter: true });
+
+			for (let i = 0; i < 20; i++) {
+				const delay = getRetryDelay(2, jittered);
+				expect(delay).toBeGreaterThanOrEqual(1000);
+				expect(delay).toBeLessThanOrEqual(2000);
+			}
+		});
+
+		it('should respect a longer Retry-After header', () => {
+			expect(getRetryDelay(1, policy, providerError(429, { 'retry-after': '20' }))).toBe(20000);
+		});
+	});
+
+	describe('withRetry', () => {
+		const policy = createRetryPolicy({ maxAttempts: 3, baseDelay: 100, jitter: false });
+
+		it('should return the result after transient failures', async () => {
+			const operation = vi
+				.fn()
+				.mockRejectedValueOnce(providerError(429))
+				.mockRejectedValueOnce(providerError(503))
+				.mockResolvedValue('ok');
+
+			await expect(withRetry(operation, policy)).resolves.toBe('ok');
+			expect(operation).toHaveBeenCalledTimes(3);
+			expect(mockSleep).toHaveBeenNthCalledWith(1, 100);
+			expect(mockSleep).toHaveBeenNthCalledWith(2, 200);
+		});
+
+		it('should give up after maxAttempts', async () => {
+			const operation = vi.fn().mockRejectedValue(providerError(429));
+
+			await expect(withRetry(operation, policy)).rejects.toThrow('Provider error 429');
+			expect(operation).toHaveBeenCalledTimes(3);
+		});
+
+		it('should not retry non-transient errors', async () => {
+			const operation = vi.fn().mockRejectedValue(providerError(400));
+
+			await expect(withRetry(operation, policy)).rejects.toThrow('Provider error 400');
+			expect(operation).toHaveBeenCalledTimes(1);
+			expect(mockSleep).not.toHaveBeenCalled();
+		});
+
+		it('should report every retry', async () => {
+			const onRetry = vi.fn();
+			const operation = vi.fn().mockRejectedValueOnce(providerError(500)).mockResolvedValue('ok');
+
+			await withRetry(operation, policy, { onRetry });
+
+			expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 100);
+		});
+	});
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+	createStructuredOutputPrompt,
+	createStructuredOutputRepairPrompt,
+	parseStructuredOutput,
+	validateAgainstSchema,
+} from '../structuredOutput';
+
+const schema = {
+	type: 'object',
+	required: ['title', 'keyPoints'],
+	properties: {
+		title: { type: 'string' },
+		keyPoints: { type: 'array', items: { type: 'string' } },
+		sentiment: { enum: ['positive', 'neutral', 'negative'] },
+	},
+};
+
+describe('Structured Output', () => {
+	describe('validateAgainstSchema', () => {
+		it('should accept matching data', () => {
+			expect(validateAgainstSchema({ title: 'Report', keyPoints: ['Growth'] }, schema)).toEqual([]);
+		});
+
+		it('should list the nested errors', () => {
+			const errors = validateAgainstSchema(
+				{ title: 1, keyPoints: ['Growth', 2], sentiment: 'mixed' },
+				schema,
+			);
+
+			expect(errors).toEqual([
+				'#/title: Instance type "number" is invalid. Expected "string".',
+				'#/keyPoints/1: Instance type "number" is invalid. Expected "string".',
+				'#/sentiment: Instance does not match any of ["positive","neutral","negative"].',
+			]);
+		});
+
+		it('should report missing required properties', () => {
+			const errors = validateAgainstSchema({ title: 'Report' }, schema);
+
+			expect(errors).toHaveLength(1);
+			expect(errors[0]).toContain('keyPoints');
+		});
+	});
+
+	describe('parseStructuredOutput', () => {
+		it('should parse plain JSON', () => {
+			const parsed = parseStructuredOutput('{"title":"Report","keyPoints":[]}', schema);
+
+			expect(parsed).toEqual({
+				data: { title: 'Report', keyPoints: [] },
+				errors: [],
+				repaired: false,
+			});
+		});
+
+		it('should repair code fences', () => {
+			const parsed = parseStructuredOutput(
+				'```json\n{"title": "Report", "keyPoints": ["Growth"]}\n```',
+				schema,
+			);
+
+			expect(parsed).toEqual({
+				data: { title: 'Report', keyPoints: ['Growth'] },
+				errors: [],
+				repaired: true,
+			});
+		});
+
+		it('should repair text around the JSON', () => {
+			const parsed = parseStructuredOutput(
+				'Here is the summary: {"title": "Report", "keyPoints": ["Growth"]} Hope this helps!',
+				schema,
+			);
+
+			expect(parsed.data).toEqual({ title: 'Report', keyPoints: ['Growth'] });
+			expect(parsed.errors).toEqual([]);
+		});
+
+		it('should repair truncated JSON', () => {
+			const parsed = parseStructuredOutput(
+				'{"title": "Report", "keyPoints": ["Growth", "Hiri',
+				schema,
+			);
+
+			expect(parsed.data).toEqual({ title: 'Report', keyPoints: ['Growth', 'Hiri'] });
+			expect(parsed.repaired).toBe(true);
+		});
+
+		it('should report text that is not JSON', () => {
+			const parsed = parseStructuredOutput('The quarter went well.', schema);
+
+			expect(parsed.data).toBeUndefined();
+			expect(parsed.errors).toEqual(['#: Response is not valid JSON.']);
+		});
+
+		it('should report schema errors of parsed JSON', () => {
+			const parsed = parseStructuredOutput('{"title": "Report"}', schema);
+
+			expect(parsed.data).toEqual({ title: 'Report' });
+			expect(parsed.errors).toHaveLength(1);
+		});
+	});
+
+	describe('prompts', () => {
+		it('should add the schema to the prompt', () => {
+			const prompt = createStructuredOutputPrompt('Summarize this.', schema);
+
+			expect(prompt).toMatch(/^Summarize this\./);
+			expect(prompt).toContain('"keyPoints"');
+			expect(prompt).toContain('single JSON value');
+		});
+
+		it('should list the errors in the repair prompt', () => {
+			const prompt = createStructuredOutputRepairPrompt('{"title": 1}', ['#/title: wrong'], schema);
+
+			expect(prompt).toContain('- #/title: wrong');
+			expect(prompt).toContain('{"title": 1}');
+		});
+	});
+});
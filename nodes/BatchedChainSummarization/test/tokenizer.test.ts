@@ -0,0 +1,142 @@
+import { BaseLanguageModel } from '@langchain/core/language_models/base';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { getEncoding } from 'js-tiktoken';
+import { describe, it, expect, vi } from 'vitest';
+
+import { ResponseValidatorTool, TokenCounterTool } from '../countingTools';
+import { getEncodingForModelName, ModelTokenizer } from '../tokenizer';
+
+/**
+ * Fake chat model with a provider specific token counter, like some LangChain integrations.
+ */
+class CountingChatModel extends FakeListChatModel {
+	getNumTokens = vi.fn().mockResolvedValue(42);
+}
+
+// Emoji and non-English text encode very differently with cl100k and o200k
+const text = 'Résumé des réunions trimestrielles 📈 — 数据分析报告 and quarterly planning notes.';
+
+describe('Tokenizer', () => {
+	describe('getEncodingForModelName', () => {
+		it.each([
+			['gpt-4o', 'o200k_base'],
+			['gpt-4o-mini-2024-07-18', 'o200k_base'],
+			['gpt-4.1-nano', 'o200k_base'],
+			['o3-mini', 'o200k_base'],
+			['openai/gpt-4o', 'o200k_base'],
+			['gpt-4-turbo', 'cl100k_base'],
+			['gpt-3.5-turbo', 'cl100k_base'],
+			['claude-3-5-sonnet-20241022', 'cl100k_base'],
+			['meta-llama/Llama-3.1-70B-Instruct', 'o200k_base'],
+			['llama3.2', 'o200k_base'],
+			['mistral-large-latest', 'cl100k_base'],
+			['models/gemini-1.5-pro', 'cl100k_base'],
+			['text-davinci-003', 'p50k_base'],
+			['some-unknown-model', 'cl100k_base'],
+		])('should map %s to %s', (modelName, encoding) => {
+			expect(getEncodingForModelName(modelName)).toBe(encoding);
+		});
+	});
+
+	describe('ModelTokenizer', () => {
+		it('should use cl100k without a model', async () => {
+			const tokenizer = new ModelTokenizer();
+
+			expect(tokenizer.encoding).toBe('cl100k_base');
+			expect(await tokenizer.countTokens(text)).toBe(
+				getEncoding('cl100k_base').encode(text).length,
+			);
+		});
+
+		it('should pick the encoding from the model name', async () => {
+			const model = { modelName: 'gpt-4o', invoke: vi.fn() } as any;
+			const tokenizer = new ModelTokenizer(model);
+
+			expect(tokenizer.encoding).toBe('o200k_base');
+			expect(tokenizer.name).toBe('o200k_base');
+			expect(await tokenizer.countTokens(text)).toBe(getEncoding('o200k_base').encode(text).length);
+			expect(getEncoding('o200k_base').encode(text).length).not.toBe(
+				getEncoding('cl100k_base').encode(text).length,
+			);
+		});
+
+		it('should read the model from the model property', () => {
+			const model = { model: 'claude-3-haiku-20240307', invoke: vi.fn() } as any;
+
+			expect(new ModelTokenizer(model).encoding).toBe('cl100k_base');
+		});
+
+		it("should use the model's own token counter when it has one", async () => {
+			const model = new CountingChatModel({ responses: [] });
+			const tokenizer = new ModelTokenizer(model);
+
+			expect(await tokenizer.countTokens(text)).toBe(42);
+			expect(model.getNumTokens).toHaveBeenCalledWith(text);
+			expect(tokenizer.name).toBe('fake-list (model)');
+		});
+
+		it("should not use LangChain's generic token counter", async () => {
+			const spy = vi.spyOn(BaseLanguageModel.prototype, 'getNumTokens');
+			const model = new FakeListChatModel({ responses: [] });
+
+			await new ModelTokenizer(model).countTokens(text);
+
+			expect(spy).not.toHaveBeenCalled();
+			spy.mockRestore();
+		});
+
+		it("should fall back to the encoding when the model's counter fails", async () => {
+			const model = new CountingChatModel({ responses: [] });
+			model.getNumTokens.mockRejectedValue(new Error('Tokenizer unavailable'));
+
+			const count = await new ModelTokenizer(model).countTokens(text);
+
+			expect(count).toBe(getEncoding('cl100k_base').encode(text).length);
+		});
+
+		it('should prefer an explicit encoding over the model', async () => {
+			const model = new CountingChatModel({ responses: [] });
+			const tokenizer = new ModelTokenizer(model, 'o200k_base');
+
+			expect(await tokenizer.countTokens(text)).toBe(getEncoding('o200k_base').encode(text).length);
+			expect(model.getNumTokens).not.toHaveBeenCalled();
+			expect(tokenizer.name).toBe('o200k_base');
+		});
+
+		it('should truncate to the token limit', () => {
+			const tokenizer = new ModelTokenizer();
+
+			const truncated = tokenizer.truncate(text, 5);
+
+			expect(tokenizer.countTokensSync(truncated)).toBeLessThanOrEqual(5);
+			expect(text.startsWith(truncated)).toBe(true);
+			expect(tokenizer.truncate('Short text', 100)).toBe('Short text');
+		});
+
+		it('should count synchronously with the encoding', () => {
+			const model = new CountingChatModel({ responses: [] });
+
+			expect(new ModelTokenizer(model).countTokensSync(text)).toBe(
+				getEncoding('cl100k_base').encode(text).length,
+			);
+		});
+	});
+
+	describe('Counting tools', () => {
+		it('should count tokens with the given tokenizer', async () => {
+			const model = { modelName: 'gpt-4o', invoke: vi.fn() } as any;
+			const tool = new TokenCounterTool(new ModelTokenizer(model));
+
+			expect(await tool.invoke(text)).toBe(String(getEncoding('o200k_base').encode(text).length));
+		});
+
+		it('should validate the size with the given tokenizer', async () => {
+			const model = new CountingChatModel({ responses: [] });
+			const tool = new ResponseValidatorTool(40, 'tokens', new ModelTokenizer(model));
+
+			const result = JSON.parse(await tool.invoke(text));
+
+			expect(result).toMatchObject({ isValid: false, actualSize: 42, maxSize: 40, unit: 'tokens' });
+		});
+	});
+});
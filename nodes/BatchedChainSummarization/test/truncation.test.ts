@@ -0,0 +1,81 @@
+import { getEncoding } from 'js-tiktoken';
+import { describe, it, expect } from 'vitest';
+
+import { findBoundaries, truncateAtBoundary } from '../truncation';
+
+const measureCharacters = async (text: string) => text.length;
+const cutCharacters = (text: string, maxSize: number) => text.slice(0, maxSize);
+
+describe('Truncation', () => {
+	describe('findBoundaries', () => {
+		it('should find sentence ends, line breaks and the end of the text', () => {
+			const text = 'First one. Second "quoted!" Third?\n- Bullet';
+
+			expect(findBoundaries(text)).toEqual([10, 27, 34, text.length]);
+		});
+
+		it('should not split abbreviations without a following space', () => {
+			expect(findBoundaries('Version 1.5 is out')).toEqual([18]);
+		});
+	});
+
+	describe('truncateAtBoundary', () => {
+		it('should keep text that fits', async () => {
+			const text = 'Short text.';
+
+			expect(await truncateAtBoundary(text, 20, measureCharacters, cutCharacters)).toBe(text);
+		});
+
+		it('should cut at the last sentence that fits', async () => {
+			const text = 'Revenue grew 12%. Costs fell. Hiring resumes in Q3.';
+
+			expect(await truncateAtBoundary(text, 35, measureCharacters, cutCharacters)).toBe(
+				'Revenue grew 12%. Costs fell.',
+			);
+		});
+
+		it('should cut at the last bullet that fits', async () => {
+			const text = '- Revenue grew\n- Costs fell\n- Hiring resumes in Q3';
+
+			expect(await truncateAtBoundary(text, 30, measureCharacters, cutCharacters)).toBe(
+				'- Revenue grew\n- Costs fell',
+			);
+		});
+
+		it('should fall back to the last whole word', async () => {
+			const text = 'A single very long sentence without any early boundary at all.';
+
+			expect(await truncateAtBoundary(text, 20, measureCharacters, cutCharacters)).toBe(
+				'A single very long',
+			);
+		});
+
+		it('should hard cut text without spaces', async () => {
+			expect(await truncateAtBoundary('A'.repeat(100), 10, measureCharacters, cutCharacters)).toBe(
+				'A'.repeat(10),
+			);
+		});
+
+		it('should measure tokens with the given counter', async () => {
+			const encoding = getEncoding('cl100k_base');
+			const measureTokens = async (text: string) => encoding.encode(text).length;
+			const cutTokens = (text: string, maxSize: number) =>
+				encoding.decode(encoding.encode(text).slice(0, maxSize));
+			const text = 'Revenue grew strongly this quarter. Costs fell. Hiring resumes in Q3.';
+
+			const truncated = await truncateAtBoundary(text, 10, measureTokens, cutTokens);
+
+			expect(truncated).toBe('Revenue grew strongly this quarter. Costs fell.');
+			expect(await measureTokens(truncated)).toBeLessThanOrEqual(10);
+		});
+
+		it('should shorten until a disagreeing counter fits', async () => {
+			// The counter reports twice the characters the cut assumes
+			const measureDouble = async (text: string) => text.length * 2;
+
+			const truncated = await truncateAtBoundary('B'.repeat(100), 20, measureDouble, cutCharacters);
+
+			expect(truncated.length * 2).toBeLessThanOrEqual(20);
+		});
+	});
+});
@@ -0,0 +1,97 @@
+import type { BaseLanguageModel } from '@langchain/core/language_models/base';
+
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	// True when at least one call had no provider usage data and was estimated with tiktoken
+	estimated: boolean;
+}
+
+export interface ModelPricing {
+	model: string; // Model name or prefix, '*' matches any model
+	promptPricePerMillion: number;
+	completionPricePerMillion: number;
+}
+
+export function createEmptyTokenUsage(): TokenUsage {
+	return { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+}
+
+/**
+ * Reads the token counts reported by the provider on an AIMessage, if any.
+ */
+export function getReportedUsage(
+	result: unknown,
+): { promptTokens: number; completionTokens: number } | undefined {
+	if (!result || typeof result !== 'object') {
+		return undefined;
+	}
+
+	const usage = (result as { usage_metadata?: { input_tokens?: number; output_tokens?: number } })
+		.usage_metadata;
+	if (!usage || typeof usage.input_tokens !== 'number' || typeof usage.output_tokens !== 'number') {
+		return undefined;
+	}
+
+	return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens };
+}
+
+export function addTokenUsage(
+	usage: TokenUsage,
+	promptTokens: number,
+	completionTokens: number,
+	estimated: boolean,
+): void {
+	usage.promptTokens += promptTokens;
+	usage.completionTokens += completionTokens;
+	usage.totalTokens += promptTokens + completionTokens;
+	usage.estimated = usage.estimated || estimated;
+}
+
+export function getModelName(model: BaseLanguageModel): string {
+	const named = model as unknown as { modelName?: unknown; model?: unknown };
+	if (typeof named.modelName === 'string' && named.modelName) {
+		return named.modelName;
+	}
+	if (typeof named.model === 'string' && named.model) {
+		return named.model;
+	}
+	if (typeof model._llmType === 'function') {
+		return model._llmType();
+	}
+	return 'unknown';
+}
+
+/**
+ * Finds the price entry for a model: the longest matching name prefix wins, '*' is the fallback.
+ */
+export function findModelPricing(
+	modelName: string,
+	pricing: ModelPricing[],
+): ModelPricing | undefined {
+	const matches = pricing
+		.filter((entry) => entry.model !== '*' && modelName.startsWith(entry.model))
+		.sort((a, b) => b.model.length - a.model.length);
+
+	return matches[0] ?? pricing.find((entry) => entry.model === '*');
+}
+
+export function estimateCost(
+	usage: TokenUsage,
+	modelName: string,
+	pricing: ModelPricing[],
+): number | undefined {
+	const entry = findModelPricing(modelName, pricing);
+	if (!entry) {
+		return undefined;
+	}
+
+	const cost =
+		(usage.promptTokens * entry.promptPricePerMillion +
+			usage.completionTokens * entry.completionPricePerMillion) /
+		1_000_000;
+
+	// Round away floating point noise while keeping sub-cent precision
+	return Math.round(cost * 1e8) / 1e8;
+}
@@ -0,0 +1,127 @@
+import { BaseLanguageModel } from '@langchain/core/language_models/base';
+import { getEncoding, type Tiktoken, type TiktokenEncoding } from 'js-tiktoken';
+
+import { DEFAULT_TOKENIZER_ENCODING } from './constants';
+import { getModelName } from './tokenUsage';
+
+// 'auto' picks the encoding from the connected model's name
+export type TokenizerEncoding = 'auto' | TiktokenEncoding;
+
+interface EncodingRule {
+	pattern: RegExp;
+	encoding: TiktokenEncoding;
+}
+
+/**
+ * Model name patterns and the tiktoken encoding that matches (or best approximates) their
+ * tokenizer. The first matching rule wins, unknown models use DEFAULT_TOKENIZER_ENCODING.
+ */
+const ENCODING_RULES: EncodingRule[] = [
+	// GPT-4o and newer OpenAI models
+	{ pattern: /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4)/, encoding: 'o200k_base' },
+	{ pattern: /^(gpt-4|gpt-3\.5|text-embedding)/, encoding: 'cl100k_base' },
+	{ pattern: /^(text-davinci|code-davinci)/, encoding: 'p50k_base' },
+	// Llama 3 uses a 128k vocabulary built on top of cl100k, closest to o200k in density
+	{ pattern: /llama-?3|llama3/, encoding: 'o200k_base' },
+	// Claude, Llama 2, Mistral and Gemini tokenizers are not public or not BPE compatible,
+	// cl100k is a close approximation for English text
+	{ pattern: /claude|llama|mistral|mixtral|gemini|gemma|command/, encoding: 'cl100k_base' },
+];
+
+// Building an encoder is expensive, so each one is created once and shared
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function getEncoder(encoding: TiktokenEncoding): Tiktoken {
+	let encoder = encoders.get(encoding);
+	if (!encoder) {
+		encoder = getEncoding(encoding);
+		encoders.set(encoding, encoder);
+	}
+	return encoder;
+}
+
+/**
+ * Finds the encoding for a model name, ignoring provider prefixes like 'openai/' or 'models/'.
+ */
+export function getEncodingForModelName(modelName: string): TiktokenEncoding {
+	const name = modelName.toLowerCase().split('/').pop() ?? '';
+	return (
+		ENCODING_RULES.find((rule) => rule.pattern.test(name))?.encoding ?? DEFAULT_TOKENIZER_ENCODING
+	);
+}
+
+/**
+ * LangChain's generic getNumTokens downloads the tiktoken encoding of the model name and
+ * falls back to a length based estimate for names tiktoken does not know, so only provider
+ * specific implementations are worth calling.
+ */
+function hasOwnTokenCounter(model?: BaseLanguageModel): boolean {
+	return (
+		typeof model?.getNumTokens === 'function' &&
+		model.getNumTokens !== BaseLanguageModel.prototype.getNumTokens
+	);
+}
+
+/**
+ * Counts tokens the way the connected model does: with the model's own getNumTokens when it
+ * provides one, otherwise with the tiktoken encoding matching its name.
+ */
+export class ModelTokenizer {
+	readonly encoding: TiktokenEncoding;
+	private readonly model?: BaseLanguageModel;
+
+	constructor(model?: BaseLanguageModel, encoding: TokenizerEncoding = 'auto') {
+		if (encoding === 'auto') {
+			this.encoding = model
+				? getEncodingForModelName(getModelName(model))
+				: DEFAULT_TOKENIZER_ENCODING;
+			// An explicit encoding always wins over the model's own counter
+			this.model = hasOwnTokenCounter(model) ? model : undefined;
+		} else {
+			this.encoding = encoding;
+		}
+	}
+
+	/**
+	 * Name of the tokenizer in use, reported next to token based size checks.
+	 */
+	get name(): string {
+		return this.model ? `${getModelName(this.model)} (model)` : this.encoding;
+	}
+
+	async countTokens(text: string): Promise<number> {
+		if (this.model) {
+			try {
+				return await this.model.getNumTokens(text);
+			} catch {
+				// Fall back to the encoding when the provider counter fails
+			}
+		}
+		return this.countTokensSync(text);
+	}
+
+	/**
+	 * Cuts the text to at most maxTokens tokens of the encoding.
+	 */
+	truncate(text: string, maxTokens: number): string {
+		const encoder = getEncoder(this.encoding);
+		const tokens = encoder.encode(text);
+		if (tokens.length <= maxTokens) {
+			return text;
+		}
+		// A cut inside a multi-byte character decodes to a replacement character
+		return encoder.decode(tokens.slice(0, Math.max(0, maxTokens))).replace(/\uFFFD+$/, '');
+	}
+
+	/**
+	 * Encoding based count, used where a synchronous estimate is good enough.
+	 */
+	countTokensSync(text: string): number {
+		try {
+			return getEncoder(this.encoding).encode(text).length;
+		} catch {
+			// Fallback to approximate token count if tiktoken fails
+			return Math.ceil(text.length / 4);
+		}
+	}
+}
@@ -0,0 +1,83 @@
+// Ends of sentences, including closing quotes or brackets, followed by whitespace
+const SENTENCE_END = /[.!?…]+["')\]]*(?=\s)/g;
+
+/**
+ * Positions where the text can be cut without splitting a sentence, a line or a bullet.
+ */
+export function findBoundaries(text: string): number[] {
+	const boundaries = new Set<number>();
+
+	for (const match of text.matchAll(SENTENCE_END)) {
+		boundaries.add(match.index! + match[0].length);
+	}
+	for (const match of text.matchAll(/\n/g)) {
+		boundaries.add(match.index!);
+	}
+	boundaries.add(text.length);
+
+	return [...boundaries].filter((position) => position > 0).sort((a, b) => a - b);
+}
+
+/**
+ * Finds the longest prefix ending at one of the positions that still fits. The measured
+ * size grows with the prefix, so a binary search keeps the number of measurements low.
+ */
+async function findLongestFittingPrefix(
+	text: string,
+	positions: number[],
+	fits: (prefix: string) => Promise<boolean>,
+): Promise<string | undefined> {
+	let low = 0;
+	let high = positions.length - 1;
+	let best: string | undefined;
+
+	while (low <= high) {
+		const middle = Math.floor((low + high) / 2);
+		const prefix = text.slice(0, positions[middle]).trimEnd();
+		if (prefix.length > 0 && (await fits(prefix))) {
+			best = prefix;
+			low = middle + 1;
+		} else {
+			high = middle - 1;
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Trims the text to maxSize at the last sentence, line or bullet boundary that fits. When
+ * even the first sentence is too long it falls back to the last whole word, and to a hard
+ * cut for text without spaces. The result is guaranteed to fit.
+ */
+export async function truncateAtBoundary(
+	text: string,
+	maxSize: number,
+	measure: (text: string) => Promise<number>,
+	hardCut: (text: string, maxSize: number) => string,
+): Promise<string> {
+	const fits = async (candidate: string) => (await measure(candidate)) <= maxSize;
+	if (await fits(text)) {
+		return text;
+	}
+
+	const atBoundary = await findLongestFittingPrefix(text, findBoundaries(text), fits);
+	if (atBoundary !== undefined) {
+		return atBoundary;
+	}
+
+	// Words only need to be searched within what a hard cut would keep
+	const cut = hardCut(text, maxSize);
+	const wordEnds = [...cut.matchAll(/\S(?=\s)/g)].map((match) => match.index! + 1);
+	const atWord = await findLongestFittingPrefix(cut, wordEnds, fits);
+	if (atWord !== undefined) {
+		return atWord;
+	}
+
+	// Model token counters may disagree with the encoding used to cut, shorten until they agree
+	let truncated = cut;
+	while (truncated.length > 0 && !(await fits(truncated))) {
+		truncated = truncated.slice(0, Math.floor(truncated.length * 0.9));
+	}
+	return truncated;
+}
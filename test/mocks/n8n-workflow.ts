@@ -90,6 +90,17 @@ export interface INodeInputConfiguration {
   required?: boolean;
 }
 
+export class NodeOperationError extends Error {
+  constructor(
+    public node: any,
+    message: string,
+    public options: any = {},
+  ) {
+    super(message);
+    this.name = 'NodeOperationError';
+  }
+}
+
 export class VersionedNodeType {
   constructor(nodeVersions: any, baseDescription: any) {
     // Mock implementation